@@ -1,55 +1,299 @@
-import React, { useState, useCallback, useMemo, useRef } from 'react';
-import type { TextureInfo, VrmData } from './types';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import type { TextureInfo, TextureRole, VrmData, VrmMeta } from './types';
 import ModelPreview from './components/ModelPreview';
 import RightPanel, { type RightTabId } from './components/RightPanel';
 import AppHeader from './components/AppHeader';
 import AppFooter from './components/AppFooter';
 import ErrorBanner from './components/ErrorBanner';
+import ValidationPanel from './components/ValidationPanel';
 import LoadingIndicator from './components/LoadingIndicator';
 import UploadPrompt from './components/UploadPrompt';
-import { parseGlb, extractTextures, resizeImage, rebuildGlb } from './services/vrmService';
+import type { GlobalResizeMode } from './components/GlobalResizeControl';
+import type { ComparisonMode } from './components/VrmComparisonViewer';
+import type { CaptureThumbnail, ThumbnailCaptureOptions } from './libs/thumbnailCapture';
+import {
+  parseGlb,
+  extractTextures,
+  resizeImage,
+  rebuildGlb,
+  detectEncodableFormats,
+  type ProcessedImage,
+  type RebuildGlbResult,
+} from './services/vrmService';
+import type { ImageDedupeReport } from './services/imageDedupe';
+import { formatPruneSummary, type PruneReport } from './services/prune';
+import { formatMorphTargetSummary, type MorphTargetReport } from './services/morphTargets';
+import {
+  convertVrmJsonCopy,
+  formatConversionSummary,
+  type VrmConversionReport,
+} from './services/vrmConversion';
+import { hasValidationErrors, validateGlb, type ValidationFinding } from './services/glbValidator';
+import { formatBytes } from './utils/format';
+import { planTextureSizesForBudget, type SizeBudgetPlan } from './services/sizeBudget';
+import { estimateProjectedImageSize, getSizeBreakdown, type ProjectedImageSize } from './services/sizeBreakdown';
+import { getModelStats, type SceneStats, type StatsImage } from './services/modelStats';
+import { getTargetDimensions, isResizeNoop, type ResizeSpec } from './services/imageCodec';
+import { DEFAULT_RESAMPLE_OPTIONS, type ResampleFilter } from './services/resample';
+import { TEXTURE_WORKER_POOL_SIZE } from './services/textureWorkerPool';
+import {
+  countFinishedJobs,
+  type ProcessingProgress,
+  type TextureJobProgress,
+  type TextureJobStatus,
+} from './services/processingProgress';
+import { mapWithConcurrency } from './utils/concurrency';
+import { BUILT_IN_PLATFORM_PROFILES, type PlatformProfile } from './constants/platformProfiles';
+import { TEXTURE_ROLE_LABELS } from './constants/textureRoles';
+import { checkPlatformProfile, parsePlatformProfile, type PlatformFix } from './services/platformCheck';
 import { useStatusMessage } from './hooks/useStatusMessage';
-import { useVrmMetadata } from './hooks/useVrmMetadata';
+import { useVrmMetadata, type MetadataFieldValue } from './hooks/useVrmMetadata';
+import { useEditHistory } from './hooks/useEditHistory';
+import {
+  DEFAULT_OUTPUT_QUALITY,
+  getFallbackMimeType,
+  TEXTURE_FORMAT_EXTENSIONS,
+  type TextureOutputFormat,
+} from './constants/textureFormats';
+import { KTX2_MIME_TYPE, encodeKtx2 } from './services/ktx2';
+import {
+  applyRoleResizePolicy,
+  getTextureImportance,
+  getTextureResampleOptions,
+  getTextureRoles,
+  type RoleResizePolicy,
+} from './services/textureRoles';
+
+// VRM thumbnails are only read as metadata and never uploaded to the GPU
+const isGpuTexture = (texture: TextureInfo) => getTextureRoles(texture).some(role => role !== 'thumbnail');
+
+/** Estimated size of a texture once its pending resize and output format are applied. */
+const projectTextureSize = (texture: TextureInfo, resize: ResizeSpec | null, mimeType: string, keepFallback: boolean) =>
+  estimateProjectedImageSize(
+    {
+      byteLength: texture.byteLength,
+      width: texture.originalWidth,
+      height: texture.originalHeight,
+      mimeType: texture.mimeType,
+    },
+    { resize, mimeType, keepFallback, isNormalMap: getTextureRoles(texture).includes('normal') }
+  );
+
+const getTextureName = (textures: TextureInfo[], textureIndex: number) =>
+  textures.find(texture => texture.index === textureIndex)?.name ?? `Texture ${textureIndex}`;
+
+/** Edit state recorded in the undo history. */
+type EditSnapshot = {
+  textures: TextureInfo[];
+  resizeOptions: Map<number, ResizeSpec>;
+  globalResizeValue: ResizeSpec | null;
+  rolePolicy: RoleResizePolicy;
+  formatOptions: Map<number, TextureOutputFormat>;
+  globalFormatValue: TextureOutputFormat;
+  editedMetadata: VrmMeta | null;
+  addedThumbnail: { file: File; blobUrl: string } | null;
+};
+
+const toStatsImage = (texture: TextureInfo): StatsImage => ({
+  index: texture.index,
+  name: texture.name,
+  width: texture.originalWidth,
+  height: texture.originalHeight,
+  mimeType: texture.mimeType,
+});
+
+const formatDedupeReport = (report: ImageDedupeReport | undefined): string =>
+  report && report.mergedImageCount > 0
+    ? ` Merged ${report.mergedImageCount} duplicate image(s), saving ${formatBytes(report.savedBytes)}.`
+    : '';
+
+const formatPruneReport = (report: PruneReport | undefined): string => {
+  const summary = report ? formatPruneSummary(report) : '';
+  return summary ? ` Removed unused ${summary} (${formatBytes(report!.savedBytes)}).` : '';
+};
+
+const formatMorphTargetReport = (report: MorphTargetReport | undefined): string => {
+  const summary = report ? formatMorphTargetSummary(report) : '';
+  return summary ? ` Removed unused ${summary} (${formatBytes(report!.savedBytes)}).` : '';
+};
+
+const formatConversionReport = (report: VrmConversionReport | undefined): string =>
+  report ? ` Converted ${formatConversionSummary(report)}.` : '';
 
 function App() {
   const [vrmFile, setVrmFile] = useState<File | null>(null);
   const [vrmData, setVrmData] = useState<VrmData | null>(null);
   const [vrmPreviewBuffer, setVrmPreviewBuffer] = useState<ArrayBuffer | null>(null);
+  const [originalBuffer, setOriginalBuffer] = useState<ArrayBuffer | null>(null);
   const [textures, setTextures] = useState<TextureInfo[]>([]);
-  const [resizeOptions, setResizeOptions] = useState<Map<number, number>>(new Map());
+  const [resizeOptions, setResizeOptions] = useState<Map<number, ResizeSpec>>(new Map());
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasFinishedInitialLoad, setHasFinishedInitialLoad] = useState(false);
   const [isInitialUploadLoading, setIsInitialUploadLoading] = useState(false);
   const [activeRightTab, setActiveRightTab] = useState<RightTabId>('metadata');
-  const [globalResizeValue, setGlobalResizeValue] = useState(0);
+  const [globalResizeValue, setGlobalResizeValue] = useState<ResizeSpec | null>(null);
+  const [globalResizeMode, setGlobalResizeMode] = useState<GlobalResizeMode>('max');
+  const [rolePolicy, setRolePolicy] = useState<RoleResizePolicy>({});
+  const [sizeBudgetMb, setSizeBudgetMb] = useState(25);
+  const [sizeBudgetPlan, setSizeBudgetPlan] = useState<SizeBudgetPlan | null>(null);
+  const [isSizeBudgetPlanning, setIsSizeBudgetPlanning] = useState(false);
+  const [formatOptions, setFormatOptions] = useState<Map<number, TextureOutputFormat>>(new Map());
+  const [globalFormatValue, setGlobalFormatValue] = useState<TextureOutputFormat>('original');
+  const [outputQuality, setOutputQuality] = useState(DEFAULT_OUTPUT_QUALITY);
+  const [resampleFilter, setResampleFilter] = useState<ResampleFilter>(DEFAULT_RESAMPLE_OPTIONS.filter);
+  const [keepFallbackImages, setKeepFallbackImages] = useState(true);
+  const [encodableFormats, setEncodableFormats] = useState<Set<string>>(new Set(['image/png', 'image/jpeg']));
+  const [dedupeImages, setDedupeImages] = useState(true);
+  const [pruneUnused, setPruneUnused] = useState(false);
+  const [pruneReport, setPruneReport] = useState<PruneReport | null>(null);
+  const [removeUnusedMorphTargets, setRemoveUnusedMorphTargets] = useState(false);
+  const [morphTargetReport, setMorphTargetReport] = useState<MorphTargetReport | null>(null);
+  const [convertVersion, setConvertVersion] = useState(false);
+  const [validationFindings, setValidationFindings] = useState<ValidationFinding[] | null>(null);
+  const [allowInvalidExport, setAllowInvalidExport] = useState(false);
   const [viewerBackgroundColor, setViewerBackgroundColor] = useState('#080810');
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>('off');
+  // Thumbnail for a model that has none, embedded as a new image on export
+  const [addedThumbnail, setAddedThumbnail] = useState<{ file: File; blobUrl: string } | null>(null);
+  const [originalImages, setOriginalImages] = useState<StatsImage[]>([]);
+  const [sceneStats, setSceneStats] = useState<SceneStats | null>(null);
+  const [customPlatformProfiles, setCustomPlatformProfiles] = useState<PlatformProfile[]>([]);
+  const [platformProfileId, setPlatformProfileId] = useState(BUILT_IN_PLATFORM_PROFILES[0].id);
+  const [processingProgress, setProcessingProgress] = useState<ProcessingProgress | null>(null);
 
   const metadataThumbnailInputRef = useRef<HTMLInputElement>(null);
+  const thumbnailCaptureRef = useRef<CaptureThumbnail | null>(null);
+  const processedImageCacheRef = useRef(new Map<string, ProcessedImage>());
+  const processingAbortRef = useRef<AbortController | null>(null);
 
   const { statusMessage, updateStatusMessage, clearStatusMessage } = useStatusMessage();
 
   const {
-    vrmMetadata,
+    vrmVersion,
+    editedMetadata,
+    setEditedMetadata,
+    isMetadataEdited,
+    metadataErrors,
+    metadataFieldDefinitions,
+    updateMetadataField,
+    resetMetadata,
     metadataThumbnailImageIndex,
     metadataThumbnailTexture,
-    metadataFields,
   } = useVrmMetadata(vrmData, textures);
 
+  const showModelSections = hasFinishedInitialLoad && !isInitialUploadLoading;
+
+  const editSnapshot = useMemo<EditSnapshot>(
+    () => ({
+      textures,
+      resizeOptions,
+      globalResizeValue,
+      rolePolicy,
+      formatOptions,
+      globalFormatValue,
+      editedMetadata,
+      addedThumbnail,
+    }),
+    [
+      textures,
+      resizeOptions,
+      globalResizeValue,
+      rolePolicy,
+      formatOptions,
+      globalFormatValue,
+      editedMetadata,
+      addedThumbnail,
+    ]
+  );
+
+  const restoreEditSnapshot = useCallback((snapshot: EditSnapshot) => {
+    setTextures(snapshot.textures);
+    setResizeOptions(snapshot.resizeOptions);
+    setGlobalResizeValue(snapshot.globalResizeValue);
+    setRolePolicy(snapshot.rolePolicy);
+    setFormatOptions(snapshot.formatOptions);
+    setGlobalFormatValue(snapshot.globalFormatValue);
+    setEditedMetadata(snapshot.editedMetadata);
+    setAddedThumbnail(snapshot.addedThumbnail);
+    setSizeBudgetPlan(null);
+  }, [setEditedMetadata]);
+
+  // Replaced images stay alive while any history entry can bring them back
+  const revokeDiscardedBlobUrls = useCallback((discarded: EditSnapshot[], remaining: EditSnapshot[]) => {
+    const getBlobUrls = (snapshot: EditSnapshot) => [
+      ...snapshot.textures.map(texture => texture.blobUrl),
+      ...(snapshot.addedThumbnail ? [snapshot.addedThumbnail.blobUrl] : []),
+    ];
+    const inUse = new Set(remaining.flatMap(getBlobUrls));
+    new Set(discarded.flatMap(getBlobUrls)).forEach(blobUrl => {
+      if (!inUse.has(blobUrl)) URL.revokeObjectURL(blobUrl);
+    });
+  }, []);
+
+  const editHistory = useEditHistory(editSnapshot, {
+    enabled: showModelSections,
+    restore: restoreEditSnapshot,
+    onDiscard: revokeDiscardedBlobUrls,
+  });
+  const { labelNextEdit } = editHistory;
+
+  const handleMetadataFieldChange = useCallback((key: keyof VrmMeta, value: MetadataFieldValue) => {
+    const field = metadataFieldDefinitions.find(definition => definition.key === key);
+    // Typing into one field is recorded as a single edit
+    labelNextEdit(`Edit ${field?.label ?? key}`, `metadata.${key}`);
+    updateMetadataField(key, value);
+  }, [metadataFieldDefinitions, labelNextEdit, updateMetadataField]);
+
+  const handleMetadataReset = useCallback(() => {
+    labelNextEdit('Reset metadata');
+    resetMetadata();
+  }, [labelNextEdit, resetMetadata]);
+
+  const conversionTarget = vrmVersion === '0.x' ? '1.0' : vrmVersion === '1.0' ? '0.x' : null;
+
+  // Lossy conversions are listed as soon as conversion is enabled, before anything is exported
+  const conversionPreview = useMemo(() => {
+    if (!vrmData || !convertVersion || !conversionTarget) return null;
+    const meta = isMetadataEdited && editedMetadata ? editedMetadata : undefined;
+    return convertVrmJsonCopy(vrmData.json, conversionTarget, meta);
+  }, [vrmData, convertVersion, conversionTarget, isMetadataEdited, editedMetadata]);
+
+  useEffect(() => {
+    detectEncodableFormats().then(setEncodableFormats);
+  }, []);
+
   const resetState = useCallback(() => {
     textures.forEach(t => URL.revokeObjectURL(t.blobUrl));
+    if (addedThumbnail) URL.revokeObjectURL(addedThumbnail.blobUrl);
+    setAddedThumbnail(null);
     setVrmFile(null);
     setVrmData(null);
     setVrmPreviewBuffer(null);
+    setOriginalBuffer(null);
     setTextures([]);
+    setOriginalImages([]);
+    processingAbortRef.current?.abort();
+    processedImageCacheRef.current = new Map();
+    setSceneStats(null);
     setResizeOptions(new Map());
+    setFormatOptions(new Map());
+    setGlobalFormatValue('original');
+    setSizeBudgetPlan(null);
+    setRolePolicy({});
+    setPruneReport(null);
+    setRemoveUnusedMorphTargets(false);
+    setMorphTargetReport(null);
+    setConvertVersion(false);
+    setValidationFindings(null);
+    setAllowInvalidExport(false);
     setIsLoading(false);
     clearStatusMessage();
     setError(null);
     setHasFinishedInitialLoad(false);
     setIsInitialUploadLoading(false);
     setActiveRightTab('metadata');
-  }, [textures, clearStatusMessage]);
+  }, [textures, addedThumbnail, clearStatusMessage]);
 
   const handleFileChange = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -70,12 +314,14 @@ function App() {
     try {
       const arrayBuffer = await file.arrayBuffer();
       setVrmPreviewBuffer(arrayBuffer);
+      setOriginalBuffer(arrayBuffer);
       const { json, bin } = parseGlb(arrayBuffer);
       setVrmData({ json, bin });
 
       updateStatusMessage('Extracting textures...');
       const extracted = await extractTextures(json, bin);
       setTextures(extracted);
+      setOriginalImages(extracted.filter(isGpuTexture).map(toStatsImage));
       setHasFinishedInitialLoad(true);
 
     } catch (e: any) {
@@ -88,77 +334,218 @@ function App() {
     }
   }, [resetState, updateStatusMessage, clearStatusMessage]);
 
-  const handleResizeChange = useCallback((textureIndex: number, size: number) => {
-    setResizeOptions(prev => new Map(prev).set(textureIndex, size));
-  }, []);
+  const handleResizeChange = useCallback((textureIndex: number, resize: ResizeSpec | null) => {
+    labelNextEdit(`Resize ${getTextureName(textures, textureIndex)}`);
+    setResizeOptions(prev => {
+      const newOptions = new Map(prev);
+      if (resize) {
+        newOptions.set(textureIndex, resize);
+      } else {
+        newOptions.delete(textureIndex);
+      }
+      return newOptions;
+    });
+  }, [textures, labelNextEdit]);
+
+  const handleFormatChange = useCallback((textureIndex: number, format: TextureOutputFormat) => {
+    labelNextEdit(`Change format of ${getTextureName(textures, textureIndex)}`);
+    setFormatOptions(prev => {
+      const newOptions = new Map(prev);
+      const texture = textures.find(t => t.index === textureIndex);
+      if (format === 'original' || format === texture?.mimeType) {
+        newOptions.delete(textureIndex);
+      } else {
+        newOptions.set(textureIndex, format);
+      }
+      return newOptions;
+    });
+  }, [textures, labelNextEdit]);
+
+  const handleGlobalFormat = useCallback((format: TextureOutputFormat) => {
+    labelNextEdit('Change format of all textures');
+    setGlobalFormatValue(format);
+    const newOptions = new Map<number, TextureOutputFormat>();
+    if (format !== 'original') {
+      textures
+        // VRM thumbnails must stay PNG/JPEG
+        .filter(texture => texture.mimeType !== format && texture.index !== metadataThumbnailImageIndex)
+        .forEach(texture => newOptions.set(texture.index, format));
+    }
+    setFormatOptions(newOptions);
+  }, [textures, metadataThumbnailImageIndex, labelNextEdit]);
+
+  const encodeTextureImage = useCallback(
+    async (
+      texture: TextureInfo,
+      mimeType: string,
+      resize: ResizeSpec | null,
+      signal?: AbortSignal
+    ): Promise<ArrayBuffer> => {
+      const resample = getTextureResampleOptions(vrmData?.json, texture, resampleFilter);
+      if (mimeType !== KTX2_MIME_TYPE) {
+        return resizeImage(texture.blobUrl, mimeType, resize, outputQuality, resample, signal);
+      }
+
+      const pngData = await resizeImage(texture.blobUrl, 'image/png', resize, undefined, resample, signal);
+      signal?.throwIfAborted();
+      const ktx2Data = await encodeKtx2(new Uint8Array(pngData), {
+        quality: outputQuality,
+        isNormalMap: getTextureRoles(texture).includes('normal'),
+      });
+      return ktx2Data.slice().buffer;
+    },
+    [vrmData, outputQuality, resampleFilter]
+  );
 
-  const buildProcessedGlb = useCallback(async (onProgress?: (processed: number, total: number) => void): Promise<ArrayBuffer | null> => {
+  const buildProcessedGlb = useCallback(async (
+    onProgress?: (jobs: TextureJobProgress[]) => void,
+    signal?: AbortSignal
+  ): Promise<RebuildGlbResult | null> => {
     if (!vrmData) {
       return null;
     }
 
-    const replacedTextures = textures.filter(t => t.isReplaced);
-    const resizedTextureOptions = ([...resizeOptions.entries()] as [number, number][])
-      .filter(([, size]) => size > 0);
-
-    const totalToProcess = replacedTextures.length + resizedTextureOptions.length;
-    let processedCount = 0;
-    onProgress?.(processedCount, totalToProcess);
-
-    const imagesToProcess = new Map<number, { data: ArrayBuffer; mimeType: string }>();
-    const tasks: Promise<void>[] = [];
-
-    for (const texture of replacedTextures) {
-      const task = fetch(texture.blobUrl)
-        .then(res => res.arrayBuffer())
-        .then(buffer => {
-          imagesToProcess.set(texture.index, { data: buffer, mimeType: texture.mimeType });
-          processedCount++;
-          onProgress?.(processedCount, totalToProcess);
-        });
-      tasks.push(task);
+    const metadataErrorMessages = Object.values(metadataErrors);
+    if (isMetadataEdited && metadataErrorMessages.length > 0) {
+      throw new Error(`Metadata is invalid. ${metadataErrorMessages.join(' ')}`);
     }
 
-    for (const [textureIndex, size] of resizedTextureOptions) {
-      const texture = textures.find(t => t.index === textureIndex);
-      if (!texture || texture.isReplaced) {
-        continue;
+    // Replaced textures keep their uploaded size; the others use their resize option
+    const texturesToProcess = textures
+      .map(texture => ({ texture, resize: texture.isReplaced ? null : resizeOptions.get(texture.index) ?? null }))
+      .filter(({ texture, resize }) => texture.isReplaced || resize || formatOptions.has(texture.index));
+
+    const totalToProcess = texturesToProcess.length;
+    let jobs: TextureJobProgress[] = texturesToProcess.map(({ texture }) => ({
+      index: texture.index,
+      name: texture.name,
+      status: 'queued',
+    }));
+    const setJobStatus = (textureIndex: number, status: TextureJobStatus) => {
+      jobs = jobs.map(job => (job.index === textureIndex ? { ...job, status } : job));
+      onProgress?.(jobs);
+    };
+    onProgress?.(jobs);
+
+    const encodeTexture = async (
+      texture: TextureInfo,
+      resize: ResizeSpec | null,
+      signal: AbortSignal
+    ): Promise<ProcessedImage> => {
+      const mimeType = formatOptions.get(texture.index) ?? texture.mimeType;
+      if (!resize && mimeType === texture.mimeType) {
+        // Nothing to re-encode: embed the replacement as uploaded
+        return { data: await fetch(texture.blobUrl, { signal }).then(res => res.arrayBuffer()), mimeType };
       }
 
-      const task = resizeImage(texture.blobUrl, texture.mimeType, size)
-        .then(resizedData => {
-          imagesToProcess.set(textureIndex, { data: resizedData, mimeType: texture.mimeType });
-          processedCount++;
-          onProgress?.(processedCount, totalToProcess);
-        });
-      tasks.push(task);
-    }
+      const data = await encodeTextureImage(texture, mimeType, resize, signal);
+      if (!TEXTURE_FORMAT_EXTENSIONS[mimeType] || !keepFallbackImages) {
+        return { data, mimeType };
+      }
 
-    await Promise.all(tasks);
+      const fallbackMimeType = getFallbackMimeType(texture.mimeType);
+      const fallbackData = await resizeImage(
+        texture.blobUrl,
+        fallbackMimeType,
+        resize,
+        outputQuality,
+        getTextureResampleOptions(vrmData.json, texture, resampleFilter),
+        signal
+      );
+      return { data, mimeType, fallback: { data: fallbackData, mimeType: fallbackMimeType } };
+    };
 
-    if (totalToProcess === 0) {
+    // Results are keyed by everything that affects the output, so a download right after a preview
+    // reuses the preview's images. A finished run keeps only its own results to bound the memory held.
+    const previousResults = processedImageCacheRef.current;
+    const results = new Map<string, ProcessedImage>();
+    const imagesToProcess = new Map<number, ProcessedImage>();
+    try {
+      await mapWithConcurrency(
+        texturesToProcess,
+        TEXTURE_WORKER_POOL_SIZE,
+        async ({ texture, resize }, taskSignal) => {
+          const key = JSON.stringify([
+            texture.blobUrl,
+            resize,
+            formatOptions.get(texture.index) ?? null,
+            outputQuality,
+            resampleFilter,
+            keepFallbackImages,
+          ]);
+          const previous = previousResults.get(key);
+          if (!previous) {
+            setJobStatus(texture.index, 'processing');
+          }
+          const processed = previous ?? (await encodeTexture(texture, resize, taskSignal));
+          results.set(key, processed);
+          imagesToProcess.set(texture.index, processed);
+          setJobStatus(texture.index, previous ? 'reused' : 'done');
+        },
+        signal
+      );
+    } catch (error) {
+      // Keep the earlier results too, so running again after canceling picks up where it stopped
+      processedImageCacheRef.current = new Map([...previousResults, ...results]);
+      throw error;
+    }
+    processedImageCacheRef.current = results;
+    signal?.throwIfAborted();
+
+    const convertTo = convertVersion && conversionTarget ? conversionTarget : undefined;
+    const hasModelChanges =
+      isMetadataEdited || pruneUnused || removeUnusedMorphTargets || !!convertTo || !!addedThumbnail;
+    if (totalToProcess === 0 && !hasModelChanges) {
       return null;
     }
 
-    return rebuildGlb(vrmData.json, vrmData.bin, imagesToProcess);
-  }, [vrmData, resizeOptions, textures]);
+    return rebuildGlb(vrmData.json, vrmData.bin, imagesToProcess, {
+      meta: isMetadataEdited && editedMetadata ? editedMetadata : undefined,
+      dedupeImages,
+      prune: pruneUnused,
+      removeUnusedMorphTargets,
+      convertTo,
+      thumbnail: addedThumbnail
+        ? { data: await addedThumbnail.file.arrayBuffer(), mimeType: addedThumbnail.file.type }
+        : undefined,
+    });
+  }, [
+    addedThumbnail,
+    dedupeImages,
+    pruneUnused,
+    removeUnusedMorphTargets,
+    convertVersion,
+    conversionTarget,
+    vrmData,
+    resizeOptions,
+    formatOptions,
+    outputQuality,
+    resampleFilter,
+    keepFallbackImages,
+    encodeTextureImage,
+    textures,
+    isMetadataEdited,
+    editedMetadata,
+    metadataErrors,
+  ]);
 
-  const handleTextureReplace = useCallback(async (textureIndex: number, file: File) => {
+  const handleTextureReplace = useCallback(async (textureIndex: number, file: File, editLabel?: string) => {
     const newBlobUrl = URL.createObjectURL(file);
     const img = new Image();
     img.onload = () => {
+      labelNextEdit(editLabel ?? `Replace ${getTextureName(textures, textureIndex)}`);
       setTextures(prevTextures => {
         const newTextures = [...prevTextures];
         const targetTextureIndex = newTextures.findIndex(t => t.index === textureIndex);
         if (targetTextureIndex > -1) {
-          // Revoke old blob url before replacing
-          URL.revokeObjectURL(newTextures[targetTextureIndex].blobUrl);
+          // The old blob URL is revoked once no history entry refers to it
           newTextures[targetTextureIndex] = {
             ...newTextures[targetTextureIndex],
             blobUrl: newBlobUrl,
             originalWidth: img.width,
             originalHeight: img.height,
             mimeType: file.type,
+            byteLength: file.size,
             isReplaced: true,
           };
         }
@@ -170,18 +557,21 @@ function App() {
         newOptions.delete(textureIndex);
         return newOptions;
       });
+      setSizeBudgetPlan(null);
     };
     img.src = newBlobUrl;
-  }, []);
+  }, [textures, labelNextEdit]);
 
   const handleMetadataThumbnailUpload = useCallback(
     (file: File) => {
       if (metadataThumbnailImageIndex === null) {
+        labelNextEdit('Add thumbnail');
+        setAddedThumbnail({ file, blobUrl: URL.createObjectURL(file) });
         return;
       }
-      handleTextureReplace(metadataThumbnailImageIndex, file);
+      handleTextureReplace(metadataThumbnailImageIndex, file, 'Replace thumbnail');
     },
-    [handleTextureReplace, metadataThumbnailImageIndex]
+    [handleTextureReplace, metadataThumbnailImageIndex, labelNextEdit]
   );
 
   const handleMetadataThumbnailClick = useCallback(() => {
@@ -202,10 +592,30 @@ function App() {
     [handleMetadataThumbnailUpload]
   );
 
-  const handleGlobalResize = useCallback((size: number) => {
-      setGlobalResizeValue(size);
-      const newOptions = new Map<number, number>();
-      if (size === 0) {
+  const handleThumbnailCapture = useCallback(
+    async (options: ThumbnailCaptureOptions) => {
+      const capture = thumbnailCaptureRef.current;
+      if (!capture) {
+        setError('The 3D preview is not ready. Wait for it to load, or turn off the comparison, then capture again.');
+        return;
+      }
+
+      try {
+        const blob = await capture(options);
+        handleMetadataThumbnailUpload(new File([blob], 'thumbnail.png', { type: 'image/png' }));
+        updateStatusMessage(`Captured a ${options.size}x${options.size} thumbnail from the preview.`, 3000);
+      } catch (e) {
+        setError(`Failed to capture the thumbnail: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    },
+    [handleMetadataThumbnailUpload, updateStatusMessage]
+  );
+
+  const handleGlobalResize = useCallback((resize: ResizeSpec | null) => {
+      labelNextEdit('Resize all textures');
+      setGlobalResizeValue(resize);
+      const newOptions = new Map<number, ResizeSpec>();
+      if (!resize) {
           setResizeOptions(newOptions);
           return;
       }
@@ -213,43 +623,258 @@ function App() {
         // Don't apply global resize to replaced textures
         if(texture.isReplaced) return;
 
-        const largestDim = Math.max(texture.originalWidth, texture.originalHeight);
-        if (size < largestDim) {
-            newOptions.set(texture.index, size);
+        if (!isResizeNoop(texture.originalWidth, texture.originalHeight, resize)) {
+            newOptions.set(texture.index, resize);
         }
       });
       setResizeOptions(newOptions);
-  }, [textures]);
+  }, [textures, labelNextEdit]);
+
+  const textureRoles = useMemo(
+    () => Array.from(new Set(textures.flatMap(texture => getTextureRoles(texture)))),
+    [textures]
+  );
+
+  const handleRolePolicyChange = useCallback((role: TextureRole, size: number) => {
+    const newPolicy = { ...rolePolicy, [role]: size };
+    labelNextEdit(`Resize ${TEXTURE_ROLE_LABELS[role]} textures`);
+    setRolePolicy(newPolicy);
+    setGlobalResizeValue(null);
+    setResizeOptions(applyRoleResizePolicy(textures, newPolicy));
+  }, [rolePolicy, textures, labelNextEdit]);
+
+  const planSizeBudget = useCallback(async (budgetMb: number) => {
+    if (!vrmData) return;
+
+    setIsSizeBudgetPlanning(true);
+    setError(null);
+    updateStatusMessage('Calculating texture sizes for the file size budget...');
+
+    try {
+      const budgetTextures = textures.map(texture => {
+        const mimeType = formatOptions.get(texture.index) ?? texture.mimeType;
+        return {
+          index: texture.index,
+          name: texture.name,
+          width: texture.originalWidth,
+          height: texture.originalHeight,
+          ...projectTextureSize(texture, null, mimeType, keepFallbackImages),
+          importance: getTextureImportance(texture),
+          isLocked: texture.isReplaced,
+        };
+      });
+
+      const plan = await planTextureSizesForBudget(
+        vrmData.json,
+        budgetTextures,
+        budgetMb * 1024 * 1024,
+        async (textureIndex, size) => {
+          const texture = textures.find(t => t.index === textureIndex)!;
+          const mimeType = formatOptions.get(textureIndex) ?? texture.mimeType;
+          const resized = await encodeTextureImage(texture, mimeType, { mode: 'max', size });
+          return resized.byteLength;
+        }
+      );
+      setSizeBudgetPlan(plan);
+    } catch (e) {
+      if (e instanceof Error) {
+        setError(`An error occurred while planning texture sizes: ${e.message}`);
+      } else {
+        setError('An unknown error occurred while planning texture sizes.');
+      }
+    } finally {
+      setIsSizeBudgetPlanning(false);
+      clearStatusMessage();
+    }
+  }, [
+    vrmData,
+    textures,
+    formatOptions,
+    keepFallbackImages,
+    encodeTextureImage,
+    updateStatusMessage,
+    clearStatusMessage,
+  ]);
+
+  const handleSizeBudgetPlan = useCallback(() => planSizeBudget(sizeBudgetMb), [planSizeBudget, sizeBudgetMb]);
+
+  const handleApplySizeBudgetPlan = useCallback(() => {
+    if (!sizeBudgetPlan) return;
+
+    const newOptions = new Map<number, ResizeSpec>();
+    sizeBudgetPlan.entries
+      .filter(entry => entry.size > 0)
+      .forEach(entry => newOptions.set(entry.index, { mode: 'max', size: entry.size }));
+    labelNextEdit('Apply file size plan');
+    setGlobalResizeValue(null);
+    setResizeOptions(newOptions);
+    updateStatusMessage('Applied the file size plan to the texture settings.', 3000);
+  }, [sizeBudgetPlan, updateStatusMessage, labelNextEdit]);
 
   const handleViewerBackgroundColorChange = useCallback((color: string) => {
     setViewerBackgroundColor(color);
   }, []);
 
   const changesCount = useMemo(() => {
-    const resizedCount = Array.from(resizeOptions.values()).filter((size: number) => size > 0).length;
-    const replacedCount = textures.filter(t => t.isReplaced).length;
-    return resizedCount + replacedCount;
-  }, [resizeOptions, textures]);
+    const changedTextureIndices = new Set<number>(formatOptions.keys());
+    resizeOptions.forEach((_, textureIndex) => changedTextureIndices.add(textureIndex));
+    textures.filter(t => t.isReplaced).forEach(t => changedTextureIndices.add(t.index));
+    return (
+      changedTextureIndices.size +
+      (isMetadataEdited ? 1 : 0) +
+      (pruneUnused ? 1 : 0) +
+      (removeUnusedMorphTargets ? 1 : 0) +
+      (convertVersion && conversionTarget ? 1 : 0) +
+      (addedThumbnail ? 1 : 0)
+    );
+  }, [
+    addedThumbnail,
+    resizeOptions,
+    formatOptions,
+    textures,
+    isMetadataEdited,
+    pruneUnused,
+    removeUnusedMorphTargets,
+    convertVersion,
+    conversionTarget,
+  ]);
+
+  // Recomputed on every resize, replacement or format change so the projected download size is visible
+  // before processing
+  const sizeBreakdown = useMemo(() => {
+    if (!vrmData) return null;
+    const projectedImages = new Map<number, ProjectedImageSize>(
+      textures.map(texture => [
+        texture.index,
+        projectTextureSize(
+          texture,
+          texture.isReplaced ? null : resizeOptions.get(texture.index) ?? null,
+          formatOptions.get(texture.index) ?? texture.mimeType,
+          keepFallbackImages
+        ),
+      ])
+    );
+    return getSizeBreakdown(vrmData.json, projectedImages);
+  }, [vrmData, textures, resizeOptions, formatOptions, keepFallbackImages]);
+
+  const modelStats = useMemo(() => {
+    if (!vrmData) return null;
+    const editedImages = textures.filter(isGpuTexture).map(texture => {
+      const resize = texture.isReplaced ? null : resizeOptions.get(texture.index);
+      const { width, height } = resize
+        ? getTargetDimensions(texture.originalWidth, texture.originalHeight, resize)
+        : { width: texture.originalWidth, height: texture.originalHeight };
+      const mimeType = formatOptions.get(texture.index) ?? texture.mimeType;
+      return { ...toStatsImage(texture), width, height, mimeType };
+    });
+    return {
+      original: getModelStats(vrmData.json, originalImages),
+      edited: getModelStats(vrmData.json, editedImages),
+    };
+  }, [vrmData, textures, originalImages, resizeOptions, formatOptions]);
+
+  const platformProfiles = useMemo(
+    () => [...BUILT_IN_PLATFORM_PROFILES, ...customPlatformProfiles],
+    [customPlatformProfiles]
+  );
+
+  const platformChecks = useMemo(() => {
+    const profile = platformProfiles.find(p => p.id === platformProfileId);
+    if (!vrmData || !sizeBreakdown || !modelStats || !profile) return null;
+    const formatExtensions = Array.from(
+      new Set(Array.from(formatOptions.values(), (format: TextureOutputFormat) => TEXTURE_FORMAT_EXTENSIONS[format]))
+    ).filter(Boolean);
+    const exportedJson = conversionPreview?.json ?? vrmData.json;
+    return checkPlatformProfile(profile, {
+      fileSizeBytes: sizeBreakdown.projectedTotalBytes,
+      textures: modelStats.edited.textures,
+      triangles: modelStats.edited.triangles,
+      materials: modelStats.edited.materials,
+      extensions: Array.from(new Set([...(exportedJson.extensionsUsed ?? []), ...formatExtensions])),
+      formatExtensions,
+      conversionTarget: convertVersion ? null : conversionTarget,
+    });
+  }, [
+    platformProfiles,
+    platformProfileId,
+    vrmData,
+    sizeBreakdown,
+    modelStats,
+    formatOptions,
+    conversionPreview,
+    convertVersion,
+    conversionTarget,
+  ]);
+
+  const handlePlatformProfileImport = useCallback(async (file: File) => {
+    try {
+      const profile = parsePlatformProfile(await file.text());
+      setCustomPlatformProfiles(prev => [...prev.filter(p => p.id !== profile.id), profile]);
+      setPlatformProfileId(profile.id);
+      setError(null);
+    } catch (e) {
+      setError(`Failed to load the platform profile: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, []);
+
+  const handlePlatformFix = useCallback((fix: PlatformFix) => {
+    switch (fix.type) {
+      case 'resizeTextures':
+        setGlobalResizeMode('max');
+        handleGlobalResize({ mode: 'max', size: fix.size });
+        break;
+      case 'fitFileSize':
+        // The plan still has to be reviewed and applied in the Textures tab
+        setSizeBudgetMb(fix.budgetMb);
+        setGlobalResizeMode('budget');
+        setActiveRightTab('textures');
+        planSizeBudget(fix.budgetMb);
+        break;
+      case 'revertTextureFormats':
+        handleGlobalFormat('original');
+        break;
+      case 'convertVersion':
+        setConvertVersion(true);
+        break;
+    }
+  }, [handleGlobalResize, planSizeBudget, handleGlobalFormat]);
+
+  const handleCancelProcessing = useCallback(() => processingAbortRef.current?.abort(), []);
 
   const handleProcessAndDownload = useCallback(async () => {
     if (!vrmData) return;
 
+    const controller = new AbortController();
+    processingAbortRef.current = controller;
     setIsLoading(true);
     setError(null);
     updateStatusMessage('Processing textures...');
+    setProcessingProgress({ jobs: [], startedAt: Date.now() });
 
     try {
-      const processedBuffer = await buildProcessedGlb((processed, total) => {
-        updateStatusMessage(`Processing textures... (${processed}/${total})`);
-      });
+      const result = await buildProcessedGlb(jobs => {
+        setProcessingProgress(progress => progress && { ...progress, jobs });
+        updateStatusMessage(`Processing textures... (${countFinishedJobs(jobs)}/${jobs.length})`);
+      }, controller.signal);
 
-      if (!processedBuffer) {
-        updateStatusMessage('No texture changes to process.');
+      if (!result) {
+        updateStatusMessage('No changes to process.');
+        return;
+      }
+
+      const output = parseGlb(result.buffer);
+      const findings = validateGlb(output.json, output.bin, { isMetadataEdited });
+      setValidationFindings(findings);
+      setPruneReport(result.prune ?? null);
+      setMorphTargetReport(result.morphTargets ?? null);
+      if (hasValidationErrors(findings) && !allowInvalidExport) {
+        setError('The processed file failed validation. Review the errors below, or allow downloading anyway.');
+        clearStatusMessage();
         return;
       }
 
       updateStatusMessage('Rebuilding VRM file...');
-      const blob = new Blob([processedBuffer], { type: 'model/gltf-binary' });
+      const blob = new Blob([result.buffer], { type: 'model/gltf-binary' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -260,8 +885,14 @@ function App() {
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
 
-      updateStatusMessage('Download complete! You can now reset and process another file.');
+      updateStatusMessage(
+        `Download complete!${formatConversionReport(result.conversion)}${formatMorphTargetReport(result.morphTargets)}${formatDedupeReport(result.dedupe)}${formatPruneReport(result.prune)} You can now reset and process another file.`
+      );
     } catch (e) {
+      if (controller.signal.aborted) {
+        updateStatusMessage('Processing canceled.', 3000);
+        return;
+      }
       if (e instanceof Error) {
         setError(`An error occurred during processing: ${e.message}`);
       } else {
@@ -270,29 +901,56 @@ function App() {
       clearStatusMessage();
     } finally {
       setIsLoading(false);
+      setProcessingProgress(null);
+      if (processingAbortRef.current === controller) {
+        processingAbortRef.current = null;
+      }
     }
-  }, [vrmData, vrmFile, buildProcessedGlb, updateStatusMessage, clearStatusMessage]);
+  }, [
+    vrmData,
+    vrmFile,
+    buildProcessedGlb,
+    allowInvalidExport,
+    isMetadataEdited,
+    updateStatusMessage,
+    clearStatusMessage,
+  ]);
 
   const handlePreviewUpdate = useCallback(async () => {
     if (!vrmData || changesCount === 0) return;
 
+    const controller = new AbortController();
+    processingAbortRef.current = controller;
     setIsLoading(true);
     setError(null);
     updateStatusMessage('Processing textures...');
+    setProcessingProgress({ jobs: [], startedAt: Date.now() });
 
     try {
-      const processedBuffer = await buildProcessedGlb((processed, total) => {
-        updateStatusMessage(`Processing textures... (${processed}/${total})`);
-      });
+      const result = await buildProcessedGlb(jobs => {
+        setProcessingProgress(progress => progress && { ...progress, jobs });
+        updateStatusMessage(`Processing textures... (${countFinishedJobs(jobs)}/${jobs.length})`);
+      }, controller.signal);
 
-      if (!processedBuffer) {
-        updateStatusMessage('No texture changes to preview.');
+      if (!result) {
+        updateStatusMessage('No changes to preview.');
         return;
       }
 
-      setVrmPreviewBuffer(processedBuffer);
-      updateStatusMessage('Preview updated with your texture changes.', 3000);
+      const output = parseGlb(result.buffer);
+      setValidationFindings(validateGlb(output.json, output.bin, { isMetadataEdited }));
+      setVrmPreviewBuffer(result.buffer);
+      setPruneReport(result.prune ?? null);
+      setMorphTargetReport(result.morphTargets ?? null);
+      updateStatusMessage(
+        `Preview updated with your changes.${formatConversionReport(result.conversion)}${formatMorphTargetReport(result.morphTargets)}${formatDedupeReport(result.dedupe)}${formatPruneReport(result.prune)}`,
+        3000
+      );
     } catch (e) {
+      if (controller.signal.aborted) {
+        updateStatusMessage('Processing canceled.', 3000);
+        return;
+      }
       if (e instanceof Error) {
         setError(`An error occurred while updating the preview: ${e.message}`);
       } else {
@@ -301,17 +959,24 @@ function App() {
       clearStatusMessage();
     } finally {
       setIsLoading(false);
+      setProcessingProgress(null);
+      if (processingAbortRef.current === controller) {
+        processingAbortRef.current = null;
+      }
     }
-  }, [vrmData, changesCount, buildProcessedGlb, updateStatusMessage, clearStatusMessage]);
+  }, [vrmData, changesCount, buildProcessedGlb, isMetadataEdited, updateStatusMessage, clearStatusMessage]);
 
   const rightTabs: { id: RightTabId; label: string }[] = [
     { id: 'metadata', label: 'Metadata' },
     { id: 'thumbnail', label: 'Thumbnail' },
     { id: 'textures', label: 'Textures' },
+    { id: 'size', label: 'File Size' },
+    { id: 'performance', label: 'Performance' },
+    { id: 'platform', label: 'Platform' },
+    { id: 'history', label: 'History' },
   ];
 
   const hasTextures = textures.length > 0;
-  const showModelSections = hasFinishedInitialLoad && !isInitialUploadLoading;
 
 
   return (
@@ -321,7 +986,11 @@ function App() {
         <main className="space-y-6 flex-1 mb-4">
           {error && <ErrorBanner message={error} />}
           {(isLoading || statusMessage) && (
-            <LoadingIndicator statusMessage={statusMessage} />
+            <LoadingIndicator
+              statusMessage={statusMessage}
+              progress={processingProgress}
+              onCancel={processingProgress ? handleCancelProcessing : undefined}
+            />
           )}
 
           {!showModelSections ? (
@@ -330,34 +999,104 @@ function App() {
             <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_minmax(0,0.9fr)]">
               <ModelPreview
                 vrmPreviewBuffer={vrmPreviewBuffer}
+                originalBuffer={originalBuffer}
                 changesCount={changesCount}
                 hasTextures={hasTextures}
                 onPreviewUpdate={handlePreviewUpdate}
                 onProcessAndDownload={handleProcessAndDownload}
                 onReset={resetState}
+                dedupeImages={dedupeImages}
+                onDedupeImagesChange={setDedupeImages}
+                pruneUnused={pruneUnused}
+                onPruneUnusedChange={setPruneUnused}
+                pruneReport={pruneReport}
+                removeUnusedMorphTargets={removeUnusedMorphTargets}
+                onRemoveUnusedMorphTargetsChange={setRemoveUnusedMorphTargets}
+                morphTargetReport={morphTargetReport}
+                conversionTarget={conversionTarget}
+                convertVersion={convertVersion}
+                onConvertVersionChange={setConvertVersion}
+                conversionReport={conversionPreview?.report ?? null}
                 viewerBackgroundColor={viewerBackgroundColor}
                 onViewerBackgroundColorChange={handleViewerBackgroundColorChange}
+                comparisonMode={comparisonMode}
+                onComparisonModeChange={setComparisonMode}
+                onSceneStats={setSceneStats}
+                thumbnailCaptureRef={thumbnailCaptureRef}
               />
               <RightPanel
                 activeRightTab={activeRightTab}
                 setActiveRightTab={setActiveRightTab}
-                vrmMetadata={vrmMetadata}
-                metadataFields={metadataFields}
+                vrmMetadata={editedMetadata}
+                vrmVersion={vrmVersion}
+                metadataFieldDefinitions={metadataFieldDefinitions}
+                metadataErrors={metadataErrors}
+                isMetadataEdited={isMetadataEdited}
+                handleMetadataFieldChange={handleMetadataFieldChange}
+                handleMetadataReset={handleMetadataReset}
                 metadataThumbnailTexture={metadataThumbnailTexture}
                 metadataThumbnailImageIndex={metadataThumbnailImageIndex}
                 metadataThumbnailInputRef={metadataThumbnailInputRef}
                 handleMetadataThumbnailClick={handleMetadataThumbnailClick}
                 handleMetadataThumbnailSelected={handleMetadataThumbnailSelected}
+                handleThumbnailCapture={handleThumbnailCapture}
+                addedThumbnailUrl={addedThumbnail?.blobUrl ?? null}
                 textures={textures}
                 resizeOptions={resizeOptions}
                 handleResizeChange={handleResizeChange}
+                formatOptions={formatOptions}
+                handleFormatChange={handleFormatChange}
+                encodableFormats={encodableFormats}
                 handleTextureReplace={handleTextureReplace}
                 handleGlobalResize={handleGlobalResize}
                 globalResizeValue={globalResizeValue}
+                globalResizeMode={globalResizeMode}
+                handleGlobalResizeModeChange={setGlobalResizeMode}
+                sizeBudgetMb={sizeBudgetMb}
+                handleSizeBudgetMbChange={setSizeBudgetMb}
+                sizeBudgetPlan={sizeBudgetPlan}
+                isSizeBudgetPlanning={isSizeBudgetPlanning}
+                handleSizeBudgetPlan={handleSizeBudgetPlan}
+                handleApplySizeBudgetPlan={handleApplySizeBudgetPlan}
+                textureRoles={textureRoles}
+                rolePolicy={rolePolicy}
+                handleRolePolicyChange={handleRolePolicyChange}
+                globalFormatValue={globalFormatValue}
+                handleGlobalFormat={handleGlobalFormat}
+                outputQuality={outputQuality}
+                handleOutputQualityChange={setOutputQuality}
+                resampleFilter={resampleFilter}
+                handleResampleFilterChange={setResampleFilter}
+                keepFallbackImages={keepFallbackImages}
+                handleKeepFallbackImagesChange={setKeepFallbackImages}
                 hasTextures={hasTextures}
+                sizeBreakdown={sizeBreakdown}
+                modelStats={modelStats}
+                sceneStats={sceneStats}
+                platformProfiles={platformProfiles}
+                platformProfileId={platformProfileId}
+                handlePlatformProfileChange={setPlatformProfileId}
+                handlePlatformProfileImport={handlePlatformProfileImport}
+                platformChecks={platformChecks}
+                handlePlatformFix={handlePlatformFix}
+                historyEntries={editHistory.entries}
+                historyIndex={editHistory.currentIndex}
+                canUndo={editHistory.canUndo}
+                canRedo={editHistory.canRedo}
+                handleUndo={editHistory.undo}
+                handleRedo={editHistory.redo}
+                handleHistoryJump={editHistory.jumpTo}
               />
             </div>
           )}
+
+          {showModelSections && validationFindings && (
+            <ValidationPanel
+              findings={validationFindings}
+              allowInvalidExport={allowInvalidExport}
+              onAllowInvalidExportChange={setAllowInvalidExport}
+            />
+          )}
         </main>
         <AppFooter />
       </div>
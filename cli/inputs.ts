@@ -0,0 +1,77 @@
+import { readdir, stat } from 'node:fs/promises';
+import path from 'node:path';
+
+const GLOB_CHARS = /[*?]/;
+
+const globToRegExp = (pattern: string): RegExp => {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" matches zero or more directories
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+const listFiles = async (directory: string, recursive: boolean): Promise<string[]> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (recursive) {
+        files.push(...(await listFiles(entryPath, true)));
+      }
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+};
+
+const isVrmFile = (file: string) => file.toLowerCase().endsWith('.vrm');
+
+/**
+ * Expands CLI input arguments into a sorted list of .vrm files.
+ * Accepts plain files, directories (non-recursive) and glob patterns with * , ** and ?.
+ */
+export const expandInputs = async (inputs: string[]): Promise<string[]> => {
+  const files = new Set<string>();
+
+  for (const input of inputs) {
+    const normalized = input.split(path.sep).join('/');
+    if (GLOB_CHARS.test(normalized)) {
+      const segments = normalized.split('/');
+      const firstGlobSegment = segments.findIndex(segment => GLOB_CHARS.test(segment));
+      const baseDirectory = segments.slice(0, firstGlobSegment).join('/') || '.';
+      const matcher = globToRegExp(normalized.replace(/^\.\//, ''));
+      const recursive = normalized.includes('**') || firstGlobSegment < segments.length - 1;
+
+      for (const file of await listFiles(baseDirectory, recursive)) {
+        const relative = file.split(path.sep).join('/').replace(/^\.\//, '');
+        if (matcher.test(relative)) {
+          files.add(file);
+        }
+      }
+      continue;
+    }
+
+    const info = await stat(input);
+    if (info.isDirectory()) {
+      (await listFiles(input, false)).filter(isVrmFile).forEach(file => files.add(file));
+    } else {
+      files.add(input);
+    }
+  }
+
+  return [...files].sort();
+};
@@ -0,0 +1,32 @@
+import sharp from 'sharp';
+import type { ImageCodec } from '../services/imageCodec';
+
+const encode = (pipeline: sharp.Sharp, mimeType: string): sharp.Sharp => {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return pipeline.jpeg({ quality: 90 });
+    case 'image/webp':
+      return pipeline.webp({ quality: 90 });
+    case 'image/png':
+      return pipeline.png();
+    default:
+      throw new Error(`Unsupported image type: ${mimeType}`);
+  }
+};
+
+/**
+ * Node image codec backed by sharp, so textures can be resized without a browser.
+ */
+export const sharpImageCodec: ImageCodec = {
+  getDimensions: async data => {
+    const { width, height } = await sharp(data).metadata();
+    if (!width || !height) {
+      throw new Error('Could not read image dimensions');
+    }
+    return { width, height };
+  },
+  resize: async (data, mimeType, width, height) => {
+    const output = await encode(sharp(data).resize(width, height, { fit: 'fill' }), mimeType).toBuffer();
+    return new Uint8Array(output.buffer, output.byteOffset, output.byteLength);
+  },
+};
@@ -0,0 +1,215 @@
+import { mkdir, readFile, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseGlb, resizeGlbTextures, type TextureResizeResult } from '../services/vrmService';
+import { formatPruneSummary } from '../services/prune';
+import { formatMorphTargetSummary } from '../services/morphTargets';
+import { formatConversionSummary } from '../services/vrmConversion';
+import type { VrmVersion } from '../types';
+import { formatBytes } from '../utils/format';
+import { expandInputs } from './inputs';
+import { sharpImageCodec } from './sharpImageCodec';
+
+const USAGE = `Usage: vrm-kit resize <input...> --max <size> [-o <output>] [--dedupe] [--prune] [--prune-morphs]
+                       [--convert-to <version>]
+
+Resizes every texture in the given VRM files so that its longest side is at most <size>.
+
+Inputs may be .vrm files, directories or glob patterns (e.g. "avatars/**/*.vrm").
+
+Options:
+  -m, --max <size>     Maximum texture dimension in pixels (required)
+  -o, --output <path>  Output file for a single input, or output directory for several.
+                       Inputs keep their paths relative to the directory they share.
+                       Defaults to <name>_processed.vrm next to each input.
+      --dedupe         Merge images whose bytes are identical after resizing
+      --prune          Remove materials, textures, images, samplers, accessors and
+                       buffer views that nothing references
+      --prune-morphs   Remove morph targets that no blend shape or expression uses
+      --convert-to <version>
+                       Convert the model to VRM 1.0 or 0.x and list what could not be
+                       converted exactly
+  -h, --help           Show this help
+`;
+
+class UsageError extends Error {}
+
+const formatResult = (result: TextureResizeResult): string => {
+  if (result.skipped) {
+    return `  #${result.index} ${result.name}: skipped, kept ${result.mimeType} as-is (${result.skipped})`;
+  }
+  const unchanged = result.width === result.originalWidth && result.height === result.originalHeight;
+  const dimensions = `${result.originalWidth}x${result.originalHeight} -> ${result.width}x${result.height}`;
+  const bytes = `${formatBytes(result.originalByteLength)} -> ${formatBytes(result.byteLength)}`;
+  return `  #${result.index} ${result.name}: ${dimensions}, ${bytes}${unchanged ? ' (unchanged)' : ''}`;
+};
+
+/** Returns the deepest directory that contains every input, so outputs can keep their relative layout. */
+const getCommonDirectory = (inputs: string[]): string => {
+  const [first, ...rest] = inputs.map(input => path.dirname(path.resolve(input)).split(path.sep));
+  let length = first.length;
+  for (const segments of rest) {
+    let shared = 0;
+    while (shared < Math.min(length, segments.length) && segments[shared] === first[shared]) {
+      shared++;
+    }
+    length = shared;
+  }
+  return first.slice(0, length).join(path.sep) || path.sep;
+};
+
+/**
+ * Maps each input to its output file. With an output directory, inputs keep their paths relative to
+ * the directory they have in common, so a/model.vrm and b/model.vrm do not overwrite each other.
+ */
+const resolveOutputPaths = async (inputs: string[], output: string | undefined): Promise<Map<string, string>> => {
+  const getProcessedName = (input: string) => `${path.basename(input, path.extname(input))}_processed.vrm`;
+  if (!output) {
+    return new Map(inputs.map(input => [input, path.join(path.dirname(input), getProcessedName(input))]));
+  }
+
+  const isDirectory = await stat(output).then(info => info.isDirectory(), () => false);
+  if (inputs.length === 1 && !isDirectory) {
+    return new Map([[inputs[0], output]]);
+  }
+
+  const baseDirectory = getCommonDirectory(inputs);
+  return new Map(
+    inputs.map(input => {
+      const relativeDirectory = path.relative(baseDirectory, path.dirname(path.resolve(input)));
+      return [input, path.join(output, relativeDirectory, getProcessedName(input))];
+    })
+  );
+};
+
+const resizeFile = async (
+  input: string,
+  outputPath: string,
+  maxSize: number,
+  options: { dedupeImages: boolean; prune: boolean; removeUnusedMorphTargets: boolean; convertTo?: VrmVersion }
+) => {
+  const file = await readFile(input);
+  const arrayBuffer = file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength) as ArrayBuffer;
+  const { json, bin } = parseGlb(arrayBuffer);
+  const { buffer, results, dedupe, prune, morphTargets, conversion } = await resizeGlbTextures(
+    json,
+    bin,
+    maxSize,
+    sharpImageCodec,
+    options
+  );
+  await writeFile(outputPath, new Uint8Array(buffer));
+
+  console.log(`${input} -> ${outputPath}`);
+  results.forEach(result => (result.skipped ? console.warn : console.log)(formatResult(result)));
+  if (dedupe && dedupe.mergedImageCount > 0) {
+    console.log(`  Merged ${dedupe.mergedImageCount} duplicate image(s), saved ${formatBytes(dedupe.savedBytes)}`);
+  }
+  const morphTargetSummary = morphTargets ? formatMorphTargetSummary(morphTargets) : '';
+  if (morphTargetSummary) {
+    console.log(`  Removed unused ${morphTargetSummary}, saved ${formatBytes(morphTargets!.savedBytes)}`);
+  }
+  const pruneSummary = prune ? formatPruneSummary(prune) : '';
+  if (pruneSummary) {
+    console.log(`  Removed unused ${pruneSummary}, saved ${formatBytes(prune!.savedBytes)}`);
+  }
+  if (conversion) {
+    console.log(`  Converted ${formatConversionSummary(conversion)}`);
+    conversion.issues.forEach(issue => console.log(`    ${issue.path}: ${issue.message}`));
+  }
+  console.log(`  Total: ${formatBytes(arrayBuffer.byteLength)} -> ${formatBytes(buffer.byteLength)}`);
+};
+
+const runResize = async (args: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      max: { type: 'string', short: 'm' },
+      output: { type: 'string', short: 'o' },
+      dedupe: { type: 'boolean', default: false },
+      prune: { type: 'boolean', default: false },
+      'prune-morphs': { type: 'boolean', default: false },
+      'convert-to': { type: 'string' },
+    },
+  });
+
+  const maxSize = Number(values.max);
+  if (!Number.isInteger(maxSize) || maxSize <= 0) {
+    throw new UsageError('--max must be a positive integer.');
+  }
+  const convertTo = values['convert-to'] as VrmVersion | undefined;
+  if (convertTo !== undefined && convertTo !== '1.0' && convertTo !== '0.x') {
+    throw new UsageError('--convert-to must be 1.0 or 0.x.');
+  }
+  if (positionals.length === 0) {
+    throw new UsageError('No input files given.');
+  }
+
+  const inputs = await expandInputs(positionals);
+  if (inputs.length === 0) {
+    throw new UsageError('No .vrm files matched the given inputs.');
+  }
+
+  const outputPaths = await resolveOutputPaths(inputs, values.output);
+  const seenOutputs = new Map<string, string>();
+  for (const [input, outputPath] of outputPaths) {
+    const other = seenOutputs.get(path.resolve(outputPath));
+    if (other) {
+      throw new UsageError(`${other} and ${input} would both be written to ${outputPath}.`);
+    }
+    seenOutputs.set(path.resolve(outputPath), input);
+  }
+
+  let failures = 0;
+  for (const [input, outputPath] of outputPaths) {
+    try {
+      await mkdir(path.dirname(outputPath), { recursive: true });
+      await resizeFile(input, outputPath, maxSize, {
+        dedupeImages: values.dedupe,
+        prune: values.prune,
+        removeUnusedMorphTargets: values['prune-morphs'],
+        convertTo,
+      });
+    } catch (e) {
+      failures++;
+      console.error(`${input}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  if (inputs.length > 1) {
+    console.log(`Processed ${inputs.length - failures}/${inputs.length} files.`);
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const [command, ...rest] = argv;
+  if (!command || command === '-h' || command === '--help' || rest.includes('-h') || rest.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  try {
+    if (command === 'resize') {
+      return await runResize(rest);
+    }
+    throw new UsageError(`Unknown command: ${command}`);
+  } catch (e) {
+    if (e instanceof UsageError || (e as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${(e as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw e;
+  }
+};
+
+main(process.argv.slice(2)).then(
+  code => {
+    process.exitCode = code;
+  },
+  e => {
+    console.error(e);
+    process.exitCode = 1;
+  }
+);
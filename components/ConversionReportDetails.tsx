@@ -0,0 +1,29 @@
+import React from 'react';
+import { formatConversionSummary, type VrmConversionReport } from '../services/vrmConversion';
+
+type ConversionReportDetailsProps = {
+  report: VrmConversionReport;
+};
+
+const ConversionReportDetails = ({ report }: ConversionReportDetailsProps) => {
+  const summary = formatConversionSummary(report);
+
+  if (report.issues.length === 0) {
+    return <p className="text-sm text-gray-400">Converting {summary}: everything converts exactly.</p>;
+  }
+
+  return (
+    <details open className="text-sm text-yellow-300">
+      <summary className="cursor-pointer">Converting {summary}</summary>
+      <ul className="mt-2 space-y-1 text-xs text-gray-400">
+        {report.issues.map((issue, i) => (
+          <li key={i}>
+            <code className="text-gray-300">{issue.path}</code> {issue.message}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default ConversionReportDetails;
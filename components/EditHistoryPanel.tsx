@@ -0,0 +1,60 @@
+import React from 'react';
+
+type EditHistoryPanelProps = {
+  /** Oldest first; the first entry is the model as opened. */
+  entries: { id: number; label: string }[];
+  currentIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+};
+
+const buttonClassName =
+  'flex-1 rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors enabled:hover:border-blue-500 enabled:hover:text-blue-200 disabled:cursor-not-allowed disabled:opacity-50';
+
+const EditHistoryPanel = ({
+  entries,
+  currentIndex,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}: EditHistoryPanelProps) => (
+  <div className="space-y-4">
+    <div className="flex gap-2">
+      <button onClick={onUndo} disabled={!canUndo} className={buttonClassName} title="Ctrl+Z / Cmd+Z">
+        Undo
+      </button>
+      <button onClick={onRedo} disabled={!canRedo} className={buttonClassName} title="Ctrl+Shift+Z / Cmd+Shift+Z">
+        Redo
+      </button>
+    </div>
+    <ol className="max-h-[55vh] space-y-1 overflow-y-auto">
+      {entries.map((entry, index) => (
+        <li key={entry.id}>
+          <button
+            onClick={() => onJump(index)}
+            aria-current={index === currentIndex ? 'step' : undefined}
+            className={`w-full rounded-md border px-3 py-2 text-left text-sm transition-colors ${
+              index === currentIndex
+                ? 'border-blue-500 bg-gray-900 text-white'
+                : index > currentIndex
+                  ? 'border-transparent text-gray-500 hover:text-gray-300'
+                  : 'border-transparent text-gray-300 hover:bg-gray-900/60'
+            }`}
+          >
+            {entry.label}
+          </button>
+        </li>
+      ))}
+    </ol>
+    <p className="text-xs text-gray-500">
+      Click an entry to go back to that point. Making a new edit after going back drops the entries after it.
+    </p>
+  </div>
+);
+
+export default EditHistoryPanel;
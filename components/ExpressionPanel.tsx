@@ -0,0 +1,86 @@
+import React from 'react';
+
+export type ViewerExpression = {
+  name: string;
+  isPreset: boolean;
+};
+
+type ExpressionPanelProps = {
+  expressions: ViewerExpression[];
+  weights: Record<string, number>;
+  onWeightChange: (name: string, weight: number) => void;
+  onReset: () => void;
+};
+
+/** Presets offered as one-click toggles when the model defines them. */
+const QUICK_EXPRESSIONS = ['blink', 'aa', 'ih', 'ou', 'ee', 'oh', 'happy', 'angry', 'sad', 'relaxed', 'surprised'];
+
+const ExpressionPanel = ({ expressions, weights, onWeightChange, onReset }: ExpressionPanelProps) => {
+  const quickExpressions = QUICK_EXPRESSIONS.filter(name => expressions.some(expression => expression.name === name));
+  const activeCount = expressions.filter(expression => (weights[expression.name] ?? 0) > 0).length;
+
+  if (expressions.length === 0) {
+    return <p className="text-sm text-gray-400">This model defines no expressions.</p>;
+  }
+
+  return (
+    <details className="rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-sm text-gray-300">
+      <summary className="cursor-pointer font-semibold">
+        Expressions ({expressions.length}){activeCount > 0 && ` · ${activeCount} active`}
+      </summary>
+      <div className="mt-3 space-y-3">
+        <div className="flex flex-wrap gap-2">
+          {quickExpressions.map(name => {
+            const isActive = (weights[name] ?? 0) > 0;
+            return (
+              <button
+                key={name}
+                onClick={() => onWeightChange(name, isActive ? 0 : 1)}
+                className={`rounded border px-2 py-1 text-xs font-semibold transition-colors ${
+                  isActive
+                    ? 'border-blue-500 bg-blue-600 text-white'
+                    : 'border-gray-600 text-gray-300 hover:border-blue-500 hover:text-blue-200'
+                }`}
+              >
+                {name}
+              </button>
+            );
+          })}
+          <button
+            onClick={onReset}
+            disabled={activeCount === 0}
+            className="rounded border border-gray-600 px-2 py-1 text-xs font-semibold text-gray-300 transition-colors hover:border-red-500 hover:text-red-300 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Reset
+          </button>
+        </div>
+        <ul className="grid gap-x-6 gap-y-1 sm:grid-cols-2">
+          {expressions.map(expression => {
+            const weight = weights[expression.name] ?? 0;
+            return (
+              <li key={expression.name} className="flex items-center gap-2">
+                <span className="w-28 truncate text-xs" title={expression.name}>
+                  {expression.name}
+                  {!expression.isPreset && <span className="text-gray-500"> (custom)</span>}
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={weight}
+                  onChange={e => onWeightChange(expression.name, Number(e.target.value))}
+                  className="flex-1"
+                  aria-label={`${expression.name} weight`}
+                />
+                <span className="w-8 text-right text-xs text-gray-400">{weight.toFixed(2)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </details>
+  );
+};
+
+export default ExpressionPanel;
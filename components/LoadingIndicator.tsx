@@ -1,15 +1,75 @@
 import React from 'react';
 import Spinner from './Spinner';
+import {
+  countFinishedJobs,
+  estimateRemainingSeconds,
+  type ProcessingProgress,
+  type TextureJobStatus,
+} from '../services/processingProgress';
+import { formatDuration } from '../utils/format';
 
 type LoadingIndicatorProps = {
   statusMessage: string;
+  /** Per-texture progress while textures are processed. */
+  progress?: ProcessingProgress | null;
+  onCancel?: () => void;
 };
 
-const LoadingIndicator = ({ statusMessage }: LoadingIndicatorProps) => (
-  <div className="flex flex-col items-center justify-center bg-gray-800 rounded-lg p-12 text-center">
-    <Spinner className="w-16 h-16 mb-4" />
-    <p className="text-xl text-gray-300">{statusMessage}</p>
-  </div>
-);
+const JOB_STATUS_LABELS: Record<TextureJobStatus, string> = {
+  queued: 'Waiting',
+  processing: 'Processing',
+  done: 'Done',
+  reused: 'Reused',
+};
+
+const JOB_STATUS_CLASSES: Record<TextureJobStatus, string> = {
+  queued: 'text-gray-500',
+  processing: 'text-blue-300',
+  done: 'text-green-400',
+  reused: 'text-green-400',
+};
+
+const LoadingIndicator = ({ statusMessage, progress, onCancel }: LoadingIndicatorProps) => {
+  const jobs = progress?.jobs ?? [];
+  const finishedCount = countFinishedJobs(jobs);
+  const remainingSeconds = progress ? estimateRemainingSeconds(progress) : null;
+
+  return (
+    <div className="flex flex-col items-center justify-center bg-gray-800 rounded-lg p-12 text-center">
+      <Spinner className="w-16 h-16 mb-4" />
+      <p className="text-xl text-gray-300">{statusMessage}</p>
+      {jobs.length > 0 && (
+        <div className="mt-6 w-full max-w-md space-y-3 text-left">
+          <div className="h-2 w-full overflow-hidden rounded-full bg-gray-700">
+            <div
+              className="h-full bg-blue-500 transition-all"
+              style={{ width: `${(finishedCount / jobs.length) * 100}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-400">
+            {finishedCount} of {jobs.length} textures
+            {remainingSeconds !== null && ` · about ${formatDuration(remainingSeconds)} left`}
+          </p>
+          <ul className="max-h-40 overflow-y-auto rounded-md border border-gray-700 bg-gray-900 p-2 text-xs">
+            {jobs.map(job => (
+              <li key={job.index} className="flex justify-between gap-4 py-0.5">
+                <span className="truncate text-gray-300">{job.name}</span>
+                <span className={JOB_STATUS_CLASSES[job.status]}>{JOB_STATUS_LABELS[job.status]}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 rounded-lg border border-gray-600 px-4 py-2 text-sm font-semibold text-gray-300 transition-colors hover:border-red-500 hover:text-red-300"
+        >
+          Cancel
+        </button>
+      )}
+    </div>
+  );
+};
 
 export default LoadingIndicator;
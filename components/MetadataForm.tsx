@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import type { VrmMeta } from '../types';
+import type { MetaFieldDefinition } from '../constants/vrmMeta';
+import type { VrmMetaErrors } from '../services/vrmMeta';
+import type { MetadataFieldValue } from '../hooks/useVrmMetadata';
+
+type MetadataFormProps = {
+  metadata: VrmMeta;
+  fields: MetaFieldDefinition[];
+  errors: VrmMetaErrors;
+  onFieldChange: (key: keyof VrmMeta, value: MetadataFieldValue) => void;
+};
+
+const inputClassName =
+  'w-full bg-gray-700 border rounded-md px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const parseList = (text: string) => text.split('\n').map(item => item.trim()).filter(Boolean);
+
+const ListInput = ({
+  id,
+  value,
+  className,
+  onChange,
+}: {
+  id: string;
+  value: string[] | undefined;
+  className: string;
+  onChange: (value: string[]) => void;
+}) => {
+  // Keep the raw text so blank lines can be typed before an entry is filled in
+  const [text, setText] = useState(() => (value ?? []).join('\n'));
+
+  useEffect(() => {
+    if (JSON.stringify(parseList(text)) !== JSON.stringify(value ?? [])) {
+      setText((value ?? []).join('\n'));
+    }
+  }, [value]);
+
+  return (
+    <textarea
+      id={id}
+      rows={2}
+      placeholder="One entry per line"
+      value={text}
+      onChange={e => {
+        setText(e.target.value);
+        onChange(parseList(e.target.value));
+      }}
+      className={className}
+    />
+  );
+};
+
+const FieldInput = ({
+  field,
+  value,
+  hasError,
+  onChange,
+}: {
+  field: MetaFieldDefinition;
+  value: MetadataFieldValue;
+  hasError: boolean;
+  onChange: (value: MetadataFieldValue) => void;
+}) => {
+  const className = `${inputClassName} ${hasError ? 'border-red-500' : 'border-gray-600'}`;
+  const id = `meta-${field.key}`;
+
+  switch (field.type) {
+    case 'enum':
+      return (
+        <select id={id} value={(value as string) ?? ''} onChange={e => onChange(e.target.value)} className={className}>
+          <option value="">-- Not set --</option>
+          {field.options?.map(option => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+          {typeof value === 'string' && value !== '' && !field.options?.includes(value) && (
+            <option value={value}>{value} (invalid)</option>
+          )}
+        </select>
+      );
+    case 'boolean':
+      return (
+        <select
+          id={id}
+          value={value === undefined ? '' : String(value)}
+          onChange={e => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+          className={className}
+        >
+          <option value="">-- Not set --</option>
+          <option value="true">Allow</option>
+          <option value="false">Disallow</option>
+        </select>
+      );
+    case 'list':
+      return <ListInput id={id} value={value as string[] | undefined} className={className} onChange={onChange} />;
+    case 'textarea':
+      return (
+        <textarea
+          id={id}
+          rows={3}
+          value={(value as string) ?? ''}
+          onChange={e => onChange(e.target.value)}
+          className={className}
+        />
+      );
+    default:
+      return (
+        <input
+          id={id}
+          type={field.type === 'url' ? 'url' : 'text'}
+          value={(value as string | number | undefined) ?? ''}
+          onChange={e => onChange(e.target.value)}
+          className={className}
+        />
+      );
+  }
+};
+
+const MetadataForm = ({ metadata, fields, errors, onFieldChange }: MetadataFormProps) => (
+  <div className="grid gap-3 sm:grid-cols-2">
+    {fields.map(field => (
+      <div
+        key={field.key}
+        className={`flex flex-col gap-1 rounded border border-gray-800 bg-gray-800/60 px-3 py-2 ${
+          field.type === 'textarea' || field.type === 'list' ? 'sm:col-span-2' : ''
+        }`}
+      >
+        <label htmlFor={`meta-${field.key}`} className="text-[11px] uppercase tracking-wide text-gray-400">
+          {field.label}
+          {field.required && <span className="text-red-400"> *</span>}
+        </label>
+        <FieldInput
+          field={field}
+          value={metadata[field.key]}
+          hasError={!!errors[field.key]}
+          onChange={value => onFieldChange(field.key, value)}
+        />
+        {errors[field.key] && <p className="text-xs text-red-400">{errors[field.key]}</p>}
+      </div>
+    ))}
+  </div>
+);
+
+export default MetadataForm;
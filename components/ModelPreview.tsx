@@ -1,80 +1,184 @@
 import React from 'react';
 import { DownloadIcon, PreviewIcon, ResetIcon } from './icons';
 import VrmViewer from './VrmViewer';
+import VrmComparisonViewer, { type ComparisonMode } from './VrmComparisonViewer';
+import PruneReportDetails from './PruneReportDetails';
+import MorphTargetReportDetails from './MorphTargetReportDetails';
+import ConversionReportDetails from './ConversionReportDetails';
+import type { PruneReport } from '../services/prune';
+import type { MorphTargetReport } from '../services/morphTargets';
+import type { VrmConversionReport } from '../services/vrmConversion';
+import type { VrmVersion } from '../types';
+import type { SceneStats } from '../services/modelStats';
+import type { CaptureThumbnail } from '../libs/thumbnailCapture';
 
 type ModelPreviewProps = {
   vrmPreviewBuffer: ArrayBuffer | null;
+  /** The uploaded file, compared against the preview once it has been updated. */
+  originalBuffer: ArrayBuffer | null;
   changesCount: number;
   hasTextures: boolean;
   onPreviewUpdate: () => Promise<void> | void;
   onProcessAndDownload: () => Promise<void> | void;
   onReset: () => void;
+  dedupeImages: boolean;
+  onDedupeImagesChange: (dedupe: boolean) => void;
+  pruneUnused: boolean;
+  onPruneUnusedChange: (prune: boolean) => void;
+  pruneReport: PruneReport | null;
+  removeUnusedMorphTargets: boolean;
+  onRemoveUnusedMorphTargetsChange: (remove: boolean) => void;
+  morphTargetReport: MorphTargetReport | null;
+  /** Version the model can be converted to on export, or null when conversion is not offered. */
+  conversionTarget: VrmVersion | null;
+  convertVersion: boolean;
+  onConvertVersionChange: (convert: boolean) => void;
+  conversionReport: VrmConversionReport | null;
   viewerBackgroundColor: string;
   onViewerBackgroundColorChange: (color: string) => void;
+  comparisonMode: ComparisonMode;
+  onComparisonModeChange: (mode: ComparisonMode) => void;
+  onSceneStats: (stats: SceneStats | null) => void;
+  thumbnailCaptureRef: React.MutableRefObject<CaptureThumbnail | null>;
 };
 
 const ModelPreview = ({
   vrmPreviewBuffer,
+  originalBuffer,
   changesCount,
   hasTextures,
   onPreviewUpdate,
   onProcessAndDownload,
   onReset,
+  dedupeImages,
+  onDedupeImagesChange,
+  pruneUnused,
+  onPruneUnusedChange,
+  pruneReport,
+  removeUnusedMorphTargets,
+  onRemoveUnusedMorphTargetsChange,
+  morphTargetReport,
+  conversionTarget,
+  convertVersion,
+  onConvertVersionChange,
+  conversionReport,
   viewerBackgroundColor,
   onViewerBackgroundColorChange,
-}: ModelPreviewProps) => (
-  <section className="bg-gray-800 rounded-lg p-4 border border-gray-700">
-    <div className="mb-3 flex items-center justify-between gap-2">
-      <h2 className="text-2xl font-semibold text-white">Model Preview</h2>
-      <p className="text-sm text-gray-400">Orbit with mouse / pinch to zoom</p>
-    </div>
-    <div className="mb-4 flex flex-wrap gap-3 justify-between">
-      <div className="flex flex-wrap gap-3">
-        <button
-          onClick={onPreviewUpdate}
-          disabled={changesCount === 0 || !hasTextures}
-          className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors inline-flex items-center gap-2"
-        >
-          <PreviewIcon className="w-5 h-5" />
-          Preview
-        </button>
-        </div>
+  comparisonMode,
+  onComparisonModeChange,
+  onSceneStats,
+  thumbnailCaptureRef,
+}: ModelPreviewProps) => {
+  const canCompare = !!vrmPreviewBuffer && !!originalBuffer && vrmPreviewBuffer !== originalBuffer;
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-4 border border-gray-700">
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <h2 className="text-2xl font-semibold text-white">Model Preview</h2>
+        <p className="text-sm text-gray-400">Orbit with mouse / pinch to zoom</p>
+      </div>
+      <div className="mb-4 flex flex-wrap gap-3 justify-between">
+        <div className="flex flex-wrap gap-3">
+          <button
+            onClick={onPreviewUpdate}
+            disabled={changesCount === 0 || !hasTextures}
+            className="bg-blue-600 hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg transition-colors inline-flex items-center gap-2"
+          >
+            <PreviewIcon className="w-5 h-5" />
+            Preview
+          </button>
+          </div>
+          <button
+            onClick={onProcessAndDownload}
+            disabled={changesCount === 0}
+            className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition-colors"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            Download ({changesCount} {changesCount === 1 ? 'change' : 'changes'})
+          </button>
+
         <button
-          onClick={onProcessAndDownload}
-          disabled={changesCount === 0}
-          className="bg-green-600 hover:bg-green-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition-colors"
+          onClick={onReset}
+          className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition-colors"
         >
-          <DownloadIcon className="w-5 h-5" />
-          Download ({changesCount} {changesCount === 1 ? 'change' : 'changes'})
+          <ResetIcon className="w-5 h-5" />
+          Reset
         </button>
+      </div>
+      <div className="mb-4 space-y-2">
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={dedupeImages} onChange={e => onDedupeImagesChange(e.target.checked)} />
+          Merge images with identical bytes on export
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input type="checkbox" checked={pruneUnused} onChange={e => onPruneUnusedChange(e.target.checked)} />
+          Remove unused materials, textures and buffers on export
+        </label>
+        {pruneReport && <PruneReportDetails report={pruneReport} />}
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={removeUnusedMorphTargets}
+            onChange={e => onRemoveUnusedMorphTargetsChange(e.target.checked)}
+          />
+          Remove morph targets no blend shape or expression uses on export
+        </label>
+        {morphTargetReport && <MorphTargetReportDetails report={morphTargetReport} />}
+        {conversionTarget && (
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={convertVersion} onChange={e => onConvertVersionChange(e.target.checked)} />
+            Convert to VRM {conversionTarget} on export
+          </label>
+        )}
+        {conversionReport && <ConversionReportDetails report={conversionReport} />}
+      </div>
 
-      <button
-        onClick={onReset}
-        className="bg-red-600 hover:bg-red-700 text-white font-bold py-2 px-4 rounded-lg inline-flex items-center gap-2 transition-colors"
-      >
-        <ResetIcon className="w-5 h-5" />
-        Reset
-      </button>
-    </div>
-
-    <div className="min-h-[360px]">
-      {vrmPreviewBuffer && (
-        <VrmViewer arrayBuffer={vrmPreviewBuffer} backgroundColor={viewerBackgroundColor} />
-      )}
-    </div>
-    <div className="mb-4 flex items-center gap-3 text-sm text-gray-300 justify-end mt-4">
-      <label htmlFor="viewer-bg-color" className="font-medium text-gray-300">
-        Viewer background
-      </label>
-      <input
-        id="viewer-bg-color"
-        type="color"
-        value={viewerBackgroundColor}
-        onChange={(event) => onViewerBackgroundColorChange(event.target.value)}
-        className="h-8 w-8 rounded border border-gray-600 bg-white p-0 text-gray-900"
-      />
-    </div>
-  </section>
-);
+      <div className="min-h-[360px]">
+        {vrmPreviewBuffer && canCompare && comparisonMode !== 'off' ? (
+          <VrmComparisonViewer
+            originalBuffer={originalBuffer!}
+            processedBuffer={vrmPreviewBuffer}
+            mode={comparisonMode}
+            backgroundColor={viewerBackgroundColor}
+          />
+        ) : vrmPreviewBuffer && (
+          <VrmViewer
+            arrayBuffer={vrmPreviewBuffer}
+            backgroundColor={viewerBackgroundColor}
+            onSceneStats={onSceneStats}
+            captureRef={thumbnailCaptureRef}
+          />
+        )}
+      </div>
+      <div className="mb-4 flex flex-wrap items-center gap-3 text-sm text-gray-300 justify-end mt-4">
+        <label htmlFor="viewer-comparison" className="font-medium text-gray-300">
+          Compare with original
+        </label>
+        <select
+          id="viewer-comparison"
+          value={canCompare ? comparisonMode : 'off'}
+          onChange={(event) => onComparisonModeChange(event.target.value as ComparisonMode)}
+          disabled={!canCompare}
+          title={canCompare ? undefined : 'Update the preview to compare it with the original'}
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <option value="off">Off</option>
+          <option value="sideBySide">Side by side</option>
+          <option value="split">Split</option>
+        </select>
+        <label htmlFor="viewer-bg-color" className="font-medium text-gray-300">
+          Viewer background
+        </label>
+        <input
+          id="viewer-bg-color"
+          type="color"
+          value={viewerBackgroundColor}
+          onChange={(event) => onViewerBackgroundColorChange(event.target.value)}
+          className="h-8 w-8 rounded border border-gray-600 bg-white p-0 text-gray-900"
+        />
+      </div>
+    </section>
+  );
+};
 
 export default ModelPreview;
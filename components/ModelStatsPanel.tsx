@@ -0,0 +1,106 @@
+import React from 'react';
+import type { ModelStats, ModelStatsComparison, SceneStats } from '../services/modelStats';
+import { formatBytes } from '../utils/format';
+
+type ModelStatsPanelProps = {
+  stats: ModelStatsComparison | null;
+  sceneStats: SceneStats | null;
+};
+
+type StatRow = {
+  label: string;
+  key: keyof Omit<ModelStats, 'textures'>;
+  sceneKey?: keyof SceneStats;
+  isBytes?: boolean;
+};
+
+const STAT_ROWS: StatRow[] = [
+  { label: 'Triangles', key: 'triangles', sceneKey: 'triangles' },
+  { label: 'Vertices', key: 'vertices' },
+  { label: 'Draw calls', key: 'drawCalls', sceneKey: 'drawCalls' },
+  { label: 'Meshes', key: 'meshes', sceneKey: 'meshes' },
+  { label: 'Skinned meshes', key: 'skinnedMeshes', sceneKey: 'skinnedMeshes' },
+  { label: 'Materials', key: 'materials', sceneKey: 'materials' },
+  { label: 'Bones', key: 'bones', sceneKey: 'bones' },
+  { label: 'Morph targets', key: 'morphTargets' },
+  { label: 'Texture memory', key: 'textureMemoryBytes', sceneKey: 'textureMemoryBytes', isBytes: true },
+];
+
+const formatStat = (value: number, isBytes?: boolean) => (isBytes ? formatBytes(value) : value.toLocaleString());
+
+const getChangeClassName = (original: number, edited: number) =>
+  edited < original ? 'text-green-400' : edited > original ? 'text-yellow-400' : '';
+
+const ModelStatsPanel = ({ stats, sceneStats }: ModelStatsPanelProps) => {
+  if (!stats) {
+    return <p className="text-sm text-gray-400">No file data is loaded.</p>;
+  }
+
+  const { original, edited } = stats;
+  const editedTextures = new Map(edited.textures.map(texture => [texture.index, texture]));
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">Performance</h3>
+        <p className="text-xs text-gray-500">
+          Counts come from the file; the preview column is measured from the rendered scene, where MToon outlines
+          add draw calls and each primitive is its own mesh. Texture memory assumes full mipmaps.
+        </p>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wide text-gray-500">
+            <th className="py-1 font-semibold">Metric</th>
+            <th className="py-1 text-right font-semibold">Original</th>
+            <th className="py-1 text-right font-semibold">With edits</th>
+            <th className="py-1 text-right font-semibold">Preview</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-300">
+          {STAT_ROWS.map(row => (
+            <tr key={row.key} className="border-t border-gray-800">
+              <td className="py-1">{row.label}</td>
+              <td className="py-1 text-right">{formatStat(original[row.key], row.isBytes)}</td>
+              <td className={`py-1 text-right ${getChangeClassName(original[row.key], edited[row.key])}`}>
+                {formatStat(edited[row.key], row.isBytes)}
+              </td>
+              <td className="py-1 text-right text-gray-400">
+                {row.sceneKey && sceneStats ? formatStat(sceneStats[row.sceneKey], row.isBytes) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {original.textures.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-semibold text-gray-300">Texture memory</h4>
+          <ul className="max-h-[40vh] space-y-1 overflow-y-auto rounded border border-gray-800 bg-gray-900 px-3 py-2 text-sm">
+            {original.textures.map(texture => {
+              const editedTexture = editedTextures.get(texture.index) ?? texture;
+              const isChanged = editedTexture.memoryBytes !== texture.memoryBytes;
+              return (
+                <li key={texture.index} className="flex justify-between gap-2 text-gray-300">
+                  <span className="truncate" title={texture.name}>
+                    {texture.name}
+                  </span>
+                  <span className="shrink-0 text-gray-400">
+                    {editedTexture.width}x{editedTexture.height},{' '}
+                    {isChanged && `${formatBytes(texture.memoryBytes)} → `}
+                    <span className={getChangeClassName(texture.memoryBytes, editedTexture.memoryBytes)}>
+                      {formatBytes(editedTexture.memoryBytes)}
+                    </span>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelStatsPanel;
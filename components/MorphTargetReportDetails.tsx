@@ -0,0 +1,35 @@
+import React from 'react';
+import { formatMorphTargetSummary, type MorphTargetReport } from '../services/morphTargets';
+import { formatBytes } from '../utils/format';
+
+type MorphTargetReportDetailsProps = {
+  report: MorphTargetReport;
+};
+
+const MorphTargetReportDetails = ({ report }: MorphTargetReportDetailsProps) => {
+  const summary = formatMorphTargetSummary(report);
+  const animatedNote =
+    report.animatedMeshes.length > 0 ? ` Kept animated meshes: ${report.animatedMeshes.join(', ')}.` : '';
+
+  if (!summary) {
+    return <p className="text-sm text-gray-400">Last export: every morph target is in use.{animatedNote}</p>;
+  }
+
+  return (
+    <details className="text-sm text-gray-300">
+      <summary className="cursor-pointer">
+        Last export removed {summary} ({formatBytes(report.savedBytes)})
+      </summary>
+      <ul className="mt-2 space-y-1 text-xs text-gray-400">
+        {report.removed.map(mesh => (
+          <li key={mesh.mesh}>
+            <span className="font-semibold text-gray-300">{mesh.mesh}:</span> {mesh.targets.join(', ')}
+          </li>
+        ))}
+      </ul>
+      {animatedNote && <p className="mt-2 text-xs text-gray-400">{animatedNote.trim()}</p>}
+    </details>
+  );
+};
+
+export default MorphTargetReportDetails;
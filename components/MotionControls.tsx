@@ -0,0 +1,101 @@
+import React, { useRef } from 'react';
+
+export type MotionOption = {
+  id: string;
+  name: string;
+};
+
+type MotionControlsProps = {
+  options: MotionOption[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onFileSelect: (file: File) => void;
+  isPlaying: boolean;
+  onPlayingChange: (playing: boolean) => void;
+  /** Playback position and clip length in seconds; duration is 0 without a motion. */
+  time: number;
+  duration: number;
+  onSeek: (time: number) => void;
+  error: string | null;
+};
+
+const MotionControls = ({
+  options,
+  selectedId,
+  onSelect,
+  onFileSelect,
+  isPlaying,
+  onPlayingChange,
+  time,
+  duration,
+  onSeek,
+  error,
+}: MotionControlsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="space-y-2 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="viewer-motion" className="font-medium">
+          Motion
+        </label>
+        <select
+          id="viewer-motion"
+          value={selectedId}
+          onChange={e => onSelect(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {options.map(option => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept=".vrma"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onFileSelect(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="rounded border border-gray-600 px-2 py-1 text-xs font-semibold text-gray-300 transition-colors hover:border-blue-500 hover:text-blue-200"
+        >
+          Load .vrma
+        </button>
+        <button
+          onClick={() => onPlayingChange(!isPlaying)}
+          disabled={duration === 0}
+          className="rounded border border-gray-600 px-2 py-1 text-xs font-semibold text-gray-300 transition-colors hover:border-blue-500 hover:text-blue-200 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {isPlaying ? 'Pause' : 'Play'}
+        </button>
+      </div>
+      {duration > 0 && (
+        <div className="flex items-center gap-2">
+          <input
+            type="range"
+            min={0}
+            max={duration}
+            step={0.01}
+            value={Math.min(time, duration)}
+            onChange={e => onSeek(Number(e.target.value))}
+            className="flex-1"
+            aria-label="Motion position"
+          />
+          <span className="w-20 text-right text-xs text-gray-400">
+            {time.toFixed(1)} / {duration.toFixed(1)} s
+          </span>
+        </div>
+      )}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default MotionControls;
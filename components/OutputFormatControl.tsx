@@ -0,0 +1,74 @@
+import React from 'react';
+import { TEXTURE_OUTPUT_FORMATS, type TextureOutputFormat } from '../constants/textureFormats';
+
+type OutputFormatControlProps = {
+  value: TextureOutputFormat;
+  onChange: (format: TextureOutputFormat) => void;
+  encodableFormats: Set<string>;
+  quality: number;
+  onQualityChange: (quality: number) => void;
+  keepFallbackImages: boolean;
+  onKeepFallbackImagesChange: (keep: boolean) => void;
+};
+
+const OutputFormatControl = ({
+  value,
+  onChange,
+  encodableFormats,
+  quality,
+  onQualityChange,
+  keepFallbackImages,
+  onKeepFallbackImagesChange,
+}: OutputFormatControlProps) => (
+  <div className="flex flex-col gap-3">
+    <div className="flex flex-col sm:flex-row items-center gap-2">
+      <label htmlFor="global-format" className="text-gray-300">
+        Convert all to:
+      </label>
+      <select
+        id="global-format"
+        value={value}
+        onChange={e => onChange(e.target.value as TextureOutputFormat)}
+        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-auto"
+      >
+        <option value="original">-- Keep Format --</option>
+        {TEXTURE_OUTPUT_FORMATS.filter(format => encodableFormats.has(format.id)).map(format => (
+          <option key={format.id} value={format.id}>
+            {format.label}
+          </option>
+        ))}
+      </select>
+    </div>
+    <div className="flex items-center gap-2 text-sm text-gray-300">
+      <label htmlFor="output-quality" className="shrink-0">
+        Quality
+      </label>
+      <input
+        id="output-quality"
+        type="range"
+        min={0.1}
+        max={1}
+        step={0.05}
+        value={quality}
+        onChange={e => onQualityChange(Number(e.target.value))}
+        className="w-full"
+      />
+      <span className="w-10 text-right text-gray-400">{Math.round(quality * 100)}</span>
+    </div>
+    <label className="flex items-center gap-2 text-sm text-gray-300">
+      <input
+        type="checkbox"
+        checked={keepFallbackImages}
+        onChange={e => onKeepFallbackImagesChange(e.target.checked)}
+      />
+      Keep a PNG/JPEG fallback for WebP/AVIF/KTX2 textures
+    </label>
+    <p className="text-xs text-gray-500">
+      Quality applies to JPEG, WebP, AVIF and KTX2 color textures. Normal maps are encoded to KTX2 as UASTC,
+      everything else as ETC1S. Without a fallback, only viewers supporting EXT_texture_webp / EXT_texture_avif /
+      KHR_texture_basisu can load the model.
+    </p>
+  </div>
+);
+
+export default OutputFormatControl;
@@ -0,0 +1,118 @@
+import React, { useRef } from 'react';
+import type { PlatformProfile } from '../constants/platformProfiles';
+import type { PlatformCheck, PlatformFix } from '../services/platformCheck';
+
+type PlatformCheckPanelProps = {
+  profiles: PlatformProfile[];
+  selectedProfileId: string;
+  onProfileChange: (profileId: string) => void;
+  onProfileImport: (file: File) => void;
+  checks: PlatformCheck[] | null;
+  onFix: (fix: PlatformFix) => void;
+};
+
+const getFixLabel = (fix: PlatformFix): string => {
+  switch (fix.type) {
+    case 'resizeTextures':
+      return `Resize all to ${fix.size}`;
+    case 'fitFileSize':
+      return `Plan sizes for ${fix.budgetMb} MB`;
+    case 'revertTextureFormats':
+      return 'Keep original formats';
+    case 'convertVersion':
+      return `Convert to VRM ${fix.to}`;
+  }
+};
+
+const PlatformCheckPanel = ({
+  profiles,
+  selectedProfileId,
+  onProfileChange,
+  onProfileImport,
+  checks,
+  onFix,
+}: PlatformCheckPanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const failedCount = checks?.filter(check => !check.passed).length ?? 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row items-center gap-2">
+        <label htmlFor="platform-profile" className="text-gray-300">
+          Platform:
+        </label>
+        <select
+          id="platform-profile"
+          value={selectedProfileId}
+          onChange={e => onProfileChange(e.target.value)}
+          className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-auto"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="file"
+          ref={fileInputRef}
+          className="hidden"
+          accept="application/json,.json"
+          onChange={e => {
+            const file = e.target.files?.[0];
+            if (file) onProfileImport(file);
+            e.target.value = '';
+          }}
+        />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="w-full sm:w-auto rounded-md border border-gray-600 bg-gray-700 px-4 py-2 text-sm font-semibold text-white transition-colors hover:border-blue-500 hover:text-blue-200"
+        >
+          Load profile JSON
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Checks use the projected file size and texture sizes of your pending edits. Built-in limits are
+        approximate; a profile JSON may set name, maxFileSizeMb, maxTextureSize, maxTriangles, maxMaterials and
+        allowedExtensions.
+      </p>
+
+      {checks && (
+        <div className="space-y-2">
+          <p className={`text-sm font-semibold ${failedCount === 0 ? 'text-green-400' : 'text-yellow-400'}`}>
+            {failedCount === 0
+              ? 'The model meets every limit of this profile.'
+              : `${failedCount} of ${checks.length} checks failed.`}
+          </p>
+          <ul className="space-y-2">
+            {checks.map(check => (
+              <li key={check.id} className="rounded border border-gray-800 bg-gray-900 px-3 py-2 text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <span className={check.passed ? 'text-green-400' : 'text-red-400'}>
+                    {check.passed ? 'Pass' : 'Fail'} · <span className="text-gray-300">{check.label}</span>
+                  </span>
+                  <span className="text-gray-400">
+                    {check.actual} / {check.limit}
+                  </span>
+                </div>
+                {check.details.length > 0 && (
+                  <p className="mt-1 text-xs text-gray-400">{check.details.join(', ')}</p>
+                )}
+                {check.fix && (
+                  <button
+                    onClick={() => onFix(check.fix!)}
+                    className="mt-2 rounded border border-gray-600 px-2 py-1 text-xs font-semibold text-gray-300 transition-colors hover:border-blue-500 hover:text-blue-200"
+                  >
+                    {getFixLabel(check.fix)}
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlatformCheckPanel;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { PRUNABLE_KIND_LABELS, formatPruneSummary, type PrunableKind, type PruneReport } from '../services/prune';
+import { formatBytes } from '../utils/format';
+
+type PruneReportDetailsProps = {
+  report: PruneReport;
+};
+
+const PruneReportDetails = ({ report }: PruneReportDetailsProps) => {
+  const summary = formatPruneSummary(report);
+  const kinds = (Object.keys(report.removed) as PrunableKind[]).filter(kind => report.removed[kind].length > 0);
+
+  if (!summary) {
+    return <p className="text-sm text-gray-400">Last export: no unused data found.</p>;
+  }
+
+  return (
+    <details className="text-sm text-gray-300">
+      <summary className="cursor-pointer">
+        Last export removed {summary} ({formatBytes(report.savedBytes)})
+      </summary>
+      <ul className="mt-2 space-y-1 text-xs text-gray-400">
+        {kinds.map(kind => (
+          <li key={kind}>
+            <span className="font-semibold text-gray-300">{PRUNABLE_KIND_LABELS[kind]}:</span>{' '}
+            {report.removed[kind].join(', ')}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+export default PruneReportDetails;
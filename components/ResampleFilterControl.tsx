@@ -0,0 +1,41 @@
+import React from 'react';
+import type { ResampleFilter } from '../services/resample';
+
+type ResampleFilterControlProps = {
+  value: ResampleFilter;
+  onChange: (filter: ResampleFilter) => void;
+};
+
+const RESAMPLE_FILTER_LABELS: Record<ResampleFilter, string> = {
+  lanczos: 'Lanczos (sharpest)',
+  bilinearMip: 'Bilinear mipmaps',
+  box: 'Box (area average)',
+};
+
+const ResampleFilterControl = ({ value, onChange }: ResampleFilterControlProps) => (
+  <div className="flex flex-col gap-2">
+    <div className="flex flex-col sm:flex-row items-center gap-2">
+      <label htmlFor="resample-filter" className="text-gray-300">
+        Resampling:
+      </label>
+      <select
+        id="resample-filter"
+        value={value}
+        onChange={e => onChange(e.target.value as ResampleFilter)}
+        className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-auto"
+      >
+        {(Object.keys(RESAMPLE_FILTER_LABELS) as ResampleFilter[]).map(filter => (
+          <option key={filter} value={filter}>
+            {RESAMPLE_FILTER_LABELS[filter]}
+          </option>
+        ))}
+      </select>
+    </div>
+    <p className="text-xs text-gray-500">
+      Color textures are filtered in linear light, normal maps are renormalized and cutout textures keep the
+      share of pixels passing their alpha test.
+    </p>
+  </div>
+);
+
+export default ResampleFilterControl;
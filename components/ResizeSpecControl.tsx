@@ -0,0 +1,164 @@
+import React from 'react';
+import type { ImageDimensions, ResizeFit, ResizeMode, ResizeSpec } from '../services/imageCodec';
+
+type ResizeSpecControlProps = {
+  value: ResizeSpec | null;
+  onChange: (resize: ResizeSpec | null) => void;
+  /** Longest-side sizes offered in max mode. */
+  maxSizes: number[];
+  /** Starting width and height when switching to exact mode. */
+  defaultDimensions: ImageDimensions;
+  disabled?: boolean;
+};
+
+const RESIZE_MODE_LABELS: Record<ResizeMode, string> = {
+  max: 'Longest side',
+  exact: 'Exact size',
+  scale: 'Scale %',
+  powerOfTwo: 'Power of two',
+};
+
+const MAX_EXACT_SIZE = 8192;
+const MAX_SCALE_PERCENT = 400;
+
+const inputClassName =
+  'bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed';
+
+const readPositiveInteger = (value: string, max: number): number | null => {
+  const number = Math.round(Number(value));
+  return Number.isFinite(number) && number >= 1 ? Math.min(number, max) : null;
+};
+
+const createResizeSpec = (mode: ResizeMode, maxSizes: number[], dimensions: ImageDimensions): ResizeSpec => {
+  switch (mode) {
+    case 'max':
+      return { mode, size: maxSizes[0] ?? 1024 };
+    case 'exact':
+      return { mode, width: dimensions.width, height: dimensions.height, fit: 'stretch' };
+    case 'scale':
+      return { mode, percent: 50 };
+    case 'powerOfTwo':
+      return { mode, direction: 'down', fit: 'stretch' };
+  }
+};
+
+const ResizeSpecControl = ({ value, onChange, maxSizes, defaultDimensions, disabled }: ResizeSpecControlProps) => {
+  const handleModeChange = (mode: string) =>
+    onChange(mode ? createResizeSpec(mode as ResizeMode, maxSizes, defaultDimensions) : null);
+
+  const fitSelect = value && 'fit' in value && (
+    <select
+      value={value.fit}
+      onChange={e => onChange({ ...value, fit: e.target.value as ResizeFit })}
+      disabled={disabled}
+      aria-label="Aspect ratio handling"
+      title="Pad keeps the image's aspect ratio inside the new size, which shifts where UVs land"
+      className={inputClassName}
+    >
+      <option value="stretch">Stretch</option>
+      <option value="pad">Pad</option>
+    </select>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={value?.mode ?? ''}
+        onChange={e => handleModeChange(e.target.value)}
+        disabled={disabled}
+        aria-label="Resize mode"
+        className={inputClassName}
+      >
+        <option value="">Keep Original</option>
+        {(Object.keys(RESIZE_MODE_LABELS) as ResizeMode[]).map(mode => (
+          <option key={mode} value={mode}>
+            {RESIZE_MODE_LABELS[mode]}
+          </option>
+        ))}
+      </select>
+
+      {value?.mode === 'max' && (
+        <select
+          value={value.size}
+          onChange={e => onChange({ ...value, size: parseInt(e.target.value, 10) })}
+          disabled={disabled}
+          aria-label="Longest side"
+          className={inputClassName}
+        >
+          {maxSizes.map(size => (
+            <option key={size} value={size}>
+              {size} px
+            </option>
+          ))}
+        </select>
+      )}
+
+      {value?.mode === 'exact' && (
+        <>
+          <input
+            type="number"
+            min={1}
+            max={MAX_EXACT_SIZE}
+            value={value.width}
+            onChange={e => {
+              const width = readPositiveInteger(e.target.value, MAX_EXACT_SIZE);
+              if (width) onChange({ ...value, width });
+            }}
+            disabled={disabled}
+            aria-label="Width"
+            className={`${inputClassName} w-20`}
+          />
+          <span className="text-gray-400">x</span>
+          <input
+            type="number"
+            min={1}
+            max={MAX_EXACT_SIZE}
+            value={value.height}
+            onChange={e => {
+              const height = readPositiveInteger(e.target.value, MAX_EXACT_SIZE);
+              if (height) onChange({ ...value, height });
+            }}
+            disabled={disabled}
+            aria-label="Height"
+            className={`${inputClassName} w-20`}
+          />
+          {fitSelect}
+        </>
+      )}
+
+      {value?.mode === 'scale' && (
+        <input
+          type="number"
+          min={1}
+          max={MAX_SCALE_PERCENT}
+          value={value.percent}
+          onChange={e => {
+            const percent = readPositiveInteger(e.target.value, MAX_SCALE_PERCENT);
+            if (percent) onChange({ ...value, percent });
+          }}
+          disabled={disabled}
+          aria-label="Scale percent"
+          className={`${inputClassName} w-20`}
+        />
+      )}
+
+      {value?.mode === 'powerOfTwo' && (
+        <>
+          <select
+            value={value.direction}
+            onChange={e => onChange({ ...value, direction: e.target.value as 'up' | 'down' })}
+            disabled={disabled}
+            aria-label="Rounding direction"
+            className={inputClassName}
+          >
+            <option value="down">Round down</option>
+            <option value="up">Round up</option>
+          </select>
+          {fitSelect}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ResizeSpecControl;
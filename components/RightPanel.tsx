@@ -1,49 +1,61 @@
 import React from 'react';
-import type { TextureInfo, VrmMeta } from '../types';
-import type { MetadataField } from '../hooks/useVrmMetadata';
+import type { TextureInfo, TextureRole, VrmMeta, VrmVersion } from '../types';
+import type { MetadataFieldValue } from '../hooks/useVrmMetadata';
+import type { MetaFieldDefinition } from '../constants/vrmMeta';
+import type { VrmMetaErrors } from '../services/vrmMeta';
+import MetadataForm from './MetadataForm';
 import TextureCard from './TextureCard';
-import GlobalResizeControl from './GlobalResizeControl';
+import GlobalResizeControl, { type GlobalResizeMode } from './GlobalResizeControl';
+import SizeBudgetControl from './SizeBudgetControl';
+import RoleResizePolicyControl from './RoleResizePolicyControl';
+import type { RoleResizePolicy } from '../services/textureRoles';
+import OutputFormatControl from './OutputFormatControl';
+import type { TextureOutputFormat } from '../constants/textureFormats';
+import type { SizeBudgetPlan } from '../services/sizeBudget';
+import SizeBreakdownPanel from './SizeBreakdownPanel';
+import type { SizeBreakdown } from '../services/sizeBreakdown';
+import ModelStatsPanel from './ModelStatsPanel';
+import type { ModelStatsComparison, SceneStats } from '../services/modelStats';
+import PlatformCheckPanel from './PlatformCheckPanel';
+import type { PlatformProfile } from '../constants/platformProfiles';
+import type { PlatformCheck, PlatformFix } from '../services/platformCheck';
+import ThumbnailCaptureControl from './ThumbnailCaptureControl';
+import EditHistoryPanel from './EditHistoryPanel';
+import type { ThumbnailCaptureOptions } from '../libs/thumbnailCapture';
+import type { ResizeSpec } from '../services/imageCodec';
+import ResampleFilterControl from './ResampleFilterControl';
+import type { ResampleFilter } from '../services/resample';
 
-export type RightTabId = 'metadata' | 'thumbnail' | 'textures';
+export type RightTabId = 'metadata' | 'thumbnail' | 'textures' | 'size' | 'performance' | 'platform' | 'history';
 
 type MetadataTabProps = {
   metadata: VrmMeta | null;
-  fields: MetadataField[];
+  vrmVersion: VrmVersion | null;
+  fields: MetaFieldDefinition[];
+  errors: VrmMetaErrors;
+  isEdited: boolean;
+  onFieldChange: (key: keyof VrmMeta, value: MetadataFieldValue) => void;
+  onReset: () => void;
 };
 
-const MetadataTab = ({ metadata, fields }: MetadataTabProps) => (
+const MetadataTab = ({ metadata, vrmVersion, fields, errors, isEdited, onFieldChange, onReset }: MetadataTabProps) => (
   <>
     {metadata ? (
       <div className="space-y-4">
         <div className="flex items-center justify-between gap-2">
           <h3 className="text-lg font-semibold text-white">Model Metadata</h3>
-          <span className="text-xs uppercase tracking-wide text-gray-500">Read-only</span>
-        </div>
-        {fields.length > 0 ? (
-          <div className="grid gap-3 sm:grid-cols-2">
-            {fields.map(field => (
-              <div key={field.label} className="flex flex-col gap-1 rounded border border-gray-800 bg-gray-800/60 px-3 py-2">
-                <dt className="text-[11px] uppercase tracking-wide text-gray-400">{field.label}</dt>
-                <dd className="text-sm text-gray-200">
-                  {field.linkUrl ? (
-                    <a
-                      href={field.linkUrl}
-                      target="_blank"
-                      rel="noreferrer"
-                      className="text-blue-400 hover:text-blue-300 transition-colors"
-                    >
-                      {field.value}
-                    </a>
-                  ) : (
-                    field.value
-                  )}
-                </dd>
-              </div>
-            ))}
+          <div className="flex items-center gap-3">
+            <span className="text-xs uppercase tracking-wide text-gray-500">VRM {vrmVersion}</span>
+            <button
+              onClick={onReset}
+              disabled={!isEdited}
+              className="rounded border border-gray-600 px-2 py-1 text-xs font-semibold text-gray-300 transition-colors enabled:hover:border-blue-500 enabled:hover:text-blue-200 disabled:opacity-50"
+            >
+              Reset
+            </button>
           </div>
-        ) : (
-          <p className="text-sm text-gray-400">No metadata fields were provided in this VRM.</p>
-        )}
+        </div>
+        <MetadataForm metadata={metadata} fields={fields} errors={errors} onFieldChange={onFieldChange} />
       </div>
     ) : (
       <p className="text-sm text-gray-400">No metadata was provided in this VRM.</p>
@@ -57,6 +69,9 @@ type ThumbnailTabProps = {
   metadataThumbnailInputRef: React.RefObject<HTMLInputElement>;
   onThumbnailClick: () => void;
   onThumbnailSelected: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  onThumbnailCapture: (options: ThumbnailCaptureOptions) => void;
+  /** Image that will be added as the thumbnail of a model without one. */
+  addedThumbnailUrl: string | null;
 };
 
 const ThumbnailTab = ({
@@ -65,66 +80,166 @@ const ThumbnailTab = ({
   metadataThumbnailInputRef,
   onThumbnailClick,
   onThumbnailSelected,
-}: ThumbnailTabProps) => (
-  <div className="flex flex-col items-center gap-3 text-center">
-    <div className="relative h-32 w-32 overflow-hidden rounded border border-gray-700 bg-gray-800">
-      {metadataThumbnailTexture ? (
-        <img
-          src={metadataThumbnailTexture.blobUrl}
-          alt="Model thumbnail"
-          className="h-full w-full object-contain"
-        />
-      ) : (
-        <div className="flex h-full w-full items-center justify-center bg-gray-800 px-2 text-center text-xs text-gray-400">
-          No thumbnail defined
-        </div>
-      )}
+  onThumbnailCapture,
+  addedThumbnailUrl,
+}: ThumbnailTabProps) => {
+  const thumbnailUrl = metadataThumbnailTexture?.blobUrl ?? addedThumbnailUrl;
+  const caption = addedThumbnailUrl
+    ? 'New thumbnail, added on export'
+    : metadataThumbnailTexture?.isReplaced
+      ? 'Custom thumbnail applied'
+      : 'Current thumbnail';
+
+  return (
+    <div className="flex flex-col items-center gap-3 text-center">
+      <div className="relative h-32 w-32 overflow-hidden rounded border border-gray-700 bg-gray-800">
+        {thumbnailUrl ? (
+          <img
+            src={thumbnailUrl}
+            alt="Model thumbnail"
+            className="h-full w-full object-contain"
+          />
+        ) : (
+          <div className="flex h-full w-full items-center justify-center bg-gray-800 px-2 text-center text-xs text-gray-400">
+            No thumbnail defined
+          </div>
+        )}
+      </div>
+      <p className="text-xs text-gray-400">{caption}</p>
+      <input
+        type="file"
+        ref={metadataThumbnailInputRef}
+        className="hidden"
+        accept="image/png, image/jpeg"
+        onChange={onThumbnailSelected}
+      />
+      <button
+        onClick={onThumbnailClick}
+        className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-sm font-semibold text-white transition-colors enabled:hover:border-blue-500 enabled:hover:text-blue-200 disabled:opacity-50"
+      >
+        {metadataThumbnailImageIndex === null && !addedThumbnailUrl ? 'Add thumbnail' : 'Upload new thumbnail'}
+      </button>
+      <ThumbnailCaptureControl onCapture={onThumbnailCapture} />
+      <p className="text-sm text-gray-400 max-w-sm">
+        Upload a replacement thumbnail or capture one from the 3D preview to keep metadata in sync with your model.
+        {metadataThumbnailImageIndex === null && ' This model has none yet, so the image is added to the file.'}
+      </p>
     </div>
-    <p className="text-xs text-gray-400">
-      {metadataThumbnailTexture?.isReplaced ? 'Custom thumbnail applied' : 'Current thumbnail'}
-    </p>
-    <input
-      type="file"
-      ref={metadataThumbnailInputRef}
-      className="hidden"
-      accept="image/png, image/jpeg"
-      onChange={onThumbnailSelected}
-    />
-    <button
-      onClick={onThumbnailClick}
-      disabled={metadataThumbnailImageIndex === null}
-      className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-sm font-semibold text-white transition-colors enabled:hover:border-blue-500 enabled:hover:text-blue-200 disabled:opacity-50"
-    >
-      {metadataThumbnailImageIndex === null ? 'Thumbnail not defined' : 'Upload new thumbnail'}
-    </button>
-    <p className="text-sm text-gray-400 max-w-sm">
-      Upload a replacement thumbnail to keep metadata in sync with your model preview.
-    </p>
-  </div>
-);
+  );
+};
 
 type TexturesTabProps = {
   textures: TextureInfo[];
   hasTextures: boolean;
-  resizeOptions: Map<number, number>;
-  onResizeChange: (textureIndex: number, size: number) => void;
+  resizeOptions: Map<number, ResizeSpec>;
+  onResizeChange: (textureIndex: number, resize: ResizeSpec | null) => void;
+  formatOptions: Map<number, TextureOutputFormat>;
+  onFormatChange: (textureIndex: number, format: TextureOutputFormat) => void;
+  encodableFormats: Set<string>;
   onReplace: (textureIndex: number, file: File) => void;
-  onGlobalResize: (size: number) => void;
-  globalResizeValue: number;
+  onGlobalResize: (resize: ResizeSpec | null) => void;
+  globalResizeValue: ResizeSpec | null;
+  globalResizeMode: GlobalResizeMode;
+  onGlobalResizeModeChange: (mode: GlobalResizeMode) => void;
+  sizeBudgetMb: number;
+  onSizeBudgetMbChange: (budgetMb: number) => void;
+  sizeBudgetPlan: SizeBudgetPlan | null;
+  isSizeBudgetPlanning: boolean;
+  onSizeBudgetPlan: () => void;
+  onApplySizeBudgetPlan: () => void;
+  textureRoles: TextureRole[];
+  rolePolicy: RoleResizePolicy;
+  onRolePolicyChange: (role: TextureRole, size: number) => void;
+  globalFormatValue: TextureOutputFormat;
+  onGlobalFormat: (format: TextureOutputFormat) => void;
+  outputQuality: number;
+  onOutputQualityChange: (quality: number) => void;
+  resampleFilter: ResampleFilter;
+  onResampleFilterChange: (filter: ResampleFilter) => void;
+  keepFallbackImages: boolean;
+  onKeepFallbackImagesChange: (keep: boolean) => void;
 };
 
+const globalResizeModes: { id: GlobalResizeMode; label: string }[] = [
+  { id: 'max', label: 'Resize' },
+  { id: 'role', label: 'Per role' },
+  { id: 'budget', label: 'Target file size' },
+];
+
 const TexturesTab = ({
   textures,
   hasTextures,
   resizeOptions,
   onResizeChange,
+  formatOptions,
+  onFormatChange,
+  encodableFormats,
   onReplace,
   onGlobalResize,
   globalResizeValue,
+  globalResizeMode,
+  onGlobalResizeModeChange,
+  sizeBudgetMb,
+  onSizeBudgetMbChange,
+  sizeBudgetPlan,
+  isSizeBudgetPlanning,
+  onSizeBudgetPlan,
+  onApplySizeBudgetPlan,
+  textureRoles,
+  rolePolicy,
+  onRolePolicyChange,
+  globalFormatValue,
+  onGlobalFormat,
+  outputQuality,
+  onOutputQualityChange,
+  resampleFilter,
+  onResampleFilterChange,
+  keepFallbackImages,
+  onKeepFallbackImagesChange,
 }: TexturesTabProps) => (
   <div className="space-y-4">
     <div className="bg-gray-900 rounded-lg border border-gray-800 p-4 flex flex-col gap-4">
-      <GlobalResizeControl value={globalResizeValue} onChange={onGlobalResize} />
+      <div className="flex gap-2">
+        {globalResizeModes.map(mode => (
+          <button
+            key={mode.id}
+            onClick={() => onGlobalResizeModeChange(mode.id)}
+            className={`flex-1 rounded-md border px-3 py-1 text-xs font-semibold transition-colors ${
+              globalResizeMode === mode.id
+                ? 'border-blue-500 text-white'
+                : 'border-gray-700 text-gray-400 hover:text-white'
+            }`}
+          >
+            {mode.label}
+          </button>
+        ))}
+      </div>
+      {globalResizeMode === 'max' ? (
+        <GlobalResizeControl value={globalResizeValue} onChange={onGlobalResize} />
+      ) : globalResizeMode === 'role' ? (
+        <RoleResizePolicyControl roles={textureRoles} policy={rolePolicy} onChange={onRolePolicyChange} />
+      ) : (
+        <SizeBudgetControl
+          budgetMb={sizeBudgetMb}
+          onBudgetMbChange={onSizeBudgetMbChange}
+          plan={sizeBudgetPlan}
+          isPlanning={isSizeBudgetPlanning}
+          onPlan={onSizeBudgetPlan}
+          onApplyPlan={onApplySizeBudgetPlan}
+        />
+      )}
+      <ResampleFilterControl value={resampleFilter} onChange={onResampleFilterChange} />
+    </div>
+    <div className="bg-gray-900 rounded-lg border border-gray-800 p-4">
+      <OutputFormatControl
+        value={globalFormatValue}
+        onChange={onGlobalFormat}
+        encodableFormats={encodableFormats}
+        quality={outputQuality}
+        onQualityChange={onOutputQualityChange}
+        keepFallbackImages={keepFallbackImages}
+        onKeepFallbackImagesChange={onKeepFallbackImagesChange}
+      />
     </div>
     {hasTextures ? (
       <div className="max-h-[55vh] overflow-y-auto pr-2">
@@ -133,8 +248,11 @@ const TexturesTab = ({
             <TextureCard
               key={texture.index}
               texture={texture}
-              selectedSize={resizeOptions.get(texture.index) || 0}
-              onSizeChange={size => onResizeChange(texture.index, size)}
+              selectedResize={resizeOptions.get(texture.index) ?? null}
+              onResizeChange={resize => onResizeChange(texture.index, resize)}
+              selectedFormat={formatOptions.get(texture.index) ?? 'original'}
+              onFormatChange={format => onFormatChange(texture.index, format)}
+              encodableFormats={encodableFormats}
               onReplace={file => onReplace(texture.index, file)}
             />
           ))}
@@ -150,44 +268,138 @@ type RightPanelProps = {
   activeRightTab: RightTabId;
   setActiveRightTab: (tab: RightTabId) => void;
   vrmMetadata: VrmMeta | null;
-  metadataFields: MetadataField[];
+  vrmVersion: VrmVersion | null;
+  metadataFieldDefinitions: MetaFieldDefinition[];
+  metadataErrors: VrmMetaErrors;
+  isMetadataEdited: boolean;
+  handleMetadataFieldChange: (key: keyof VrmMeta, value: MetadataFieldValue) => void;
+  handleMetadataReset: () => void;
   metadataThumbnailTexture: TextureInfo | null;
   metadataThumbnailImageIndex: number | null;
   metadataThumbnailInputRef: React.RefObject<HTMLInputElement>;
   handleMetadataThumbnailClick: () => void;
   handleMetadataThumbnailSelected: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  handleThumbnailCapture: (options: ThumbnailCaptureOptions) => void;
+  addedThumbnailUrl: string | null;
   textures: TextureInfo[];
-  resizeOptions: Map<number, number>;
-  handleResizeChange: (textureIndex: number, size: number) => void;
+  resizeOptions: Map<number, ResizeSpec>;
+  handleResizeChange: (textureIndex: number, resize: ResizeSpec | null) => void;
+  formatOptions: Map<number, TextureOutputFormat>;
+  handleFormatChange: (textureIndex: number, format: TextureOutputFormat) => void;
+  encodableFormats: Set<string>;
   handleTextureReplace: (textureIndex: number, file: File) => void;
-  handleGlobalResize: (size: number) => void;
-  globalResizeValue: number;
+  handleGlobalResize: (resize: ResizeSpec | null) => void;
+  globalResizeValue: ResizeSpec | null;
+  globalResizeMode: GlobalResizeMode;
+  handleGlobalResizeModeChange: (mode: GlobalResizeMode) => void;
+  sizeBudgetMb: number;
+  handleSizeBudgetMbChange: (budgetMb: number) => void;
+  sizeBudgetPlan: SizeBudgetPlan | null;
+  isSizeBudgetPlanning: boolean;
+  handleSizeBudgetPlan: () => void;
+  handleApplySizeBudgetPlan: () => void;
+  textureRoles: TextureRole[];
+  rolePolicy: RoleResizePolicy;
+  handleRolePolicyChange: (role: TextureRole, size: number) => void;
+  globalFormatValue: TextureOutputFormat;
+  handleGlobalFormat: (format: TextureOutputFormat) => void;
+  outputQuality: number;
+  handleOutputQualityChange: (quality: number) => void;
+  resampleFilter: ResampleFilter;
+  handleResampleFilterChange: (filter: ResampleFilter) => void;
+  keepFallbackImages: boolean;
+  handleKeepFallbackImagesChange: (keep: boolean) => void;
   hasTextures: boolean;
+  sizeBreakdown: SizeBreakdown | null;
+  modelStats: ModelStatsComparison | null;
+  sceneStats: SceneStats | null;
+  platformProfiles: PlatformProfile[];
+  platformProfileId: string;
+  handlePlatformProfileChange: (profileId: string) => void;
+  handlePlatformProfileImport: (file: File) => void;
+  platformChecks: PlatformCheck[] | null;
+  handlePlatformFix: (fix: PlatformFix) => void;
+  historyEntries: { id: number; label: string }[];
+  historyIndex: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  handleUndo: () => void;
+  handleRedo: () => void;
+  handleHistoryJump: (index: number) => void;
 };
 
 const rightTabs: { id: RightTabId; label: string }[] = [
   { id: 'metadata', label: 'Metadata' },
   { id: 'thumbnail', label: 'Thumbnail' },
   { id: 'textures', label: 'Textures' },
+  { id: 'size', label: 'File Size' },
+  { id: 'performance', label: 'Performance' },
+  { id: 'platform', label: 'Platform' },
+  { id: 'history', label: 'History' },
 ];
 
 const RightPanel = ({
   activeRightTab,
   setActiveRightTab,
   vrmMetadata,
-  metadataFields,
+  vrmVersion,
+  metadataFieldDefinitions,
+  metadataErrors,
+  isMetadataEdited,
+  handleMetadataFieldChange,
+  handleMetadataReset,
   metadataThumbnailTexture,
   metadataThumbnailImageIndex,
   metadataThumbnailInputRef,
   handleMetadataThumbnailClick,
   handleMetadataThumbnailSelected,
+  handleThumbnailCapture,
+  addedThumbnailUrl,
   textures,
   resizeOptions,
   handleResizeChange,
+  formatOptions,
+  handleFormatChange,
+  encodableFormats,
   handleTextureReplace,
   handleGlobalResize,
   globalResizeValue,
+  globalResizeMode,
+  handleGlobalResizeModeChange,
+  sizeBudgetMb,
+  handleSizeBudgetMbChange,
+  sizeBudgetPlan,
+  isSizeBudgetPlanning,
+  handleSizeBudgetPlan,
+  handleApplySizeBudgetPlan,
+  textureRoles,
+  rolePolicy,
+  handleRolePolicyChange,
+  globalFormatValue,
+  handleGlobalFormat,
+  outputQuality,
+  handleOutputQualityChange,
+  resampleFilter,
+  handleResampleFilterChange,
+  keepFallbackImages,
+  handleKeepFallbackImagesChange,
   hasTextures,
+  sizeBreakdown,
+  modelStats,
+  sceneStats,
+  platformProfiles,
+  platformProfileId,
+  handlePlatformProfileChange,
+  handlePlatformProfileImport,
+  platformChecks,
+  handlePlatformFix,
+  historyEntries,
+  historyIndex,
+  canUndo,
+  canRedo,
+  handleUndo,
+  handleRedo,
+  handleHistoryJump,
 }: RightPanelProps) => (
   <section className="bg-gray-800 rounded-lg border border-gray-700 flex flex-col">
     <div className="flex flex-wrap gap-2 border-b border-gray-700 px-4 py-3">
@@ -207,7 +419,15 @@ const RightPanel = ({
     </div>
     <div className="space-y-4 p-4">
       {activeRightTab === 'metadata' ? (
-        <MetadataTab metadata={vrmMetadata} fields={metadataFields} />
+        <MetadataTab
+          metadata={vrmMetadata}
+          vrmVersion={vrmVersion}
+          fields={metadataFieldDefinitions}
+          errors={metadataErrors}
+          isEdited={isMetadataEdited}
+          onFieldChange={handleMetadataFieldChange}
+          onReset={handleMetadataReset}
+        />
       ) : activeRightTab === 'thumbnail' ? (
         <ThumbnailTab
           metadataThumbnailTexture={metadataThumbnailTexture}
@@ -215,6 +435,31 @@ const RightPanel = ({
           metadataThumbnailInputRef={metadataThumbnailInputRef}
           onThumbnailClick={handleMetadataThumbnailClick}
           onThumbnailSelected={handleMetadataThumbnailSelected}
+          onThumbnailCapture={handleThumbnailCapture}
+          addedThumbnailUrl={addedThumbnailUrl}
+        />
+      ) : activeRightTab === 'size' ? (
+        <SizeBreakdownPanel breakdown={sizeBreakdown} />
+      ) : activeRightTab === 'performance' ? (
+        <ModelStatsPanel stats={modelStats} sceneStats={sceneStats} />
+      ) : activeRightTab === 'platform' ? (
+        <PlatformCheckPanel
+          profiles={platformProfiles}
+          selectedProfileId={platformProfileId}
+          onProfileChange={handlePlatformProfileChange}
+          onProfileImport={handlePlatformProfileImport}
+          checks={platformChecks}
+          onFix={handlePlatformFix}
+        />
+      ) : activeRightTab === 'history' ? (
+        <EditHistoryPanel
+          entries={historyEntries}
+          currentIndex={historyIndex}
+          canUndo={canUndo}
+          canRedo={canRedo}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onJump={handleHistoryJump}
         />
       ) : (
         <TexturesTab
@@ -222,9 +467,31 @@ const RightPanel = ({
           hasTextures={hasTextures}
           resizeOptions={resizeOptions}
           onResizeChange={handleResizeChange}
+          formatOptions={formatOptions}
+          onFormatChange={handleFormatChange}
+          encodableFormats={encodableFormats}
           onReplace={handleTextureReplace}
           onGlobalResize={handleGlobalResize}
           globalResizeValue={globalResizeValue}
+          globalResizeMode={globalResizeMode}
+          onGlobalResizeModeChange={handleGlobalResizeModeChange}
+          sizeBudgetMb={sizeBudgetMb}
+          onSizeBudgetMbChange={handleSizeBudgetMbChange}
+          sizeBudgetPlan={sizeBudgetPlan}
+          isSizeBudgetPlanning={isSizeBudgetPlanning}
+          onSizeBudgetPlan={handleSizeBudgetPlan}
+          onApplySizeBudgetPlan={handleApplySizeBudgetPlan}
+          textureRoles={textureRoles}
+          rolePolicy={rolePolicy}
+          onRolePolicyChange={handleRolePolicyChange}
+          globalFormatValue={globalFormatValue}
+          onGlobalFormat={handleGlobalFormat}
+          outputQuality={outputQuality}
+          onOutputQualityChange={handleOutputQualityChange}
+          resampleFilter={resampleFilter}
+          onResampleFilterChange={handleResampleFilterChange}
+          keepFallbackImages={keepFallbackImages}
+          onKeepFallbackImagesChange={handleKeepFallbackImagesChange}
         />
       )}
     </div>
@@ -0,0 +1,43 @@
+import React from 'react';
+import type { TextureRole } from '../types';
+import { TEXTURE_SIZES } from '../constants/textureSizes';
+import { TEXTURE_ROLE_LABELS } from '../constants/textureRoles';
+import type { RoleResizePolicy } from '../services/textureRoles';
+
+type RoleResizePolicyControlProps = {
+  roles: TextureRole[];
+  policy: RoleResizePolicy;
+  onChange: (role: TextureRole, size: number) => void;
+};
+
+const RoleResizePolicyControl = ({ roles, policy, onChange }: RoleResizePolicyControlProps) => (
+  <div className="flex flex-col gap-2">
+    <p className="text-sm text-gray-400">
+      Max size per texture role. Textures used in several roles keep the largest of their sizes.
+    </p>
+    <div className="grid gap-2 sm:grid-cols-2">
+      {roles.map(role => (
+        <div key={role} className="flex items-center justify-between gap-2">
+          <label htmlFor={`role-policy-${role}`} className="text-sm text-gray-300">
+            {TEXTURE_ROLE_LABELS[role]}
+          </label>
+          <select
+            id={`role-policy-${role}`}
+            value={policy[role] || 0}
+            onChange={e => onChange(role, parseInt(e.target.value, 10))}
+            className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-sm text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value={0}>Keep</option>
+            {TEXTURE_SIZES.map(size => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default RoleResizePolicyControl;
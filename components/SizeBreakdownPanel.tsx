@@ -0,0 +1,122 @@
+import React, { useMemo } from 'react';
+import { SIZE_CATEGORY_LABELS, type SizeBreakdown, type SizeCategory } from '../services/sizeBreakdown';
+import { formatBytes } from '../utils/format';
+import { layoutTreemap } from '../utils/treemap';
+
+type SizeBreakdownPanelProps = {
+  breakdown: SizeBreakdown | null;
+};
+
+const CATEGORY_COLORS: Record<SizeCategory, string> = {
+  texture: 'bg-blue-600',
+  geometry: 'bg-green-600',
+  morphTargets: 'bg-purple-600',
+  skin: 'bg-orange-600',
+  animation: 'bg-pink-600',
+  json: 'bg-yellow-600',
+  other: 'bg-gray-600',
+};
+
+// Treemap layout units; the container keeps the same 2:1 aspect ratio so tiles stay square-ish
+const TREEMAP_WIDTH = 200;
+const TREEMAP_HEIGHT = 100;
+
+const formatPercent = (bytes: number, total: number) => `${total > 0 ? ((bytes / total) * 100).toFixed(1) : '0.0'}%`;
+
+const SizeBreakdownPanel = ({ breakdown }: SizeBreakdownPanelProps) => {
+  const rects = useMemo(
+    () =>
+      breakdown
+        ? layoutTreemap(
+            breakdown.entries.map(entry => entry.projectedByteLength),
+            TREEMAP_WIDTH,
+            TREEMAP_HEIGHT
+          )
+        : [],
+    [breakdown]
+  );
+
+  if (!breakdown) {
+    return <p className="text-sm text-gray-400">No file data is loaded.</p>;
+  }
+
+  const { entries, totalBytes, projectedTotalBytes } = breakdown;
+  const savedBytes = totalBytes - projectedTotalBytes;
+  const categories = (Object.keys(SIZE_CATEGORY_LABELS) as SizeCategory[]).filter(category =>
+    entries.some(entry => entry.category === category)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-white">File Size</h3>
+        <p className="text-sm text-gray-300">
+          Projected download: {formatBytes(projectedTotalBytes)}
+          {savedBytes !== 0 && (
+            <span className={savedBytes > 0 ? 'text-green-400' : 'text-yellow-400'}>
+              {' '}
+              (currently {formatBytes(totalBytes)}, {savedBytes > 0 ? '-' : '+'}
+              {formatPercent(Math.abs(savedBytes), totalBytes)})
+            </span>
+          )}
+        </p>
+        <p className="text-xs text-gray-500">
+          Estimated from each texture's new pixel count and output format, including PNG/JPEG fallback copies.
+          Merging duplicate images, pruning and conversion are not included.
+        </p>
+      </div>
+
+      <div className="relative aspect-[2/1] w-full overflow-hidden rounded border border-gray-700 bg-gray-900">
+        {entries.map((entry, i) => {
+          const rect = rects[i];
+          if (!rect || rect.width === 0 || rect.height === 0) return null;
+          return (
+            <div
+              key={entry.key}
+              title={`${entry.label}: ${formatBytes(entry.projectedByteLength)}`}
+              className={`absolute overflow-hidden border border-gray-900 px-1 text-[10px] leading-tight text-white ${
+                CATEGORY_COLORS[entry.category]
+              }`}
+              style={{
+                left: `${(rect.x / TREEMAP_WIDTH) * 100}%`,
+                top: `${(rect.y / TREEMAP_HEIGHT) * 100}%`,
+                width: `${(rect.width / TREEMAP_WIDTH) * 100}%`,
+                height: `${(rect.height / TREEMAP_HEIGHT) * 100}%`,
+              }}
+            >
+              <span className="block truncate">{entry.label}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap gap-3 text-xs text-gray-400">
+        {categories.map(category => (
+          <span key={category} className="flex items-center gap-1">
+            <span className={`inline-block h-3 w-3 rounded-sm ${CATEGORY_COLORS[category]}`} />
+            {SIZE_CATEGORY_LABELS[category]}
+          </span>
+        ))}
+      </div>
+
+      <ul className="max-h-[40vh] space-y-1 overflow-y-auto rounded border border-gray-800 bg-gray-900 px-3 py-2 text-sm">
+        {entries.map(entry => (
+          <li key={entry.key} className="flex items-center justify-between gap-2 text-gray-300">
+            <span className="flex min-w-0 items-center gap-2">
+              <span className={`inline-block h-3 w-3 shrink-0 rounded-sm ${CATEGORY_COLORS[entry.category]}`} />
+              <span className="truncate" title={entry.label}>
+                {entry.label}
+              </span>
+            </span>
+            <span className="shrink-0 text-gray-400">
+              {entry.projectedByteLength !== entry.byteLength && `${formatBytes(entry.byteLength)} → `}
+              {formatBytes(entry.projectedByteLength)} ({formatPercent(entry.projectedByteLength, projectedTotalBytes)})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SizeBreakdownPanel;
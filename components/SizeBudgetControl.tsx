@@ -0,0 +1,83 @@
+import React from 'react';
+import type { SizeBudgetPlan } from '../services/sizeBudget';
+import { formatBytes } from '../utils/format';
+
+type SizeBudgetControlProps = {
+  budgetMb: number;
+  onBudgetMbChange: (budgetMb: number) => void;
+  plan: SizeBudgetPlan | null;
+  isPlanning: boolean;
+  onPlan: () => void;
+  onApplyPlan: () => void;
+};
+
+const SizeBudgetControl = ({
+  budgetMb,
+  onBudgetMbChange,
+  plan,
+  isPlanning,
+  onPlan,
+  onApplyPlan,
+}: SizeBudgetControlProps) => {
+  const resizedEntries = plan?.entries.filter(entry => entry.size > 0) ?? [];
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="flex flex-col sm:flex-row items-center gap-2">
+        <label htmlFor="size-budget" className="text-gray-300">
+          Fit file under (MB):
+        </label>
+        <input
+          id="size-budget"
+          type="number"
+          min={1}
+          step={1}
+          value={budgetMb}
+          onChange={e => onBudgetMbChange(Number(e.target.value))}
+          className="bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 w-full sm:w-28"
+        />
+        <button
+          onClick={onPlan}
+          disabled={isPlanning || !(budgetMb > 0)}
+          className="w-full sm:w-auto rounded-md bg-blue-600 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-blue-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          {isPlanning ? 'Calculating...' : 'Calculate plan'}
+        </button>
+      </div>
+
+      {plan && (
+        <div className="space-y-2 text-sm">
+          <p className={plan.fits ? 'text-green-400' : 'text-yellow-400'}>
+            Estimated size: {formatBytes(plan.estimatedBytes)} (currently {formatBytes(plan.originalBytes)}, budget{' '}
+            {formatBytes(plan.budgetBytes)})
+            {!plan.fits && ' — the budget cannot be met by resizing textures alone.'}
+          </p>
+          {resizedEntries.length > 0 ? (
+            <ul className="max-h-40 overflow-y-auto space-y-1 rounded border border-gray-800 bg-gray-800/60 px-3 py-2">
+              {resizedEntries.map(entry => (
+                <li key={entry.index} className="flex justify-between gap-2 text-gray-300">
+                  <span className="truncate" title={entry.name}>{entry.name}</span>
+                  <span className="shrink-0 text-gray-400">
+                    {entry.originalWidth}x{entry.originalHeight} → {entry.width}x{entry.height},{' '}
+                    {formatBytes(entry.originalByteLength)} → {formatBytes(entry.byteLength)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-gray-400">No textures need to be resized.</p>
+          )}
+          <button
+            onClick={onApplyPlan}
+            disabled={resizedEntries.length === 0}
+            className="w-full rounded-md border border-gray-600 bg-gray-700 px-4 py-2 text-sm font-semibold text-white transition-colors enabled:hover:border-blue-500 enabled:hover:text-blue-200 disabled:opacity-50"
+          >
+            Apply plan
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SizeBudgetControl;
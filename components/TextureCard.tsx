@@ -1,24 +1,39 @@
 import React, { useRef } from 'react';
 import type { TextureInfo } from '../types';
 import { TEXTURE_SIZES } from '../constants/textureSizes';
+import { TEXTURE_OUTPUT_FORMATS, type TextureOutputFormat } from '../constants/textureFormats';
+import { TEXTURE_ROLE_LABELS } from '../constants/textureRoles';
+import { getTextureRoles } from '../services/textureRoles';
+import { getTargetDimensions, type ResizeSpec } from '../services/imageCodec';
+import ResizeSpecControl from './ResizeSpecControl';
 
 interface TextureCardProps {
   texture: TextureInfo;
-  selectedSize: number;
-  onSizeChange: (size: number) => void;
+  selectedResize: ResizeSpec | null;
+  onResizeChange: (resize: ResizeSpec | null) => void;
+  selectedFormat: TextureOutputFormat;
+  onFormatChange: (format: TextureOutputFormat) => void;
+  encodableFormats: Set<string>;
   onReplace: (file: File) => void;
 }
 
 const TextureCard: React.FC<TextureCardProps> = ({
   texture,
-  selectedSize,
-  onSizeChange,
+  selectedResize,
+  onResizeChange,
+  selectedFormat,
+  onFormatChange,
+  encodableFormats,
   onReplace,
 }) => {
   const availableSizes = TEXTURE_SIZES.filter(
-    (size) => size <= texture.originalWidth || size <= texture.originalHeight
+    (size) => size < Math.max(texture.originalWidth, texture.originalHeight)
   );
+  const target = selectedResize && !texture.isReplaced
+    ? getTargetDimensions(texture.originalWidth, texture.originalHeight, selectedResize)
+    : null;
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const usageSummary = texture.usages.map((usage) => `${usage.materialName}: ${usage.slot}`).join('\n');
 
   const handleReplaceClick = () => {
     fileInputRef.current?.click();
@@ -56,17 +71,42 @@ const TextureCard: React.FC<TextureCardProps> = ({
         </h3>
         <p className="text-sm text-gray-400">
           {texture.originalWidth} x {texture.originalHeight}
+          {target && (
+            <span className="text-blue-300">
+              {' '}→ {target.width} x {target.height}
+            </span>
+          )}
         </p>
+        <div
+          className="mt-2 flex flex-wrap gap-1"
+          title={usageSummary || 'Not referenced by any material'}
+        >
+          {getTextureRoles(texture).map((role) => (
+            <span key={role} className="bg-gray-700 text-gray-300 text-xs px-2 py-0.5 rounded-full">
+              {TEXTURE_ROLE_LABELS[role]}
+            </span>
+          ))}
+        </div>
+        <div className="mt-3">
+          <ResizeSpecControl
+            value={selectedResize}
+            onChange={onResizeChange}
+            maxSizes={availableSizes}
+            defaultDimensions={{ width: texture.originalWidth, height: texture.originalHeight }}
+            disabled={texture.isReplaced}
+          />
+        </div>
         <select
-          value={selectedSize}
-          onChange={(e) => onSizeChange(parseInt(e.target.value, 10))}
-          className="mt-3 w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
-          disabled={texture.isReplaced}
+          value={selectedFormat}
+          onChange={(e) => onFormatChange(e.target.value as TextureOutputFormat)}
+          className="mt-2 w-full bg-gray-700 border border-gray-600 rounded-md px-3 py-2 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
         >
-          <option value={0}>Keep Original</option>
-          {availableSizes.map((size) => (
-            <option key={size} value={size}>
-              {size} x {size} (Max)
+          <option value="original">Keep Format ({texture.mimeType.replace('image/', '').toUpperCase()})</option>
+          {TEXTURE_OUTPUT_FORMATS.filter(
+            (format) => encodableFormats.has(format.id) && format.id !== texture.mimeType
+          ).map((format) => (
+            <option key={format.id} value={format.id}>
+              Convert to {format.label}
             </option>
           ))}
         </select>
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import type { ThumbnailCaptureOptions, ThumbnailFraming } from '../libs/thumbnailCapture';
+
+type ThumbnailCaptureControlProps = {
+  onCapture: (options: ThumbnailCaptureOptions) => void;
+};
+
+const CAPTURE_SIZES = [256, 512, 1024];
+
+const FRAMING_LABELS: Record<ThumbnailFraming, string> = {
+  current: 'Current view',
+  face: 'Face',
+  bust: 'Bust',
+  fullBody: 'Full body',
+};
+
+const ThumbnailCaptureControl = ({ onCapture }: ThumbnailCaptureControlProps) => {
+  const [options, setOptions] = useState<ThumbnailCaptureOptions>({
+    size: 512,
+    transparentBackground: false,
+    framing: 'bust',
+  });
+
+  return (
+    <div className="w-full space-y-2 rounded-lg border border-gray-700 bg-gray-900 p-3 text-left text-sm text-gray-300">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={options.size}
+          onChange={e => setOptions({ ...options, size: Number(e.target.value) })}
+          aria-label="Capture size"
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {CAPTURE_SIZES.map(size => (
+            <option key={size} value={size}>
+              {size} x {size}
+            </option>
+          ))}
+        </select>
+        <select
+          value={options.framing}
+          onChange={e => setOptions({ ...options, framing: e.target.value as ThumbnailFraming })}
+          aria-label="Capture framing"
+          className="bg-gray-700 border border-gray-600 rounded-md px-2 py-1 text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {(Object.keys(FRAMING_LABELS) as ThumbnailFraming[]).map(framing => (
+            <option key={framing} value={framing}>
+              {FRAMING_LABELS[framing]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={options.transparentBackground}
+            onChange={e => setOptions({ ...options, transparentBackground: e.target.checked })}
+          />
+          Transparent background
+        </label>
+      </div>
+      <button
+        onClick={() => onCapture(options)}
+        className="w-full rounded-lg border border-gray-600 bg-gray-700 px-4 py-2 text-sm font-semibold text-white transition-colors enabled:hover:border-blue-500 enabled:hover:text-blue-200 disabled:opacity-50"
+      >
+        Capture from preview
+      </button>
+      <p className="text-xs text-gray-400">
+        Uses the preview's viewing angle, pose and expression. Face, bust and full body re-center the model.
+      </p>
+    </div>
+  );
+};
+
+export default ThumbnailCaptureControl;
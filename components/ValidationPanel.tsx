@@ -0,0 +1,57 @@
+import React from 'react';
+import { hasValidationErrors, type ValidationFinding } from '../services/glbValidator';
+
+type ValidationPanelProps = {
+  findings: ValidationFinding[];
+  allowInvalidExport: boolean;
+  onAllowInvalidExportChange: (allow: boolean) => void;
+};
+
+const ValidationPanel = ({ findings, allowInvalidExport, onAllowInvalidExportChange }: ValidationPanelProps) => {
+  const errorCount = findings.filter(finding => finding.severity === 'error').length;
+  const warningCount = findings.length - errorCount;
+
+  return (
+    <section className="bg-gray-800 rounded-lg p-4 border border-gray-700 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-white">Export Validation</h2>
+        <span className="text-sm text-gray-400">
+          {errorCount} {errorCount === 1 ? 'error' : 'errors'}, {warningCount}{' '}
+          {warningCount === 1 ? 'warning' : 'warnings'}
+        </span>
+      </div>
+      {findings.length === 0 ? (
+        <p className="text-sm text-green-400">No problems found in the exported file.</p>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto space-y-1 text-sm">
+          {findings.map((finding, i) => (
+            <li key={i} className="flex gap-2">
+              <span
+                className={`shrink-0 rounded px-2 py-0.5 text-xs font-bold uppercase ${
+                  finding.severity === 'error' ? 'bg-red-900 text-red-200' : 'bg-yellow-900 text-yellow-200'
+                }`}
+              >
+                {finding.severity}
+              </span>
+              <span className="text-gray-300">
+                <code className="text-gray-400">{finding.path}</code> {finding.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {hasValidationErrors(findings) && (
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={allowInvalidExport}
+            onChange={e => onAllowInvalidExportChange(e.target.checked)}
+          />
+          Download anyway, even though the file has errors
+        </label>
+      )}
+    </section>
+  );
+};
+
+export default ValidationPanel;
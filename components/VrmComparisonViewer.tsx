@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { VRMUtils, type VRM } from '@pixiv/three-vrm';
+import { createVrmLoader } from '../libs/vrmLoader';
+import { disposeSceneMeshes } from '../libs/disposeScene';
+
+export type ComparisonMode = 'off' | 'sideBySide' | 'split';
+
+interface VrmComparisonViewerProps {
+  originalBuffer: ArrayBuffer;
+  processedBuffer: ArrayBuffer;
+  mode: Exclude<ComparisonMode, 'off'>;
+  backgroundColor?: string;
+}
+
+const createScene = (backgroundColor: string) => {
+  const scene = new THREE.Scene();
+  scene.background = new THREE.Color(backgroundColor);
+  scene.add(new THREE.HemisphereLight(0xffffff, 0x111122, 0.8));
+  const directionalLight = new THREE.DirectionalLight(0xffffff, 1.2);
+  directionalLight.position.set(0, 5, 5);
+  scene.add(directionalLight);
+  return scene;
+};
+
+/**
+ * Renders the original and the processed model with one shared camera, either in two halves or
+ * split by a draggable line, so both always show the same view.
+ */
+const VrmComparisonViewer: React.FC<VrmComparisonViewerProps> = ({
+  originalBuffer,
+  processedBuffer,
+  mode,
+  backgroundColor = '#080810',
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasWrapperRef = useRef<HTMLDivElement>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  // Fraction of the width showing the original in split mode
+  const [splitPosition, setSplitPosition] = useState(0.5);
+  // Read by the render loop so changing them does not reload the models
+  const modeRef = useRef(mode);
+  modeRef.current = mode;
+  const splitPositionRef = useRef(splitPosition);
+  splitPositionRef.current = splitPosition;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvasMount = canvasWrapperRef.current;
+    if (!container || !canvasMount) {
+      return;
+    }
+
+    let isMounted = true;
+    setStatus('loading');
+
+    const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+    renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
+    renderer.setSize(container.clientWidth || 400, container.clientHeight || 360);
+    renderer.toneMapping = THREE.ACESFilmicToneMapping;
+    renderer.toneMappingExposure = 1.0;
+    renderer.setScissorTest(true);
+    canvasMount.appendChild(renderer.domElement);
+
+    const scenes = [createScene(backgroundColor), createScene(backgroundColor)];
+
+    const camera = new THREE.PerspectiveCamera(38, 1, 0.1, 50);
+    camera.position.set(0, 1.3, 2.7);
+
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.target.set(0, 1, 0);
+    controls.enableDamping = true;
+
+    const { loader, dispose: disposeLoader } = createVrmLoader(renderer);
+    const vrmModels: VRM[] = [];
+
+    Promise.all([originalBuffer, processedBuffer].map((buffer) => loader.parseAsync(buffer, '')))
+      .then((results) => {
+        if (!isMounted) {
+          return;
+        }
+
+        const vrms = results.map((gltf) => gltf.userData.vrm as VRM | undefined);
+        if (vrms.some((vrm) => !vrm)) {
+          console.error('The GLTF result did not contain a VRM instance.');
+          setStatus('error');
+          return;
+        }
+
+        // Both models are framed like the original so their outlines line up
+        const modelCenter = new THREE.Box3().setFromObject(vrms[0]!.scene).getCenter(new THREE.Vector3());
+        vrms.forEach((vrm, index) => {
+          VRMUtils.removeUnnecessaryJoints(vrm!.scene);
+          vrm!.scene.lookAt(new THREE.Vector3(camera.position.x, modelCenter.y, camera.position.z));
+          scenes[index].add(vrm!.scene);
+          vrmModels.push(vrm!);
+        });
+        controls.target.copy(modelCenter);
+        controls.update();
+        setStatus('ready');
+      })
+      .catch((error) => {
+        if (!isMounted) {
+          return;
+        }
+
+        console.error('Failed to load VRM comparison', error);
+        setStatus('error');
+      });
+
+    let frameId: number;
+    const clock = new THREE.Clock();
+    const render = () => {
+      frameId = requestAnimationFrame(render);
+      const delta = Math.min(clock.getDelta(), 0.1);
+      vrmModels.forEach((vrm) => vrm.update(delta));
+      controls.update();
+
+      const width = container.clientWidth || 400;
+      const height = container.clientHeight || 360;
+      if (modeRef.current === 'sideBySide') {
+        const half = width / 2;
+        camera.aspect = half / height;
+        camera.updateProjectionMatrix();
+        scenes.forEach((scene, index) => {
+          renderer.setViewport(index * half, 0, half, height);
+          renderer.setScissor(index * half, 0, half, height);
+          renderer.render(scene, camera);
+        });
+      } else {
+        const splitX = Math.round(width * splitPositionRef.current);
+        camera.aspect = width / height;
+        camera.updateProjectionMatrix();
+        renderer.setViewport(0, 0, width, height);
+        renderer.setScissor(0, 0, splitX, height);
+        renderer.render(scenes[0], camera);
+        renderer.setScissor(splitX, 0, width - splitX, height);
+        renderer.render(scenes[1], camera);
+      }
+    };
+    render();
+
+    const resizeObserver = new ResizeObserver(() => {
+      const { clientWidth, clientHeight } = container;
+      if (clientWidth && clientHeight) {
+        renderer.setSize(clientWidth, clientHeight);
+      }
+    });
+    resizeObserver.observe(container);
+
+    return () => {
+      isMounted = false;
+      cancelAnimationFrame(frameId);
+      resizeObserver.disconnect();
+      controls.dispose();
+      disposeLoader();
+      renderer.dispose();
+      scenes.forEach(disposeSceneMeshes);
+      vrmModels.forEach((vrm) => vrm.scene.removeFromParent());
+
+      if (canvasMount.contains(renderer.domElement)) {
+        canvasMount.removeChild(renderer.domElement);
+      }
+    };
+  }, [originalBuffer, processedBuffer, backgroundColor]);
+
+  const handleSplitDrag = (event: React.PointerEvent<HTMLDivElement>) => {
+    const container = containerRef.current;
+    if (!container || !event.currentTarget.hasPointerCapture(event.pointerId)) {
+      return;
+    }
+
+    const rect = container.getBoundingClientRect();
+    setSplitPosition(Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)));
+  };
+
+  const overlay =
+    status === 'loading'
+      ? 'Rendering comparison...'
+      : status === 'error'
+        ? 'Comparison failed to load.'
+        : null;
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ backgroundColor }}
+      className="relative w-full min-h-[400px] rounded-lg border border-gray-700 overflow-hidden"
+    >
+      <div ref={canvasWrapperRef} className="absolute inset-0 z-0" />
+      <span className="pointer-events-none absolute left-2 top-2 z-10 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+        Original
+      </span>
+      <span className="pointer-events-none absolute right-2 top-2 z-10 rounded bg-black/60 px-2 py-0.5 text-xs text-gray-200">
+        Edited
+      </span>
+      {mode === 'sideBySide' ? (
+        <div className="pointer-events-none absolute inset-y-0 left-1/2 z-10 w-px bg-gray-500" />
+      ) : (
+        <div
+          role="slider"
+          aria-label="Comparison split position"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(splitPosition * 100)}
+          style={{ left: `${splitPosition * 100}%` }}
+          onPointerDown={(event) => event.currentTarget.setPointerCapture(event.pointerId)}
+          onPointerMove={handleSplitDrag}
+          className="absolute inset-y-0 z-10 w-4 -translate-x-1/2 cursor-ew-resize touch-none flex justify-center"
+        >
+          <div className="h-full w-0.5 bg-white/80" />
+        </div>
+      )}
+      {overlay && (
+        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center text-sm font-medium text-gray-400">
+          {overlay}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VrmComparisonViewer;
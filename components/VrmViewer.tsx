@@ -1,18 +1,85 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
-import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
-import { VRMLoaderPlugin, VRMUtils, type VRM } from '@pixiv/three-vrm';
+import { VRMExpressionPresetName, VRMUtils, type VRM } from '@pixiv/three-vrm';
+import { createVRMAnimationClip, type VRMAnimation } from '@pixiv/three-vrm-animation';
+import { createVrmLoader } from '../libs/vrmLoader';
+import { loadVrmAnimation, SAMPLE_MOTIONS } from '../libs/vrmAnimation';
+import { collectSceneStats } from '../libs/sceneStats';
+import { disposeSceneMeshes } from '../libs/disposeScene';
+import { captureThumbnail, type CaptureThumbnail } from '../libs/thumbnailCapture';
+import type { SceneStats } from '../services/modelStats';
+import ExpressionPanel, { type ViewerExpression } from './ExpressionPanel';
+import MotionControls, { type MotionOption } from './MotionControls';
 
 interface VrmViewerProps {
   arrayBuffer: ArrayBuffer;
   backgroundColor?: string;
+  /** Called with the rendered scene's stats once a model loads, and with null while loading. */
+  onSceneStats?: (stats: SceneStats | null) => void;
+  /** Receives a function that captures the current view while a model is shown. */
+  captureRef?: React.MutableRefObject<CaptureThumbnail | null>;
 }
 
-const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#080810' }) => {
+const NO_MOTION_ID = 'none';
+const FILE_MOTION_ID = 'file';
+
+/** Lists the model's preset expressions in VRM 1.0 order, followed by its custom ones. */
+const getViewerExpressions = (vrm: VRM): ViewerExpression[] => {
+  const manager = vrm.expressionManager;
+  if (!manager) {
+    return [];
+  }
+
+  const presets = Object.values(VRMExpressionPresetName).filter((name) => manager.presetExpressionMap[name]);
+  return [
+    ...presets.map((name) => ({ name, isPreset: true })),
+    ...Object.keys(manager.customExpressionMap).map((name) => ({ name, isPreset: false })),
+  ];
+};
+
+const VrmViewer: React.FC<VrmViewerProps> = ({
+  arrayBuffer,
+  backgroundColor = '#080810',
+  onSceneStats,
+  captureRef,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasWrapperRef = useRef<HTMLDivElement>(null);
   const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  // Kept in a ref so a new callback does not reload the model
+  const onSceneStatsRef = useRef(onSceneStats);
+  onSceneStatsRef.current = onSceneStats;
+  const [loadedVrm, setLoadedVrm] = useState<VRM | null>(null);
+  const [expressions, setExpressions] = useState<ViewerExpression[]>([]);
+  const [expressionWeights, setExpressionWeights] = useState<Record<string, number>>({});
+  // Weights survive preview reloads so an edited face can be checked in the same pose
+  const expressionWeightsRef = useRef(expressionWeights);
+
+  const [motionId, setMotionId] = useState('idle');
+  const [fileMotion, setFileMotion] = useState<{ name: string; animation: VRMAnimation } | null>(null);
+  const [motionError, setMotionError] = useState<string | null>(null);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [motionTime, setMotionTime] = useState(0);
+  const [motionDuration, setMotionDuration] = useState(0);
+  // Read by the render loop, which outlives individual motions
+  const isPlayingRef = useRef(isPlaying);
+  isPlayingRef.current = isPlaying;
+  const mixerRef = useRef<THREE.AnimationMixer | null>(null);
+  const actionRef = useRef<THREE.AnimationAction | null>(null);
+  const reportedTimeRef = useRef(0);
+
+  const sampleMotions = useMemo(
+    () => new Map<string, VRMAnimation>(SAMPLE_MOTIONS.map((motion) => [motion.id, motion.create()])),
+    [],
+  );
+  const motionOptions: MotionOption[] = [
+    { id: NO_MOTION_ID, name: 'T-pose' },
+    ...SAMPLE_MOTIONS.map(({ id, name }) => ({ id, name })),
+    ...(fileMotion ? [{ id: FILE_MOTION_ID, name: fileMotion.name }] : []),
+  ];
+  const selectedAnimation =
+    motionId === FILE_MOTION_ID ? (fileMotion?.animation ?? null) : (sampleMotions.get(motionId) ?? null);
 
   useEffect(() => {
     const container = containerRef.current;
@@ -23,6 +90,7 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
 
     let isMounted = true;
     setStatus('loading');
+    onSceneStatsRef.current?.(null);
 
     const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
     renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
@@ -46,10 +114,10 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
     directionalLight.position.set(0, 5, 5);
     scene.add(directionalLight);
 
-    const loader = new GLTFLoader();
-    loader.register((parser) => new VRMLoaderPlugin(parser));
+    const { loader, dispose: disposeLoader } = createVrmLoader(renderer);
 
     let vrmModel: VRM | null = null;
+    let capture: CaptureThumbnail | null = null;
     let frameId: number;
 
     loader.parse(
@@ -68,6 +136,9 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
         }
 
         vrmModel = vrm;
+        const weights = expressionWeightsRef.current;
+        Object.keys(weights).forEach((name) => vrm.expressionManager?.setValue(name, weights[name]));
+        setExpressions(getViewerExpressions(vrm));
         VRMUtils.removeUnnecessaryJoints(vrm.scene);
 
         const boundingBox = new THREE.Box3().setFromObject(vrm.scene);
@@ -78,6 +149,14 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
         controls.update();
 
         scene.add(vrm.scene);
+        renderer.render(scene, camera);
+        onSceneStatsRef.current?.(collectSceneStats(vrm.scene, renderer));
+        setLoadedVrm(vrm);
+        if (captureRef) {
+          const source = { renderer, scene, camera, orbitTarget: controls.target, vrm };
+          capture = (options) => captureThumbnail(source, options);
+          captureRef.current = capture;
+        }
         setStatus('ready');
       },
       (error) => {
@@ -93,6 +172,17 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
     const clock = new THREE.Clock();
     const render = () => {
       frameId = requestAnimationFrame(render);
+      // Clamped so spring bones do not jump after the tab was in the background
+      const delta = Math.min(clock.getDelta(), 0.1);
+      const action = actionRef.current;
+      if (action && isPlayingRef.current) {
+        mixerRef.current?.update(delta);
+        if (Math.abs(action.time - reportedTimeRef.current) >= 0.1) {
+          reportedTimeRef.current = action.time;
+          setMotionTime(action.time);
+        }
+      }
+      vrmModel?.update(delta);
       controls.update();
       renderer.render(scene, camera);
     };
@@ -117,29 +207,17 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
 
     return () => {
       isMounted = false;
+      setLoadedVrm(null);
+      if (captureRef && captureRef.current === capture) {
+        captureRef.current = null;
+      }
       cancelAnimationFrame(frameId);
       resizeObserver.disconnect();
       controls.dispose();
+      disposeLoader();
       renderer.dispose();
 
-      scene.traverse((object) => {
-        if (!(object instanceof THREE.Mesh)) {
-          return;
-        }
-
-        object.geometry?.dispose();
-
-        const { material } = object;
-        if (!material) {
-          return;
-        }
-
-        if (Array.isArray(material)) {
-          material.forEach((materialItem) => materialItem.dispose());
-        } else {
-          material.dispose();
-        }
-      });
+      disposeSceneMeshes(scene);
 
       if (vrmModel) {
         scene.remove(vrmModel.scene);
@@ -151,6 +229,79 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
     };
   }, [arrayBuffer, backgroundColor]);
 
+  useEffect(() => {
+    setMotionTime(0);
+    reportedTimeRef.current = 0;
+    if (!loadedVrm || !selectedAnimation) {
+      setMotionDuration(0);
+      return;
+    }
+
+    const mixer = new THREE.AnimationMixer(loadedVrm.scene);
+    const action = mixer.clipAction(createVRMAnimationClip(selectedAnimation, loadedVrm));
+    action.play();
+    mixer.update(0);
+    mixerRef.current = mixer;
+    actionRef.current = action;
+    setMotionDuration(action.getClip().duration);
+
+    return () => {
+      mixer.stopAllAction();
+      mixer.uncacheRoot(loadedVrm.scene);
+      mixerRef.current = null;
+      actionRef.current = null;
+      loadedVrm.humanoid.resetNormalizedPose();
+    };
+  }, [loadedVrm, selectedAnimation]);
+
+  const handleMotionSeek = (time: number) => {
+    const action = actionRef.current;
+    if (!action) {
+      return;
+    }
+
+    action.time = time;
+    mixerRef.current?.update(0);
+    reportedTimeRef.current = time;
+    setMotionTime(time);
+  };
+
+  const handleMotionFile = async (file: File) => {
+    try {
+      const animation = await loadVrmAnimation(await file.arrayBuffer());
+      setFileMotion({ name: file.name, animation });
+      setMotionId(FILE_MOTION_ID);
+      setIsPlaying(true);
+      setMotionError(null);
+    } catch (e) {
+      console.error('Failed to load VRM animation', e);
+      setMotionError(`Failed to load ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    const file = event.dataTransfer.files[0];
+    if (file?.name.toLowerCase().endsWith('.vrma')) {
+      event.preventDefault();
+      handleMotionFile(file);
+    }
+  };
+
+  const updateExpressionWeights = (weights: Record<string, number>) => {
+    expressionWeightsRef.current = weights;
+    setExpressionWeights(weights);
+  };
+
+  const handleExpressionWeightChange = (name: string, weight: number) => {
+    loadedVrm?.expressionManager?.setValue(name, weight);
+    updateExpressionWeights({ ...expressionWeightsRef.current, [name]: weight });
+  };
+
+  const handleExpressionReset = () => {
+    loadedVrm?.expressionManager?.resetValues();
+    updateExpressionWeights({});
+  };
+
   const overlay =
     status === 'loading'
       ? 'Rendering preview...'
@@ -159,16 +310,42 @@ const VrmViewer: React.FC<VrmViewerProps> = ({ arrayBuffer, backgroundColor = '#
         : null;
 
   return (
-    <div
-      ref={containerRef}
-      style={{ backgroundColor }}
-      className="relative w-full min-h-[400px] rounded-lg border border-gray-700 overflow-hidden"
-    >
-      <div ref={canvasWrapperRef} className="absolute inset-0 z-0" />
-      {overlay && (
-        <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center text-sm font-medium text-gray-400">
-          {overlay}
-        </div>
+    <div className="space-y-3">
+      <div
+        ref={containerRef}
+        style={{ backgroundColor }}
+        onDragOver={(event) => event.preventDefault()}
+        onDrop={handleDrop}
+        className="relative w-full min-h-[400px] rounded-lg border border-gray-700 overflow-hidden"
+      >
+        <div ref={canvasWrapperRef} className="absolute inset-0 z-0" />
+        {overlay && (
+          <div className="pointer-events-none absolute inset-0 z-10 flex items-center justify-center text-sm font-medium text-gray-400">
+            {overlay}
+          </div>
+        )}
+      </div>
+      {status === 'ready' && (
+        <MotionControls
+          options={motionOptions}
+          selectedId={motionId}
+          onSelect={setMotionId}
+          onFileSelect={handleMotionFile}
+          isPlaying={isPlaying}
+          onPlayingChange={setIsPlaying}
+          time={motionTime}
+          duration={motionDuration}
+          onSeek={handleMotionSeek}
+          error={motionError}
+        />
+      )}
+      {status === 'ready' && (
+        <ExpressionPanel
+          expressions={expressions}
+          weights={expressionWeights}
+          onWeightChange={handleExpressionWeightChange}
+          onReset={handleExpressionReset}
+        />
       )}
     </div>
   );
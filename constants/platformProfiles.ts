@@ -0,0 +1,58 @@
+/**
+ * Limits a target platform puts on uploaded avatars. Every limit is optional; user profiles are loaded
+ * from JSON files of the same shape.
+ */
+export type PlatformProfile = {
+  id: string;
+  name: string;
+  maxFileSizeMb?: number;
+  /** Longest side of any texture, in pixels. */
+  maxTextureSize?: number;
+  maxTriangles?: number;
+  maxMaterials?: number;
+  /** Extensions the platform can load. Anything else in extensionsUsed fails the check. */
+  allowedExtensions?: string[];
+};
+
+const VRM_EXTENSIONS = [
+  'VRM',
+  'VRMC_vrm',
+  'VRMC_springBone',
+  'VRMC_springBone_extended_collider',
+  'VRMC_node_constraint',
+  'VRMC_materials_mtoon',
+  'VRMC_materials_hdr_emissiveMultiplier',
+];
+
+const MATERIAL_EXTENSIONS = ['KHR_materials_unlit', 'KHR_texture_transform', 'KHR_materials_emissive_strength'];
+
+/** Rough limits for common targets; check each platform's current documentation before relying on them. */
+export const BUILT_IN_PLATFORM_PROFILES: PlatformProfile[] = [
+  {
+    id: 'cluster',
+    name: 'cluster',
+    maxFileSizeMb: 30,
+    maxTextureSize: 2048,
+    maxTriangles: 64000,
+    maxMaterials: 32,
+    allowedExtensions: [...VRM_EXTENSIONS, ...MATERIAL_EXTENSIONS],
+  },
+  {
+    id: 'vrchat-style',
+    name: 'VRChat-style (PC, Good)',
+    maxFileSizeMb: 200,
+    maxTextureSize: 2048,
+    maxTriangles: 70000,
+    maxMaterials: 8,
+    allowedExtensions: [...VRM_EXTENSIONS, ...MATERIAL_EXTENSIONS],
+  },
+  {
+    id: 'mobile-web',
+    name: 'Mobile web',
+    maxFileSizeMb: 10,
+    maxTextureSize: 1024,
+    maxTriangles: 20000,
+    maxMaterials: 8,
+    allowedExtensions: [...VRM_EXTENSIONS, ...MATERIAL_EXTENSIONS, 'KHR_texture_basisu', 'EXT_texture_webp'],
+  },
+];
@@ -0,0 +1,26 @@
+export type TextureOutputFormat = 'original' | 'image/png' | 'image/jpeg' | 'image/webp' | 'image/avif' | 'image/ktx2';
+
+export const TEXTURE_OUTPUT_FORMATS: { id: TextureOutputFormat; label: string }[] = [
+  { id: 'image/png', label: 'PNG' },
+  { id: 'image/jpeg', label: 'JPEG' },
+  { id: 'image/webp', label: 'WebP' },
+  { id: 'image/avif', label: 'AVIF' },
+  { id: 'image/ktx2', label: 'KTX2 (Basis Universal)' },
+];
+
+/**
+ * glTF extensions that reference images in formats outside the core spec.
+ */
+export const TEXTURE_FORMAT_EXTENSIONS: Record<string, string> = {
+  'image/webp': 'EXT_texture_webp',
+  'image/avif': 'EXT_texture_avif',
+  'image/ktx2': 'KHR_texture_basisu',
+};
+
+/**
+ * Core format of the copy kept next to a WebP/AVIF/KTX2 image: JPEG sources stay JPEG, the rest become PNG.
+ */
+export const getFallbackMimeType = (sourceMimeType: string): string =>
+  sourceMimeType === 'image/jpeg' ? 'image/jpeg' : 'image/png';
+
+export const DEFAULT_OUTPUT_QUALITY = 0.9;
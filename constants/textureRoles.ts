@@ -0,0 +1,83 @@
+import type { TextureRole } from '../types';
+
+export const TEXTURE_ROLE_LABELS: Record<TextureRole, string> = {
+  baseColor: 'Base Color',
+  normal: 'Normal',
+  metallicRoughness: 'Metallic/Roughness',
+  occlusion: 'Occlusion',
+  emissive: 'Emissive',
+  shade: 'Shade',
+  shadingShift: 'Shading Shift',
+  matcap: 'Matcap',
+  rim: 'Rim',
+  outlineWidth: 'Outline Width',
+  uvAnimationMask: 'UV Animation Mask',
+  thumbnail: 'Thumbnail',
+  other: 'Other',
+};
+
+/**
+ * Relative visual importance of each role. Lower values are shrunk first by the file size planner.
+ */
+export const TEXTURE_ROLE_IMPORTANCE: Record<TextureRole, number> = {
+  baseColor: 1,
+  normal: 1,
+  emissive: 0.75,
+  shade: 0.75,
+  metallicRoughness: 0.5,
+  occlusion: 0.5,
+  thumbnail: 0.5,
+  other: 0.5,
+  shadingShift: 0.35,
+  rim: 0.35,
+  matcap: 0.25,
+  outlineWidth: 0.25,
+  uvAnimationMask: 0.25,
+};
+
+/**
+ * Roles holding sRGB color. Textures in other roles hold data such as normals or masks and are filtered
+ * as stored. Unreferenced images are most often color.
+ */
+export const COLOR_TEXTURE_ROLES: TextureRole[] = [
+  'baseColor',
+  'emissive',
+  'shade',
+  'matcap',
+  'rim',
+  'thumbnail',
+  'other',
+];
+
+/** Core glTF material texture slots. */
+export const CORE_TEXTURE_SLOTS: { path: string[]; role: TextureRole }[] = [
+  { path: ['pbrMetallicRoughness', 'baseColorTexture'], role: 'baseColor' },
+  { path: ['pbrMetallicRoughness', 'metallicRoughnessTexture'], role: 'metallicRoughness' },
+  { path: ['normalTexture'], role: 'normal' },
+  { path: ['occlusionTexture'], role: 'occlusion' },
+  { path: ['emissiveTexture'], role: 'emissive' },
+];
+
+/** VRMC_materials_mtoon (VRM 1.0) texture slots. */
+export const MTOON_TEXTURE_SLOTS: Record<string, TextureRole> = {
+  shadeMultiplyTexture: 'shade',
+  shadingShiftTexture: 'shadingShift',
+  matcapTexture: 'matcap',
+  rimMultiplyTexture: 'rim',
+  outlineWidthMultiplyTexture: 'outlineWidth',
+  uvAnimationMaskTexture: 'uvAnimationMask',
+};
+
+/** VRM 0.x materialProperties textureProperties keys. */
+export const VRM0_TEXTURE_PROPERTIES: Record<string, TextureRole> = {
+  _MainTex: 'baseColor',
+  _ShadeTexture: 'shade',
+  _BumpMap: 'normal',
+  _ReceiveShadowTexture: 'shadingShift',
+  _ShadingGradeTexture: 'shadingShift',
+  _RimTexture: 'rim',
+  _SphereAdd: 'matcap',
+  _EmissionMap: 'emissive',
+  _OutlineWidthTexture: 'outlineWidth',
+  _UvAnimMaskTexture: 'uvAnimationMask',
+};
@@ -0,0 +1,68 @@
+/** VRM 0.x blend shape presets and the VRM 1.0 expression presets they became. */
+export const VRM0_TO_VRM1_EXPRESSION_PRESETS: Record<string, string> = {
+  a: 'aa',
+  i: 'ih',
+  u: 'ou',
+  e: 'ee',
+  o: 'oh',
+  blink: 'blink',
+  joy: 'happy',
+  angry: 'angry',
+  sorrow: 'sad',
+  fun: 'relaxed',
+  lookup: 'lookUp',
+  lookdown: 'lookDown',
+  lookleft: 'lookLeft',
+  lookright: 'lookRight',
+  blink_l: 'blinkLeft',
+  blink_r: 'blinkRight',
+  neutral: 'neutral',
+};
+
+/** VRM 0.x thumb bones whose names shifted by one joint in VRM 1.0. */
+export const VRM0_TO_VRM1_BONE_NAMES: Record<string, string> = {
+  leftThumbProximal: 'leftThumbMetacarpal',
+  leftThumbIntermediate: 'leftThumbProximal',
+  rightThumbProximal: 'rightThumbMetacarpal',
+  rightThumbIntermediate: 'rightThumbProximal',
+};
+
+/** VRM 0.x material properties that blend shapes may animate, and their VRM 1.0 color bind types. */
+export const VRM0_TO_VRM1_MATERIAL_COLOR_TYPES: Record<string, string> = {
+  _Color: 'color',
+  _EmissionColor: 'emissionColor',
+  _ShadeColor: 'shadeColor',
+  _RimColor: 'rimColor',
+  _OutlineColor: 'outlineColor',
+};
+
+export const VRM0_TO_VRM1_FIRST_PERSON_FLAGS: Record<string, string> = {
+  Auto: 'auto',
+  Both: 'both',
+  ThirdPersonOnly: 'thirdPersonOnly',
+  FirstPersonOnly: 'firstPersonOnly',
+};
+
+export const VRM0_TO_VRM1_AVATAR_PERMISSIONS: Record<string, string> = {
+  OnlyAuthor: 'onlyAuthor',
+  ExplicitlyLicensedPerson: 'onlySeparatelyLicensedPerson',
+  Everyone: 'everyone',
+};
+
+/** VRM 0.x firstPersonBoneOffset used when a model does not specify one. */
+export const VRM0_DEFAULT_FIRST_PERSON_OFFSET = { x: 0, y: 0.06, z: 0 };
+
+const invert = (map: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(map).map(([key, value]) => [value, key]));
+
+export const VRM1_TO_VRM0_EXPRESSION_PRESETS = invert(VRM0_TO_VRM1_EXPRESSION_PRESETS);
+export const VRM1_TO_VRM0_BONE_NAMES = invert(VRM0_TO_VRM1_BONE_NAMES);
+export const VRM1_TO_VRM0_MATERIAL_COLOR_PROPERTIES = invert(VRM0_TO_VRM1_MATERIAL_COLOR_TYPES);
+export const VRM1_TO_VRM0_FIRST_PERSON_FLAGS = invert(VRM0_TO_VRM1_FIRST_PERSON_FLAGS);
+export const VRM1_TO_VRM0_ALLOWED_USER_NAMES = invert(VRM0_TO_VRM1_AVATAR_PERMISSIONS);
+
+/** Linear look-at curve VRM 0.x exporters write by default: keyframes (time, value, inTangent, outTangent). */
+export const VRM0_DEFAULT_LOOK_AT_CURVE = [0, 0, 0, 1, 1, 1, 1, 0];
+
+/** Value written to extensions.VRM.exporterVersion for downgraded models. */
+export const VRM0_EXPORTER_VERSION = 'WEB-VRM-KIT';
@@ -0,0 +1,41 @@
+import type { VrmVersion } from '../types';
+
+/** Human bones every VRM model must map, per spec version. */
+export const REQUIRED_HUMAN_BONES: Record<VrmVersion, string[]> = {
+  '0.x': [
+    'hips',
+    'spine',
+    'chest',
+    'neck',
+    'head',
+    'leftUpperArm',
+    'leftLowerArm',
+    'leftHand',
+    'rightUpperArm',
+    'rightLowerArm',
+    'rightHand',
+    'leftUpperLeg',
+    'leftLowerLeg',
+    'leftFoot',
+    'rightUpperLeg',
+    'rightLowerLeg',
+    'rightFoot',
+  ],
+  '1.0': [
+    'hips',
+    'spine',
+    'head',
+    'leftUpperArm',
+    'leftLowerArm',
+    'leftHand',
+    'rightUpperArm',
+    'rightLowerArm',
+    'rightHand',
+    'leftUpperLeg',
+    'leftLowerLeg',
+    'leftFoot',
+    'rightUpperLeg',
+    'rightLowerLeg',
+    'rightFoot',
+  ],
+};
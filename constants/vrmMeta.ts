@@ -0,0 +1,73 @@
+import type { VrmMeta, VrmVersion } from '../types';
+
+export type MetaFieldType = 'text' | 'textarea' | 'url' | 'list' | 'enum' | 'boolean';
+
+export type MetaFieldDefinition = {
+  key: keyof VrmMeta;
+  label: string;
+  type: MetaFieldType;
+  required?: boolean;
+  options?: readonly string[];
+};
+
+export const VRM0_ALLOWED_USER_NAMES = ['OnlyAuthor', 'ExplicitlyLicensedPerson', 'Everyone'] as const;
+export const VRM0_USSAGE_NAMES = ['Disallow', 'Allow'] as const;
+export const VRM0_LICENSE_NAMES = [
+  'Redistribution_Prohibited',
+  'CC0',
+  'CC_BY',
+  'CC_BY_NC',
+  'CC_BY_SA',
+  'CC_BY_NC_SA',
+  'CC_BY_ND',
+  'CC_BY_NC_ND',
+  'Other',
+] as const;
+
+export const VRM1_AVATAR_PERMISSIONS = ['onlyAuthor', 'onlySeparatelyLicensedPerson', 'everyone'] as const;
+export const VRM1_COMMERCIAL_USAGES = ['personalNonProfit', 'personalProfit', 'corporation'] as const;
+export const VRM1_CREDIT_NOTATIONS = ['required', 'unnecessary'] as const;
+export const VRM1_MODIFICATIONS = ['prohibited', 'allowModification', 'allowModificationRedistribution'] as const;
+
+export const VRM1_DEFAULT_LICENSE_URL = 'https://vrm.dev/licenses/1.0/';
+
+const VRM0_META_FIELDS: MetaFieldDefinition[] = [
+  { key: 'title', label: 'Title', type: 'text' },
+  { key: 'version', label: 'Version', type: 'text' },
+  { key: 'author', label: 'Author', type: 'text' },
+  { key: 'contactInformation', label: 'Contact', type: 'text' },
+  { key: 'reference', label: 'Reference', type: 'text' },
+  { key: 'allowedUserName', label: 'Allowed Users', type: 'enum', options: VRM0_ALLOWED_USER_NAMES },
+  { key: 'violentUssageName', label: 'Violent Usage', type: 'enum', options: VRM0_USSAGE_NAMES },
+  { key: 'sexualUssageName', label: 'Sexual Usage', type: 'enum', options: VRM0_USSAGE_NAMES },
+  { key: 'commercialUssageName', label: 'Commercial Usage', type: 'enum', options: VRM0_USSAGE_NAMES },
+  { key: 'otherPermissionUrl', label: 'Other Permission URL', type: 'url' },
+  { key: 'licenseName', label: 'License', type: 'enum', options: VRM0_LICENSE_NAMES },
+  { key: 'otherLicenseUrl', label: 'Other License URL', type: 'url' },
+];
+
+const VRM1_META_FIELDS: MetaFieldDefinition[] = [
+  { key: 'name', label: 'Name', type: 'text', required: true },
+  { key: 'version', label: 'Version', type: 'text' },
+  { key: 'authors', label: 'Authors', type: 'list', required: true },
+  { key: 'copyrightInformation', label: 'Copyright', type: 'text' },
+  { key: 'contactInformation', label: 'Contact', type: 'text' },
+  { key: 'references', label: 'References', type: 'list' },
+  { key: 'thirdPartyLicenses', label: 'Third Party Licenses', type: 'textarea' },
+  { key: 'licenseUrl', label: 'License URL', type: 'url', required: true },
+  { key: 'avatarPermission', label: 'Avatar Permission', type: 'enum', options: VRM1_AVATAR_PERMISSIONS },
+  { key: 'commercialUsage', label: 'Commercial Usage', type: 'enum', options: VRM1_COMMERCIAL_USAGES },
+  { key: 'allowExcessivelyViolentUsage', label: 'Allow Excessively Violent Usage', type: 'boolean' },
+  { key: 'allowExcessivelySexualUsage', label: 'Allow Excessively Sexual Usage', type: 'boolean' },
+  { key: 'allowPoliticalOrReligiousUsage', label: 'Allow Political or Religious Usage', type: 'boolean' },
+  { key: 'allowAntisocialOrHateUsage', label: 'Allow Antisocial or Hate Usage', type: 'boolean' },
+  { key: 'creditNotation', label: 'Credit Notation', type: 'enum', options: VRM1_CREDIT_NOTATIONS },
+  { key: 'allowRedistribution', label: 'Allow Redistribution', type: 'boolean' },
+  { key: 'modification', label: 'Modification', type: 'enum', options: VRM1_MODIFICATIONS },
+  { key: 'otherLicenseUrl', label: 'Other License URL', type: 'url' },
+];
+
+export const META_FIELDS: Record<VrmVersion, MetaFieldDefinition[]> = {
+  '0.x': VRM0_META_FIELDS,
+  '1.0': VRM1_META_FIELDS,
+};
@@ -0,0 +1,155 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+export type EditHistoryEntry<T> = {
+  id: number;
+  label: string;
+  state: T;
+  /** Consecutive edits with the same merge key, such as typing into one field, share an entry. */
+  mergeKey?: string;
+};
+
+type EditHistory<T> = {
+  entries: EditHistoryEntry<T>[];
+  index: number;
+};
+
+type EditHistoryOptions<T> = {
+  /** Records nothing and clears the history while false, e.g. before a model is loaded. */
+  enabled: boolean;
+  /** Applies an earlier state when undoing, redoing or jumping. */
+  restore: (state: T) => void;
+  /** Called with states that left the history, and those still in it, so their resources can be freed. */
+  onDiscard?: (discarded: T[], remaining: T[]) => void;
+  label?: string;
+  maxEntries?: number;
+};
+
+const DEFAULT_MAX_ENTRIES = 100;
+
+/** Compares snapshots field by field, since restoring one sets each field back to its stored reference. */
+const isSameState = <T extends object>(a: T, b: T) =>
+  (Object.keys(a) as (keyof T)[]).every(key => Object.is(a[key], b[key]));
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Keeps an undo/redo history of state. Every change to state becomes an entry, labeled by the last
+ * labelNextEdit call, and the first state after enabling is the starting point. Ctrl/Cmd+Z undoes,
+ * Ctrl/Cmd+Shift+Z and Ctrl+Y redo, except while typing in a form field.
+ */
+export function useEditHistory<T extends object>(
+  state: T,
+  { enabled, restore, onDiscard, label = 'Opened model', maxEntries = DEFAULT_MAX_ENTRIES }: EditHistoryOptions<T>
+) {
+  const [history, setHistory] = useState<EditHistory<T>>({ entries: [], index: -1 });
+  const nextEditRef = useRef<{ label: string; mergeKey?: string } | null>(null);
+  const nextIdRef = useRef(0);
+  const onDiscardRef = useRef(onDiscard);
+  onDiscardRef.current = onDiscard;
+
+  const discard = useCallback((discarded: EditHistoryEntry<T>[], remaining: EditHistoryEntry<T>[]) => {
+    if (discarded.length > 0) {
+      onDiscardRef.current?.(
+        discarded.map(entry => entry.state),
+        remaining.map(entry => entry.state)
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      if (history.entries.length > 0) {
+        discard(history.entries, []);
+        setHistory({ entries: [], index: -1 });
+      }
+      return;
+    }
+
+    const current = history.entries[history.index];
+    if (current && isSameState(current.state, state)) {
+      return;
+    }
+
+    const nextEdit = nextEditRef.current;
+    nextEditRef.current = null;
+    if (!current) {
+      setHistory({ entries: [{ id: nextIdRef.current++, label, state }], index: 0 });
+      return;
+    }
+
+    const kept = history.entries.slice(0, history.index + 1);
+    const redoEntries = history.entries.slice(history.index + 1);
+    const canMerge =
+      nextEdit?.mergeKey !== undefined && redoEntries.length === 0 && kept.length > 1 &&
+      current.mergeKey === nextEdit.mergeKey;
+    const entry: EditHistoryEntry<T> = {
+      id: canMerge ? current.id : nextIdRef.current++,
+      label: nextEdit?.label ?? 'Edit',
+      state,
+      mergeKey: nextEdit?.mergeKey,
+    };
+    const entries = canMerge ? [...kept.slice(0, -1), entry] : [...kept, entry];
+    const overflow = entries.splice(0, Math.max(0, entries.length - maxEntries));
+    discard([...redoEntries, ...overflow, ...(canMerge ? [current] : [])], entries);
+    setHistory({ entries, index: entries.length - 1 });
+  }, [enabled, state, history, label, maxEntries, discard]);
+
+  /** Names the next recorded change. Edits sharing a merge key in a row are combined into one entry. */
+  const labelNextEdit = useCallback((editLabel: string, mergeKey?: string) => {
+    nextEditRef.current = { label: editLabel, mergeKey };
+  }, []);
+
+  const jumpTo = useCallback(
+    (index: number) => {
+      const entry = history.entries[index];
+      if (!entry || index === history.index) {
+        return;
+      }
+      setHistory({ ...history, index });
+      restore(entry.state);
+    },
+    [history, restore]
+  );
+
+  const canUndo = history.index > 0;
+  const canRedo = history.index < history.entries.length - 1;
+  const undo = useCallback(() => jumpTo(history.index - 1), [jumpTo, history.index]);
+  const redo = useCallback(() => jumpTo(history.index + 1), [jumpTo, history.index]);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isEditableTarget(event.target)) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undo();
+      } else if ((key === 'z' && event.shiftKey) || (key === 'y' && !event.metaKey)) {
+        event.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, undo, redo]);
+
+  return {
+    entries: history.entries,
+    currentIndex: history.index,
+    canUndo,
+    canRedo,
+    undo,
+    redo,
+    jumpTo,
+    labelNextEdit,
+  };
+}
@@ -1,46 +1,40 @@
-import { useEffect, useMemo, useState } from 'react';
-import type { TextureInfo, VrmData, VrmMeta } from '../types';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { TextureInfo, VrmData, VrmMeta, VrmVersion } from '../types';
+import { META_FIELDS, type MetaFieldDefinition } from '../constants/vrmMeta';
+import { getVrmVersion, readVrmMeta, validateVrmMeta, type VrmMetaErrors } from '../services/vrmMeta';
 
-export type MetadataField = {
-  label: string;
-  value: string | number;
-  linkUrl?: string;
-};
+export type MetadataFieldValue = VrmMeta[keyof VrmMeta];
+
+const isEmptyValue = (value: MetadataFieldValue) =>
+  value === '' || (Array.isArray(value) && value.length === 0);
 
 export function useVrmMetadata(vrmData: VrmData | null, textures: TextureInfo[]) {
   const [vrmMetadata, setVrmMetadata] = useState<VrmMeta | null>(null);
+  const [editedMetadata, setEditedMetadata] = useState<VrmMeta | null>(null);
+  const [vrmVersion, setVrmVersion] = useState<VrmVersion | null>(null);
   const [metadataThumbnailImageIndex, setMetadataThumbnailImageIndex] = useState<number | null>(null);
 
   useEffect(() => {
-    if (!vrmData) {
-      setVrmMetadata(null);
-      setMetadataThumbnailImageIndex(null);
-      return;
-    }
+    const meta = vrmData ? readVrmMeta(vrmData.json) : null;
+    setVrmVersion(vrmData ? getVrmVersion(vrmData.json) : null);
+    setVrmMetadata(meta);
+    setEditedMetadata(meta);
 
-    const extensions = vrmData.json?.extensions;
-    const meta =
-      (extensions?.VRM?.meta as VrmMeta | undefined) ??
-      (extensions?.VRMC_vrm?.meta as VrmMeta | undefined);
-    if (!meta) {
-      setVrmMetadata(null);
+    if (!vrmData || !meta) {
       setMetadataThumbnailImageIndex(null);
       return;
     }
 
-    const textureIndex =
-      typeof meta.texture === 'number'
-        ? meta.texture
-        : typeof meta.thumbnailImage === 'number'
-        ? meta.thumbnailImage
-        : null;
-    const texturesDef = vrmData.json?.textures;
+    // VRM 1.0 references the thumbnail image directly, VRM 0.x through a texture
     const imageIndex =
-      textureIndex !== null && texturesDef?.[textureIndex]?.source !== undefined
-        ? texturesDef[textureIndex].source
-        : null;
-    setVrmMetadata(meta);
-    setMetadataThumbnailImageIndex(imageIndex);
+      typeof meta.thumbnailImage === 'number'
+        ? meta.thumbnailImage
+        : typeof meta.texture === 'number'
+        ? vrmData.json?.textures?.[meta.texture]?.source
+        : undefined;
+    setMetadataThumbnailImageIndex(
+      typeof imageIndex === 'number' && vrmData.json?.images?.[imageIndex] ? imageIndex : null
+    );
   }, [vrmData]);
 
   const metadataThumbnailTexture = useMemo(() => {
@@ -51,51 +45,40 @@ export function useVrmMetadata(vrmData: VrmData | null, textures: TextureInfo[])
     return textures.find(texture => texture.index === metadataThumbnailImageIndex) ?? null;
   }, [metadataThumbnailImageIndex, textures]);
 
-  const metadataFields = useMemo(() => {
-    if (!vrmMetadata) return [];
+  const metadataFieldDefinitions: MetaFieldDefinition[] = useMemo(
+    () => (vrmVersion ? META_FIELDS[vrmVersion] : []),
+    [vrmVersion]
+  );
 
-    const labelMap: Record<string, string> = {
-      title: 'Title',
-      name: 'Name',
-      version: 'Version',
-      author: 'Author',
-      contactInformation: 'Contact',
-      description: 'Description',
-      reference: 'Reference',
-      allowedUserName: 'Allowed Users',
-      violentUsageName: 'Violent Usage',
-      violentUssageName: 'Violent Usage',
-    };
+  const metadataErrors: VrmMetaErrors = useMemo(
+    () => (editedMetadata && vrmVersion ? validateVrmMeta(editedMetadata, vrmVersion) : {}),
+    [editedMetadata, vrmVersion]
+  );
 
-    const formatLabel = (key: string) => {
-      const spaced = key.replace(/([A-Z])/g, ' $1');
-      return spaced.charAt(0).toUpperCase() + spaced.slice(1);
-    };
+  const isMetadataEdited = useMemo(
+    () => JSON.stringify(editedMetadata) !== JSON.stringify(vrmMetadata),
+    [editedMetadata, vrmMetadata]
+  );
 
-    const entries: MetadataField[] = Object.entries(vrmMetadata)
-      .filter(([key]) => key !== 'texture' && key !== 'licenseName' && key !== 'licenseUrl')
-      .map(([key, value]) => ({
-        label: labelMap[key] || formatLabel(key),
-        value: value as string | number,
-      }))
-      .filter(field => field.value !== undefined && field.value !== null && field.value !== '');
-
-    if (vrmMetadata.licenseName || vrmMetadata.licenseUrl) {
-      const licenseLabel = vrmMetadata.licenseName || 'License';
-      entries.push({
-        label: 'License',
-        value: licenseLabel,
-        linkUrl: vrmMetadata.licenseUrl ?? undefined,
-      });
-    }
+  const updateMetadataField = useCallback((key: keyof VrmMeta, value: MetadataFieldValue) => {
+    setEditedMetadata(prev => (prev ? { ...prev, [key]: isEmptyValue(value) ? undefined : value } : prev));
+  }, []);
 
-    return entries;
+  const resetMetadata = useCallback(() => {
+    setEditedMetadata(vrmMetadata);
   }, [vrmMetadata]);
 
   return {
     vrmMetadata,
+    vrmVersion,
+    editedMetadata,
+    setEditedMetadata,
+    isMetadataEdited,
+    metadataErrors,
+    metadataFieldDefinitions,
+    updateMetadataField,
+    resetMetadata,
     metadataThumbnailImageIndex,
     metadataThumbnailTexture,
-    metadataFields,
   };
 }
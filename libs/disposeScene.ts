@@ -0,0 +1,25 @@
+import * as THREE from 'three';
+
+/**
+ * Frees the geometries and materials of every mesh under root.
+ */
+export const disposeSceneMeshes = (root: THREE.Object3D) => {
+  root.traverse((object) => {
+    if (!(object instanceof THREE.Mesh)) {
+      return;
+    }
+
+    object.geometry?.dispose();
+
+    const { material } = object;
+    if (!material) {
+      return;
+    }
+
+    if (Array.isArray(material)) {
+      material.forEach((materialItem) => materialItem.dispose());
+    } else {
+      material.dispose();
+    }
+  });
+};
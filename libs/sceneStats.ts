@@ -0,0 +1,52 @@
+import * as THREE from 'three';
+import { estimateTextureMemory, type SceneStats } from '../services/modelStats';
+
+const getTextureMemory = (texture: THREE.Texture): number => {
+  if (texture instanceof THREE.CompressedTexture) {
+    return (texture.mipmaps ?? []).reduce((total: number, mipmap: any) => total + (mipmap.data?.byteLength ?? 0), 0);
+  }
+  const { width = 0, height = 0 } = (texture.image ?? {}) as { width?: number; height?: number };
+  return estimateTextureMemory(width, height, 'image/png');
+};
+
+const collectMaterialTextures = (material: THREE.Material, textures: Set<THREE.Texture>) => {
+  // MToon keeps its textures in shader uniforms rather than material properties
+  const uniforms = (material as THREE.ShaderMaterial).uniforms ?? {};
+  [...Object.values(material), ...Object.values(uniforms).map(uniform => uniform?.value)].forEach(value => {
+    if (value instanceof THREE.Texture) textures.add(value);
+  });
+};
+
+/**
+ * Measures a loaded scene. Call it right after a render so renderer.info holds that frame's draw calls.
+ */
+export const collectSceneStats = (root: THREE.Object3D, renderer: THREE.WebGLRenderer): SceneStats => {
+  const materials = new Set<THREE.Material>();
+  const textures = new Set<THREE.Texture>();
+  const bones = new Set<THREE.Bone>();
+  let meshes = 0;
+  let skinnedMeshes = 0;
+
+  root.traverse(object => {
+    if (!(object instanceof THREE.Mesh)) return;
+    meshes++;
+    if (object instanceof THREE.SkinnedMesh) {
+      skinnedMeshes++;
+      object.skeleton.bones.forEach(bone => bones.add(bone));
+    }
+    (Array.isArray(object.material) ? object.material : [object.material]).forEach(material => {
+      materials.add(material);
+      collectMaterialTextures(material, textures);
+    });
+  });
+
+  return {
+    triangles: renderer.info.render.triangles,
+    drawCalls: renderer.info.render.calls,
+    meshes,
+    skinnedMeshes,
+    materials: materials.size,
+    bones: bones.size,
+    textureMemoryBytes: Array.from(textures).reduce((total, texture) => total + getTextureMemory(texture), 0),
+  };
+};
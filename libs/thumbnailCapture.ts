@@ -0,0 +1,97 @@
+import * as THREE from 'three';
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+
+export type ThumbnailFraming = 'current' | 'face' | 'bust' | 'fullBody';
+
+export type ThumbnailCaptureOptions = {
+  /** Width and height of the square image, in pixels. */
+  size: number;
+  transparentBackground: boolean;
+  framing: ThumbnailFraming;
+};
+
+/** Renders the viewer's model as a PNG thumbnail. */
+export type CaptureThumbnail = (options: ThumbnailCaptureOptions) => Promise<Blob>;
+
+type CaptureSource = {
+  renderer: THREE.WebGLRenderer;
+  scene: THREE.Scene;
+  camera: THREE.PerspectiveCamera;
+  /** Point the viewer orbits around; the capture keeps the viewing direction towards it. */
+  orbitTarget: THREE.Vector3;
+  vrm: VRM;
+};
+
+const getBonePosition = (vrm: VRM, bone: VRMHumanBoneName): THREE.Vector3 | null =>
+  vrm.humanoid.getRawBoneNode(bone)?.getWorldPosition(new THREE.Vector3()) ?? null;
+
+/**
+ * Returns the point to aim at and the height to fit in the image for a framing preset, or null to keep
+ * the viewer's camera. Heights are relative to the model so presets work regardless of its scale.
+ */
+const getFraming = (vrm: VRM, framing: ThumbnailFraming): { target: THREE.Vector3; height: number } | null => {
+  if (framing === 'current') {
+    return null;
+  }
+
+  const box = new THREE.Box3().setFromObject(vrm.scene);
+  const modelHeight = box.getSize(new THREE.Vector3()).y;
+  const head = getBonePosition(vrm, 'head');
+  const neck = getBonePosition(vrm, 'neck') ?? head;
+
+  if (framing === 'face' && head) {
+    return { target: head.setY(head.y + modelHeight * 0.04), height: modelHeight * 0.25 };
+  }
+  if (framing === 'bust' && neck) {
+    return { target: neck.setY(neck.y - modelHeight * 0.08), height: modelHeight * 0.5 };
+  }
+  return { target: box.getCenter(new THREE.Vector3()), height: modelHeight * 1.1 };
+};
+
+/**
+ * Renders one square frame at the requested size with the viewer's renderer and restores the
+ * viewer's size and background in the same task, so the visible canvas never shows the capture.
+ */
+export const captureThumbnail = (
+  { renderer, scene, camera, orbitTarget, vrm }: CaptureSource,
+  options: ThumbnailCaptureOptions,
+): Promise<Blob> => {
+  const captureCamera = camera.clone();
+  captureCamera.aspect = 1;
+  const framing = getFraming(vrm, options.framing);
+  if (framing) {
+    const direction = camera.position.clone().sub(orbitTarget).normalize();
+    const distance = framing.height / 2 / Math.tan(THREE.MathUtils.degToRad(captureCamera.fov / 2));
+    captureCamera.position.copy(framing.target).addScaledVector(direction, distance);
+    captureCamera.lookAt(framing.target);
+  }
+  captureCamera.updateProjectionMatrix();
+
+  const previousSize = renderer.getSize(new THREE.Vector2());
+  const previousPixelRatio = renderer.getPixelRatio();
+  const previousBackground = scene.background;
+
+  renderer.setPixelRatio(1);
+  renderer.setSize(options.size, options.size, false);
+  if (options.transparentBackground) {
+    scene.background = null;
+  }
+  renderer.render(scene, captureCamera);
+
+  // toBlob copies the drawing buffer immediately, before the viewer is restored below
+  const blob = new Promise<Blob>((resolve, reject) => {
+    renderer.domElement.toBlob((result) => {
+      if (result) {
+        resolve(result);
+      } else {
+        reject(new Error('The browser could not encode the captured image.'));
+      }
+    }, 'image/png');
+  });
+
+  scene.background = previousBackground;
+  renderer.setPixelRatio(previousPixelRatio);
+  renderer.setSize(previousSize.x, previousSize.y, false);
+  renderer.render(scene, camera);
+  return blob;
+};
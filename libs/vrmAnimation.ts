@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRMAnimation, VRMAnimationLoaderPlugin } from '@pixiv/three-vrm-animation';
+import type { VRMHumanBoneName } from '@pixiv/three-vrm';
+
+/**
+ * Parses a .vrma (VRMC_vrm_animation) file and returns its first animation.
+ */
+export const loadVrmAnimation = async (data: ArrayBuffer): Promise<VRMAnimation> => {
+  const loader = new GLTFLoader();
+  loader.register((parser) => new VRMAnimationLoaderPlugin(parser));
+
+  const gltf = await loader.parseAsync(data, '');
+  const animation = (gltf.userData.vrmAnimations as VRMAnimation[] | undefined)?.[0];
+  if (!animation) {
+    throw new Error('The file does not contain a VRM animation.');
+  }
+  return animation;
+};
+
+/** Euler rotations in degrees (XYZ) of normalized bones, one per keyframe, in VRM 1.0 space. */
+type BoneKeyframes = Partial<Record<VRMHumanBoneName, [number, number, number][]>>;
+
+const createMotion = (times: number[], bones: BoneKeyframes): VRMAnimation => {
+  const animation = new VRMAnimation();
+  animation.duration = times[times.length - 1];
+
+  (Object.keys(bones) as VRMHumanBoneName[]).forEach((bone) => {
+    const values = bones[bone]!.flatMap(([x, y, z]) => {
+      const euler = new THREE.Euler(
+        THREE.MathUtils.degToRad(x),
+        THREE.MathUtils.degToRad(y),
+        THREE.MathUtils.degToRad(z),
+      );
+      return new THREE.Quaternion().setFromEuler(euler).toArray();
+    });
+    animation.humanoidTracks.rotation.set(bone, new THREE.QuaternionKeyframeTrack(`${bone}.quaternion`, times, values));
+  });
+  return animation;
+};
+
+const IDLE_TIMES = [0, 2, 4];
+
+// Arms lowered from the T-pose with slightly bent elbows, breathing through the spine
+const IDLE_BONES: BoneKeyframes = {
+  spine: [[0, 0, 0], [2, 0, 0], [0, 0, 0]],
+  chest: [[0, 0, 0], [1.5, 0, 0], [0, 0, 0]],
+  head: [[0, 0, 0], [-2, 3, 0], [0, 0, 0]],
+  leftUpperArm: [[0, 0, -70], [0, 0, -67], [0, 0, -70]],
+  rightUpperArm: [[0, 0, 70], [0, 0, 67], [0, 0, 70]],
+  leftLowerArm: [[0, -15, 0], [0, -18, 0], [0, -15, 0]],
+  rightLowerArm: [[0, 15, 0], [0, 18, 0], [0, 15, 0]],
+};
+
+const WAVE_TIMES = [0, 0.5, 1, 1.5, 2, 2.5, 3];
+
+const WAVE_BONES: BoneKeyframes = {
+  head: [[0, 0, 0], [0, -5, 3], [0, -5, 3], [0, -5, 3], [0, -5, 3], [0, -5, 3], [0, 0, 0]],
+  leftUpperArm: Array.from({ length: 7 }, () => [0, 0, -70]),
+  leftLowerArm: Array.from({ length: 7 }, () => [0, -15, 0]),
+  rightUpperArm: [[0, 0, 70], [0, 0, -60], [0, 0, -60], [0, 0, -60], [0, 0, -60], [0, 0, -60], [0, 0, 70]],
+  rightLowerArm: [[0, 15, 0], [0, 0, -20], [0, 0, -50], [0, 0, -20], [0, 0, -50], [0, 0, -20], [0, 15, 0]],
+};
+
+/** Motions built in code, so the preview can animate without a .vrma file. */
+export const SAMPLE_MOTIONS: { id: string; name: string; create: () => VRMAnimation }[] = [
+  { id: 'idle', name: 'Relaxed idle', create: () => createMotion(IDLE_TIMES, IDLE_BONES) },
+  { id: 'wave', name: 'Wave', create: () => createMotion(WAVE_TIMES, WAVE_BONES) },
+];
@@ -0,0 +1,24 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader.js';
+import { VRMLoaderPlugin } from '@pixiv/three-vrm';
+
+// Basis transcoder of the installed three.js, served from the app by the basisTranscoder plugin in vite.config.ts
+const BASIS_TRANSCODER_PATH = '/basis/';
+
+/**
+ * Creates a GLTFLoader that understands VRM and KHR_texture_basisu (KTX2) textures.
+ * Call dispose() when the renderer is torn down to stop the transcoder workers.
+ */
+export const createVrmLoader = (renderer: THREE.WebGLRenderer) => {
+  const ktx2Loader = new KTX2Loader().setTranscoderPath(BASIS_TRANSCODER_PATH).detectSupport(renderer);
+
+  const loader = new GLTFLoader();
+  loader.setKTX2Loader(ktx2Loader);
+  loader.register((parser) => new VRMLoaderPlugin(parser));
+
+  return {
+    loader,
+    dispose: () => ktx2Loader.dispose(),
+  };
+};
@@ -0,0 +1,169 @@
+import { REQUIRED_HUMAN_BONES } from '../constants/vrmHumanoid';
+import { COMPONENT_SIZES, TYPE_COMPONENT_COUNTS } from '../constants/gltf';
+import { getVrmVersion, readVrmMeta, validateVrmMeta } from './vrmMeta';
+import {
+  forEachAccessorReference,
+  forEachBufferReference,
+  forEachBufferViewReference,
+  forEachImageReference,
+  forEachMaterialReference,
+  forEachMeshReference,
+  forEachNodeReference,
+  forEachSamplerReference,
+  forEachSkinReference,
+  forEachTextureReference,
+  getVertexAttributeAccessors,
+  type ForEachReference,
+} from './gltfReferences';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationFinding = {
+  severity: ValidationSeverity;
+  /** JSON location the finding is about, e.g. "accessors[3]". */
+  path: string;
+  message: string;
+};
+
+const INDEXED_ARRAYS: { arrayKey: string; forEachReference: ForEachReference }[] = [
+  { arrayKey: 'buffers', forEachReference: forEachBufferReference },
+  { arrayKey: 'bufferViews', forEachReference: forEachBufferViewReference },
+  { arrayKey: 'accessors', forEachReference: forEachAccessorReference },
+  { arrayKey: 'images', forEachReference: forEachImageReference },
+  { arrayKey: 'samplers', forEachReference: forEachSamplerReference },
+  { arrayKey: 'textures', forEachReference: forEachTextureReference },
+  { arrayKey: 'materials', forEachReference: forEachMaterialReference },
+  { arrayKey: 'meshes', forEachReference: forEachMeshReference },
+  { arrayKey: 'skins', forEachReference: forEachSkinReference },
+  { arrayKey: 'nodes', forEachReference: forEachNodeReference },
+];
+
+export type ValidateGlbOptions = {
+  /**
+   * Whether the meta was edited in this session. Meta findings only block the download then; files
+   * that arrive with legacy or incomplete meta are exported as they were, with warnings.
+   */
+  isMetadataEdited?: boolean;
+};
+
+type Report = (severity: ValidationSeverity, path: string, message: string) => void;
+
+const validateBufferViews = (json: any, bin: Uint8Array, report: Report) => {
+  const declaredLength = json.buffers?.[0]?.byteLength;
+  if (typeof declaredLength === 'number' && declaredLength > bin.byteLength) {
+    report('error', 'buffers[0]', `byteLength ${declaredLength} exceeds the BIN chunk length ${bin.byteLength}.`);
+  }
+
+  (json.bufferViews ?? []).forEach((bufferView: any, i: number) => {
+    const path = `bufferViews[${i}]`;
+    const end = (bufferView.byteOffset ?? 0) + bufferView.byteLength;
+    if (bufferView.buffer === 0 && end > bin.byteLength) {
+      report('error', path, `Range ends at ${end}, past the BIN chunk length ${bin.byteLength}.`);
+    }
+
+    const stride = bufferView.byteStride;
+    if (stride !== undefined && (stride < 4 || stride > 252 || stride % 4 !== 0)) {
+      report('error', path, `byteStride ${stride} must be a multiple of 4 between 4 and 252.`);
+    }
+  });
+};
+
+const validateAccessors = (json: any, report: Report) => {
+  const vertexAccessors = getVertexAttributeAccessors(json);
+
+  (json.accessors ?? []).forEach((accessor: any, i: number) => {
+    const path = `accessors[${i}]`;
+    const bufferView = json.bufferViews?.[accessor.bufferView];
+    const componentSize = COMPONENT_SIZES[accessor.componentType];
+    const componentCount = TYPE_COMPONENT_COUNTS[accessor.type];
+    if (!componentSize || !componentCount) {
+      report('error', path, `Unknown componentType ${accessor.componentType} or type ${accessor.type}.`);
+      return;
+    }
+    if (!bufferView) return;
+
+    const byteOffset = accessor.byteOffset ?? 0;
+    const absoluteOffset = (bufferView.byteOffset ?? 0) + byteOffset;
+    const elementSize = componentSize * componentCount;
+    const stride = bufferView.byteStride ?? elementSize;
+
+    if (absoluteOffset % componentSize !== 0) {
+      report(
+        'error',
+        path,
+        `Data starts at byte ${absoluteOffset}, which is not a multiple of its component size (${componentSize}).`
+      );
+    } else if (vertexAccessors.has(i) && absoluteOffset % 4 !== 0) {
+      report('warning', path, `Vertex attribute data starts at byte ${absoluteOffset}, not on a 4-byte boundary.`);
+    }
+    if (stride % componentSize !== 0 || stride < elementSize) {
+      report('error', path, `byteStride ${stride} does not fit elements of ${elementSize} bytes.`);
+    }
+
+    const end = byteOffset + stride * Math.max(accessor.count - 1, 0) + elementSize;
+    if (end > bufferView.byteLength) {
+      report(
+        'error',
+        path,
+        `Needs ${end} bytes but bufferView ${accessor.bufferView} is ${bufferView.byteLength} bytes long.`
+      );
+    }
+  });
+};
+
+const validateIndices = (json: any, report: Report) => {
+  INDEXED_ARRAYS.forEach(({ arrayKey, forEachReference }) => {
+    const length = json[arrayKey]?.length ?? 0;
+    forEachReference(json, (holder, key) => {
+      const index = holder[key];
+      if (!Number.isInteger(index) || index < 0 || index >= length) {
+        report('error', `${arrayKey}[${index}]`, `Referenced by "${key}" but only ${length} ${arrayKey} exist.`);
+      }
+    });
+  });
+};
+
+const validateVrm = (json: any, report: Report, { isMetadataEdited = false }: ValidateGlbOptions) => {
+  const version = getVrmVersion(json);
+  if (!version) {
+    report('warning', 'extensions', 'No VRM or VRMC_vrm extension found.');
+    return;
+  }
+
+  const humanoid = version === '1.0' ? json.extensions.VRMC_vrm.humanoid : json.extensions.VRM.humanoid;
+  const mappedBones = new Set<string>(
+    version === '1.0'
+      ? Object.keys(humanoid?.humanBones ?? {})
+      : (humanoid?.humanBones ?? []).map((bone: any) => bone.bone)
+  );
+  const missingBones = REQUIRED_HUMAN_BONES[version].filter(bone => !mappedBones.has(bone));
+  if (missingBones.length > 0) {
+    report('error', 'humanoid', `Missing required bones: ${missingBones.join(', ')}.`);
+  }
+
+  const meta = readVrmMeta(json);
+  if (!meta) {
+    report('error', 'meta', 'VRM meta is missing.');
+    return;
+  }
+  Object.entries(validateVrmMeta(meta, version)).forEach(([key, message]) => {
+    report(isMetadataEdited ? 'error' : 'warning', `meta.${key}`, message!);
+  });
+};
+
+/**
+ * Checks a GLB's JSON against its BIN chunk before it is handed to the user: buffer ranges,
+ * accessor alignment, reference indices, required humanoid bones and meta fields.
+ */
+export const validateGlb = (json: any, bin: Uint8Array, options: ValidateGlbOptions = {}): ValidationFinding[] => {
+  const findings: ValidationFinding[] = [];
+  const report: Report = (severity, path, message) => findings.push({ severity, path, message });
+  validateBufferViews(json, bin, report);
+  validateAccessors(json, report);
+  validateIndices(json, report);
+  validateVrm(json, report, options);
+  return findings;
+};
+
+export const hasValidationErrors = (findings: ValidationFinding[]): boolean =>
+  findings.some(finding => finding.severity === 'error');
@@ -0,0 +1,293 @@
+/**
+ * Helpers for removing glTF objects while keeping every index that points at them valid.
+ * They mutate the given JSON (and the matching per-bufferView data array) in place.
+ */
+
+/**
+ * Called with the object holding an index and the key it is stored under.
+ */
+export type ReferenceVisitor = (holder: any, key: string) => void;
+
+export type ForEachReference = (json: any, visit: ReferenceVisitor) => void;
+
+const visitIndex = (holder: any, key: string, visit: ReferenceVisitor) => {
+  if (typeof holder?.[key] === 'number') {
+    visit(holder, key);
+  }
+};
+
+const forEachPrimitive = (json: any, callback: (primitive: any) => void) => {
+  (json.meshes ?? []).forEach((mesh: any) => (mesh.primitives ?? []).forEach(callback));
+};
+
+/**
+ * Visits texture info objects ({ index, texCoord }) anywhere inside a material,
+ * including extensions such as VRMC_materials_mtoon.
+ */
+const visitTextureInfos = (value: any, visit: ReferenceVisitor) => {
+  if (!value || typeof value !== 'object') return;
+  Object.entries(value).forEach(([key, child]: [string, any]) => {
+    if (key.endsWith('Texture') && typeof child?.index === 'number') {
+      visit(child, 'index');
+    } else {
+      visitTextureInfos(child, visit);
+    }
+  });
+};
+
+/**
+ * Lists VRM 1.0 expressions, presets and custom ones alike.
+ */
+export const getVrm1Expressions = (json: any): any[] => {
+  const expressions = json.extensions?.VRMC_vrm?.expressions;
+  return [...Object.values(expressions?.preset ?? {}), ...Object.values(expressions?.custom ?? {})];
+};
+
+/**
+ * Returns the VRM 0.x materialProperties entry for a material. Entries are matched by material name,
+ * as UniVRM does, since their order need not follow json.materials.
+ */
+export const getVrm0MaterialProperties = (json: any, materialIndex: number): any => {
+  const name = json.materials?.[materialIndex]?.name;
+  return (json.extensions?.VRM?.materialProperties ?? []).find((properties: any) => properties.name === name);
+};
+
+/** Texture sources (core and EXT_texture_webp / EXT_texture_avif / KHR_texture_basisu) and the VRM 1.0 thumbnail. */
+export const forEachImageReference: ForEachReference = (json, visit) => {
+  (json.textures ?? []).forEach((texture: any) => {
+    visitIndex(texture, 'source', visit);
+    Object.values(texture.extensions ?? {}).forEach((extension: any) => visitIndex(extension, 'source', visit));
+  });
+  visitIndex(json.extensions?.VRMC_vrm?.meta, 'thumbnailImage', visit);
+};
+
+/** Material texture slots, VRM 0.x materialProperties and the VRM 0.x thumbnail. */
+export const forEachTextureReference: ForEachReference = (json, visit) => {
+  (json.materials ?? []).forEach((material: any) => visitTextureInfos(material, visit));
+  (json.extensions?.VRM?.materialProperties ?? []).forEach((properties: any) =>
+    Object.keys(properties.textureProperties ?? {}).forEach(key => visitIndex(properties.textureProperties, key, visit))
+  );
+  const vrm0Meta = json.extensions?.VRM?.meta;
+  // -1 means the model has no thumbnail
+  if (vrm0Meta?.texture !== -1) visitIndex(vrm0Meta, 'texture', visit);
+};
+
+export const forEachSamplerReference: ForEachReference = (json, visit) => {
+  (json.textures ?? []).forEach((texture: any) => visitIndex(texture, 'sampler', visit));
+};
+
+/** Primitive materials, including KHR_materials_variants mappings. */
+export const forEachPrimitiveMaterialReference: ForEachReference = (json, visit) => {
+  forEachPrimitive(json, primitive => {
+    visitIndex(primitive, 'material', visit);
+    (primitive.extensions?.KHR_materials_variants?.mappings ?? []).forEach((mapping: any) =>
+      visitIndex(mapping, 'material', visit)
+    );
+  });
+};
+
+/** Primitive materials and VRM 1.0 expression material binds. */
+export const forEachMaterialReference: ForEachReference = (json, visit) => {
+  forEachPrimitiveMaterialReference(json, visit);
+  getVrm1Expressions(json).forEach((expression: any) => {
+    [...(expression.materialColorBinds ?? []), ...(expression.textureTransformBinds ?? [])].forEach((bind: any) =>
+      visitIndex(bind, 'material', visit)
+    );
+  });
+};
+
+/** Primitive attributes, indices and morph targets, skins, animations and EXT_mesh_gpu_instancing. */
+export const forEachAccessorReference: ForEachReference = (json, visit) => {
+  forEachPrimitive(json, primitive => {
+    Object.keys(primitive.attributes ?? {}).forEach(key => visitIndex(primitive.attributes, key, visit));
+    visitIndex(primitive, 'indices', visit);
+    (primitive.targets ?? []).forEach((target: any) =>
+      Object.keys(target).forEach(key => visitIndex(target, key, visit))
+    );
+  });
+  (json.skins ?? []).forEach((skin: any) => visitIndex(skin, 'inverseBindMatrices', visit));
+  (json.animations ?? []).forEach((animation: any) =>
+    (animation.samplers ?? []).forEach((sampler: any) => {
+      visitIndex(sampler, 'input', visit);
+      visitIndex(sampler, 'output', visit);
+    })
+  );
+  (json.nodes ?? []).forEach((node: any) => {
+    const attributes = node.extensions?.EXT_mesh_gpu_instancing?.attributes ?? {};
+    Object.keys(attributes).forEach(key => visitIndex(attributes, key, visit));
+  });
+};
+
+/** Images, accessors, sparse accessor indices/values and KHR_draco_mesh_compression primitives. */
+export const forEachBufferViewReference: ForEachReference = (json, visit) => {
+  (json.images ?? []).forEach((image: any) => visitIndex(image, 'bufferView', visit));
+  (json.accessors ?? []).forEach((accessor: any) => {
+    visitIndex(accessor, 'bufferView', visit);
+    visitIndex(accessor.sparse?.indices, 'bufferView', visit);
+    visitIndex(accessor.sparse?.values, 'bufferView', visit);
+  });
+  forEachPrimitive(json, primitive =>
+    visitIndex(primitive.extensions?.KHR_draco_mesh_compression, 'bufferView', visit)
+  );
+};
+
+const visitIndices = (holder: any[] | undefined, visit: ReferenceVisitor) => {
+  (holder ?? []).forEach((_, i) => visitIndex(holder, String(i), visit));
+};
+
+/**
+ * Scene roots, node children, skin joints, animation targets and the node references of the
+ * VRM 0.x / VRM 1.0 humanoid, first person, spring bone, expression and node constraint data.
+ */
+export const forEachNodeReference: ForEachReference = (json, visit) => {
+  (json.scenes ?? []).forEach((scene: any) => visitIndices(scene.nodes, visit));
+  (json.nodes ?? []).forEach((node: any) => {
+    visitIndices(node.children, visit);
+    const constraint = node.extensions?.VRMC_node_constraint?.constraint ?? {};
+    Object.values(constraint).forEach((value: any) => visitIndex(value, 'source', visit));
+  });
+  (json.skins ?? []).forEach((skin: any) => {
+    visitIndices(skin.joints, visit);
+    visitIndex(skin, 'skeleton', visit);
+  });
+  (json.animations ?? []).forEach((animation: any) =>
+    (animation.channels ?? []).forEach((channel: any) => visitIndex(channel.target, 'node', visit))
+  );
+
+  const vrm0 = json.extensions?.VRM;
+  (vrm0?.humanoid?.humanBones ?? []).forEach((bone: any) => visitIndex(bone, 'node', visit));
+  // -1 means no first person bone is set
+  if (vrm0?.firstPerson?.firstPersonBone !== -1) visitIndex(vrm0?.firstPerson, 'firstPersonBone', visit);
+  (vrm0?.secondaryAnimation?.boneGroups ?? []).forEach((group: any) => {
+    visitIndices(group.bones, visit);
+    // -1 means the bone group has no center
+    if (group.center !== -1) visitIndex(group, 'center', visit);
+  });
+  (vrm0?.secondaryAnimation?.colliderGroups ?? []).forEach((group: any) => visitIndex(group, 'node', visit));
+
+  const vrm1 = json.extensions?.VRMC_vrm;
+  Object.values(vrm1?.humanoid?.humanBones ?? {}).forEach((bone: any) => visitIndex(bone, 'node', visit));
+  (vrm1?.firstPerson?.meshAnnotations ?? []).forEach((annotation: any) => visitIndex(annotation, 'node', visit));
+  getVrm1Expressions(json).forEach((expression: any) =>
+    (expression.morphTargetBinds ?? []).forEach((bind: any) => visitIndex(bind, 'node', visit))
+  );
+  const springBone = json.extensions?.VRMC_springBone;
+  (springBone?.colliders ?? []).forEach((collider: any) => visitIndex(collider, 'node', visit));
+  (springBone?.springs ?? []).forEach((spring: any) => {
+    (spring.joints ?? []).forEach((joint: any) => visitIndex(joint, 'node', visit));
+    visitIndex(spring, 'center', visit);
+  });
+};
+
+/** Node meshes and the VRM 0.x blend shape binds and first person mesh annotations. */
+export const forEachMeshReference: ForEachReference = (json, visit) => {
+  (json.nodes ?? []).forEach((node: any) => visitIndex(node, 'mesh', visit));
+  const vrm0 = json.extensions?.VRM;
+  (vrm0?.blendShapeMaster?.blendShapeGroups ?? []).forEach((group: any) =>
+    (group.binds ?? []).forEach((bind: any) => visitIndex(bind, 'mesh', visit))
+  );
+  (vrm0?.firstPerson?.meshAnnotations ?? []).forEach((annotation: any) => visitIndex(annotation, 'mesh', visit));
+};
+
+export const forEachSkinReference: ForEachReference = (json, visit) => {
+  (json.nodes ?? []).forEach((node: any) => visitIndex(node, 'skin', visit));
+};
+
+export const forEachBufferReference: ForEachReference = (json, visit) => {
+  (json.bufferViews ?? []).forEach((bufferView: any) => visitIndex(bufferView, 'buffer', visit));
+};
+
+/**
+ * Returns the accessors used as vertex attributes or morph target attributes.
+ */
+export const getVertexAttributeAccessors = (json: any): Set<number> => {
+  const accessors = new Set<number>();
+  forEachPrimitive(json, primitive =>
+    [primitive.attributes ?? {}, ...(primitive.targets ?? [])].forEach(attributes =>
+      Object.values(attributes).forEach(index => {
+        if (typeof index === 'number') accessors.add(index);
+      })
+    )
+  );
+  return accessors;
+};
+
+/**
+ * Returns the set of indices reached through the given references.
+ */
+export const getReferencedIndices = (json: any, forEachReference: ForEachReference): Set<number> => {
+  const referenced = new Set<number>();
+  forEachReference(json, (holder, key) => referenced.add(holder[key]));
+  return referenced;
+};
+
+/**
+ * Rewrites every reference visited by forEachReference. References mapped to undefined are deleted.
+ */
+export const remapReferences = (
+  json: any,
+  forEachReference: ForEachReference,
+  remap: (index: number) => number | undefined
+) => {
+  forEachReference(json, (holder, key) => {
+    const index = remap(holder[key]);
+    if (index === undefined) delete holder[key];
+    else holder[key] = index;
+  });
+};
+
+/**
+ * Removes the given indices from json[arrayKey] and re-indexes the remaining references.
+ * Returns the removed items.
+ */
+export const removeIndexedItems = (
+  json: any,
+  arrayKey: string,
+  forEachReference: ForEachReference,
+  removed: Set<number>
+): any[] => {
+  const items: any[] = json[arrayKey] ?? [];
+  if (removed.size === 0) return [];
+
+  const indexMap = new Map<number, number>();
+  items.forEach((_, i) => {
+    if (!removed.has(i)) indexMap.set(i, indexMap.size);
+  });
+
+  remapReferences(json, forEachReference, index => indexMap.get(index));
+  json[arrayKey] = items.filter((_, i) => !removed.has(i));
+  return items.filter((_, i) => removed.has(i));
+};
+
+/**
+ * Removes the given bufferViews together with their data and re-indexes all references.
+ * Returns the number of bytes removed.
+ */
+export const removeBufferViews = (json: any, bufferViewData: Uint8Array[], removed: Set<number>): number => {
+  let removedBytes = 0;
+  removed.forEach(index => {
+    removedBytes += bufferViewData[index].byteLength;
+  });
+
+  removeIndexedItems(json, 'bufferViews', forEachBufferViewReference, removed);
+  const keptData = bufferViewData.filter((_, i) => !removed.has(i));
+  bufferViewData.length = 0;
+  keptData.forEach(data => bufferViewData.push(data));
+
+  return removedBytes;
+};
+
+/**
+ * Removes the given images, re-indexes image references and drops bufferViews
+ * that only the removed images used. Returns the number of bytes removed.
+ */
+export const removeImages = (json: any, bufferViewData: Uint8Array[], removed: Set<number>): number => {
+  const removedImages = removeIndexedItems(json, 'images', forEachImageReference, removed);
+  const referenced = getReferencedIndices(json, forEachBufferViewReference);
+  const orphanedBufferViews = new Set<number>(
+    removedImages
+      .map(image => image.bufferView)
+      .filter(index => typeof index === 'number' && !referenced.has(index))
+  );
+  return removeBufferViews(json, bufferViewData, orphanedBufferViews);
+};
@@ -0,0 +1,106 @@
+export type ImageDimensions = {
+  width: number;
+  height: number;
+};
+
+/**
+ * Decodes and re-encodes embedded texture images. The web UI uses the canvas
+ * implementation in vrmService; the CLI plugs in a Node implementation instead.
+ */
+export interface ImageCodec {
+  getDimensions(data: Uint8Array, mimeType: string): Promise<ImageDimensions>;
+  resize(data: Uint8Array, mimeType: string, width: number, height: number): Promise<Uint8Array>;
+}
+
+/**
+ * Calculates the dimensions of an image scaled down so that its longest side fits within maxSize.
+ */
+export const getResizedDimensions = (width: number, height: number, maxSize: number): ImageDimensions => {
+  if (width > height) {
+    if (width > maxSize) {
+      return { width: maxSize, height: Math.round(height * (maxSize / width)) };
+    }
+  } else if (height > maxSize) {
+    return { width: Math.round(width * (maxSize / height)), height: maxSize };
+  }
+  return { width, height };
+};
+
+/**
+ * How a resize that changes the aspect ratio fills the target: distort the image, or fit it centered
+ * with transparent padding.
+ */
+export type ResizeFit = 'stretch' | 'pad';
+
+/**
+ * A per-texture resize setting:
+ * - max: scale down so the longest side fits within size
+ * - exact: scale to width x height
+ * - scale: scale both sides by percent
+ * - powerOfTwo: round each side up or down to a power of two
+ */
+export type ResizeSpec =
+  | { mode: 'max'; size: number }
+  | { mode: 'exact'; width: number; height: number; fit: ResizeFit }
+  | { mode: 'scale'; percent: number }
+  | { mode: 'powerOfTwo'; direction: 'up' | 'down'; fit: ResizeFit };
+
+export type ResizeMode = ResizeSpec['mode'];
+
+const toPowerOfTwo = (value: number, direction: 'up' | 'down') => {
+  const exponent = Math.log2(Math.max(1, value));
+  return 2 ** (direction === 'up' ? Math.ceil(exponent) : Math.floor(exponent));
+};
+
+/**
+ * Calculates the dimensions of an image resized with the given spec.
+ */
+export const getTargetDimensions = (width: number, height: number, spec: ResizeSpec): ImageDimensions => {
+  switch (spec.mode) {
+    case 'max':
+      return getResizedDimensions(width, height, spec.size);
+    case 'exact':
+      return { width: spec.width, height: spec.height };
+    case 'scale':
+      return {
+        width: Math.max(1, Math.round((width * spec.percent) / 100)),
+        height: Math.max(1, Math.round((height * spec.percent) / 100)),
+      };
+    case 'powerOfTwo':
+      return { width: toPowerOfTwo(width, spec.direction), height: toPowerOfTwo(height, spec.direction) };
+  }
+};
+
+/**
+ * Returns whether resizing with spec would leave the image's dimensions unchanged.
+ */
+export const isResizeNoop = (width: number, height: number, spec: ResizeSpec): boolean => {
+  const target = getTargetDimensions(width, height, spec);
+  return target.width === width && target.height === height;
+};
+
+/**
+ * Calculates where to draw the source image within the target: all of it when stretching, or centered at
+ * the source aspect ratio when padding.
+ */
+export const getDrawRect = (
+  width: number,
+  height: number,
+  target: ImageDimensions,
+  fit: ResizeFit
+): ImageDimensions & { x: number; y: number } => {
+  if (fit === 'stretch') {
+    return { x: 0, y: 0, ...target };
+  }
+  const scale = Math.min(target.width / width, target.height / height);
+  const drawWidth = Math.max(1, Math.round(width * scale));
+  const drawHeight = Math.max(1, Math.round(height * scale));
+  return {
+    x: Math.floor((target.width - drawWidth) / 2),
+    y: Math.floor((target.height - drawHeight) / 2),
+    width: drawWidth,
+    height: drawHeight,
+  };
+};
+
+export const getResizeFit = (spec: ResizeSpec): ResizeFit => ('fit' in spec ? spec.fit : 'stretch');
@@ -0,0 +1,65 @@
+import { forEachImageReference, remapReferences, removeImages } from './gltfReferences';
+
+export type ImageDedupeReport = {
+  /** Number of images dropped because an identical image already existed. */
+  mergedImageCount: number;
+  /** Bytes removed from the BIN chunk, before padding. */
+  savedBytes: number;
+};
+
+/**
+ * 32-bit FNV-1a hash, only used to bucket candidates before a full byte comparison.
+ */
+const hashBytes = (data: Uint8Array): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const isSameBytes = (a: Uint8Array, b: Uint8Array): boolean => {
+  if (a.byteLength !== b.byteLength) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+};
+
+/**
+ * Merges images whose final bytes are identical. Textures (and the VRM 1.0 thumbnail) are
+ * pointed at the first copy, and the other copies are removed along with their bufferViews.
+ * bufferViewData holds the bytes each bufferView will be written with, so both untouched
+ * and re-encoded images are compared.
+ */
+export const dedupeImages = (json: any, bufferViewData: Uint8Array[]): ImageDedupeReport => {
+  const images: any[] = json.images ?? [];
+  const buckets = new Map<string, number[]>();
+  const duplicateOf = new Map<number, number>();
+
+  images.forEach((image, imageIndex) => {
+    if (typeof image.bufferView !== 'number') return;
+
+    const data = bufferViewData[image.bufferView];
+    const key = `${image.mimeType}:${data.byteLength}:${hashBytes(data)}`;
+    const candidates = buckets.get(key) ?? [];
+    const original = candidates.find(candidate =>
+      isSameBytes(bufferViewData[images[candidate].bufferView], data)
+    );
+
+    if (original !== undefined) {
+      duplicateOf.set(imageIndex, original);
+    } else {
+      buckets.set(key, [...candidates, imageIndex]);
+    }
+  });
+
+  if (duplicateOf.size === 0) {
+    return { mergedImageCount: 0, savedBytes: 0 };
+  }
+
+  remapReferences(json, forEachImageReference, imageIndex => duplicateOf.get(imageIndex) ?? imageIndex);
+  const savedBytes = removeImages(json, bufferViewData, new Set(duplicateOf.keys()));
+  return { mergedImageCount: duplicateOf.size, savedBytes };
+};
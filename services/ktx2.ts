@@ -0,0 +1,52 @@
+import type { ImageDimensions } from './imageCodec';
+
+export const KTX2_MIME_TYPE = 'image/ktx2';
+
+const KTX2_IDENTIFIER = [0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a];
+
+export type Ktx2EncodeOptions = {
+  /** 0-1, mapped to the ETC1S quality level. */
+  quality: number;
+  /** Normal maps are encoded as linear UASTC; everything else as sRGB ETC1S. */
+  isNormalMap: boolean;
+};
+
+/**
+ * Reads pixelWidth/pixelHeight from a KTX2 file header, since browsers cannot decode KTX2 as an <img>.
+ */
+export const readKtx2Dimensions = (data: Uint8Array): ImageDimensions => {
+  if (data.byteLength < 28 || KTX2_IDENTIFIER.some((byte, i) => data[i] !== byte)) {
+    throw new Error('Invalid KTX2 image: Missing file identifier.');
+  }
+  const dataView = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  return { width: dataView.getUint32(20, true), height: dataView.getUint32(24, true) };
+};
+
+/**
+ * Transcodes a PNG/JPEG image into a Basis Universal KTX2 texture with mipmaps.
+ * The WASM encoder is loaded on first use.
+ */
+export const encodeKtx2 = async (imageData: Uint8Array, { quality, isNormalMap }: Ktx2EncodeOptions): Promise<Uint8Array> => {
+  const { encodeToKTX2 } = await import('ktx2-encoder');
+  return encodeToKTX2(
+    imageData,
+    isNormalMap
+      ? {
+          isUASTC: true,
+          isNormalMap: true,
+          isPerceptual: false,
+          isSetKTX2SRGBTransferFunc: false,
+          needSupercompression: true,
+          generateMipmap: true,
+          enableDebug: false,
+        }
+      : {
+          isUASTC: false,
+          isPerceptual: true,
+          isSetKTX2SRGBTransferFunc: true,
+          qualityLevel: Math.max(1, Math.round(quality * 255)),
+          generateMipmap: true,
+          enableDebug: false,
+        }
+  );
+};
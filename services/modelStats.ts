@@ -0,0 +1,136 @@
+import { KTX2_MIME_TYPE } from './ktx2';
+import { getVrm0MaterialProperties } from './gltfReferences';
+
+/** Image dimensions and format used to estimate the GPU memory of a texture. */
+export type StatsImage = {
+  index: number;
+  name: string;
+  width: number;
+  height: number;
+  mimeType: string;
+};
+
+export type TextureMemoryEntry = StatsImage & {
+  memoryBytes: number;
+};
+
+export type ModelStats = {
+  triangles: number;
+  vertices: number;
+  drawCalls: number;
+  meshes: number;
+  skinnedMeshes: number;
+  materials: number;
+  bones: number;
+  morphTargets: number;
+  textureMemoryBytes: number;
+  textures: TextureMemoryEntry[];
+};
+
+/** Stats of the file as loaded and with the pending edits applied. */
+export type ModelStatsComparison = {
+  original: ModelStats;
+  edited: ModelStats;
+};
+
+/** Stats measured from the scene three-vrm actually renders. */
+export type SceneStats = {
+  triangles: number;
+  drawCalls: number;
+  meshes: number;
+  skinnedMeshes: number;
+  materials: number;
+  bones: number;
+  textureMemoryBytes: number;
+};
+
+// Full mip chains add a third of the base level
+const MIPMAP_FACTOR = 4 / 3;
+const RGBA8_BYTES_PER_PIXEL = 4;
+// KTX2 transcodes to a block-compressed format (BC7 / ASTC 4x4 / ETC2) of at most one byte per pixel
+const COMPRESSED_BYTES_PER_PIXEL = 1;
+
+/**
+ * Estimates the GPU memory of a texture with mipmaps. PNG/JPEG/WebP/AVIF are decoded to RGBA8.
+ */
+export const estimateTextureMemory = (width: number, height: number, mimeType: string): number => {
+  const bytesPerPixel = mimeType === KTX2_MIME_TYPE ? COMPRESSED_BYTES_PER_PIXEL : RGBA8_BYTES_PER_PIXEL;
+  return Math.round(width * height * bytesPerPixel * MIPMAP_FACTOR);
+};
+
+const TRIANGLES = 4;
+const TRIANGLE_STRIP = 5;
+const TRIANGLE_FAN = 6;
+
+const getTriangleCount = (mode: number, elementCount: number): number => {
+  if (mode === TRIANGLES) return Math.floor(elementCount / 3);
+  if (mode === TRIANGLE_STRIP || mode === TRIANGLE_FAN) return Math.max(0, elementCount - 2);
+  return 0;
+};
+
+/**
+ * MToon outlines are drawn as a second pass of the same primitive.
+ */
+const hasOutline = (json: any, materialIndex: unknown): boolean => {
+  if (typeof materialIndex !== 'number') return false;
+  const material = json.materials?.[materialIndex];
+  const mtoon = material?.extensions?.VRMC_materials_mtoon;
+  if (mtoon) {
+    return (mtoon.outlineWidthMode ?? 'none') !== 'none';
+  }
+  const vrm0Properties = getVrm0MaterialProperties(json, materialIndex);
+  return (vrm0Properties?.floatProperties?._OutlineWidthMode ?? 0) > 0;
+};
+
+/**
+ * Counts what a renderer draws for the scene described by the glTF JSON: every node instancing a mesh
+ * contributes its primitives. images lists the textures uploaded to the GPU.
+ */
+export const getModelStats = (json: any, images: StatsImage[]): ModelStats => {
+  const accessors: any[] = json.accessors ?? [];
+  const meshes: any[] = json.meshes ?? [];
+  const materialIndices = new Set<number>();
+  const bones = new Set<number>();
+  const stats: ModelStats = {
+    triangles: 0,
+    vertices: 0,
+    drawCalls: 0,
+    meshes: 0,
+    skinnedMeshes: 0,
+    materials: 0,
+    bones: 0,
+    morphTargets: 0,
+    textureMemoryBytes: 0,
+    textures: [],
+  };
+
+  (json.nodes ?? []).forEach((node: any) => {
+    const mesh = meshes[node.mesh];
+    if (!mesh) return;
+
+    stats.meshes++;
+    if (typeof node.skin === 'number') stats.skinnedMeshes++;
+    stats.morphTargets += mesh.primitives?.[0]?.targets?.length ?? 0;
+
+    (mesh.primitives ?? []).forEach((primitive: any) => {
+      const vertexCount = accessors[primitive.attributes?.POSITION]?.count ?? 0;
+      const indexCount = accessors[primitive.indices]?.count;
+      const elementCount = typeof primitive.indices === 'number' ? indexCount ?? 0 : vertexCount;
+      stats.vertices += vertexCount;
+      stats.triangles += getTriangleCount(primitive.mode ?? TRIANGLES, elementCount);
+      stats.drawCalls += hasOutline(json, primitive.material) ? 2 : 1;
+      if (typeof primitive.material === 'number') materialIndices.add(primitive.material);
+    });
+  });
+
+  (json.skins ?? []).forEach((skin: any) => (skin.joints ?? []).forEach((joint: number) => bones.add(joint)));
+
+  stats.materials = materialIndices.size;
+  stats.bones = bones.size;
+  stats.textures = images.map(image => ({
+    ...image,
+    memoryBytes: estimateTextureMemory(image.width, image.height, image.mimeType),
+  }));
+  stats.textureMemoryBytes = stats.textures.reduce((total, texture) => total + texture.memoryBytes, 0);
+  return stats;
+};
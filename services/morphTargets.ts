@@ -0,0 +1,163 @@
+import {
+  forEachAccessorReference,
+  forEachBufferViewReference,
+  getReferencedIndices,
+  getVrm1Expressions,
+  removeBufferViews,
+  removeIndexedItems,
+} from './gltfReferences';
+
+export type MorphTargetReport = {
+  /** Removed morph target names (or "#index" when unnamed), per mesh. */
+  removed: { mesh: string; targets: string[] }[];
+  /** Meshes whose targets were kept because an animation drives their weights. */
+  animatedMeshes: string[];
+  /** Bytes removed from the BIN chunk, before padding. */
+  savedBytes: number;
+};
+
+const getMeshName = (json: any, meshIndex: number) => json.meshes[meshIndex]?.name || `#${meshIndex}`;
+
+/**
+ * Collects the morph target indices each mesh needs: those bound by VRM 0.x blend shape groups
+ * (by mesh) and VRM 1.0 expressions (by node).
+ */
+const getUsedMorphTargets = (json: any): Map<number, Set<number>> => {
+  const used = new Map<number, Set<number>>();
+  const use = (meshIndex: unknown, targetIndex: unknown) => {
+    if (typeof meshIndex !== 'number' || typeof targetIndex !== 'number') return;
+    used.set(meshIndex, (used.get(meshIndex) ?? new Set<number>()).add(targetIndex));
+  };
+
+  (json.extensions?.VRM?.blendShapeMaster?.blendShapeGroups ?? []).forEach((group: any) =>
+    (group.binds ?? []).forEach((bind: any) => use(bind.mesh, bind.index))
+  );
+  getVrm1Expressions(json).forEach((expression: any) =>
+    (expression.morphTargetBinds ?? []).forEach((bind: any) => use(json.nodes?.[bind.node]?.mesh, bind.index))
+  );
+  return used;
+};
+
+/** Meshes whose morph target weights are animated; their weight outputs index every target. */
+const getAnimatedMeshes = (json: any): Set<number> => {
+  const meshes = new Set<number>();
+  (json.animations ?? []).forEach((animation: any) =>
+    (animation.channels ?? []).forEach((channel: any) => {
+      const meshIndex = json.nodes?.[channel.target?.node]?.mesh;
+      if (channel.target?.path === 'weights' && typeof meshIndex === 'number') meshes.add(meshIndex);
+    })
+  );
+  return meshes;
+};
+
+const filterTargetNames = (holder: any, keep: (index: number) => boolean) => {
+  if (Array.isArray(holder?.extras?.targetNames)) {
+    holder.extras.targetNames = holder.extras.targetNames.filter((_: string, i: number) => keep(i));
+  }
+};
+
+/** Filters mesh or node weights, which must list one weight per morph target. */
+const filterWeights = (holder: any, keep: (index: number) => boolean) => {
+  if (!Array.isArray(holder.weights)) return;
+  holder.weights = holder.weights.filter((_: number, i: number) => keep(i));
+  if (holder.weights.length === 0) delete holder.weights;
+};
+
+const remapVrmBinds = (json: any, indexMaps: Map<number, Map<number, number>>) => {
+  (json.extensions?.VRM?.blendShapeMaster?.blendShapeGroups ?? []).forEach((group: any) =>
+    (group.binds ?? []).forEach((bind: any) => {
+      const index = indexMaps.get(bind.mesh)?.get(bind.index);
+      if (index !== undefined) bind.index = index;
+    })
+  );
+  getVrm1Expressions(json).forEach((expression: any) =>
+    (expression.morphTargetBinds ?? []).forEach((bind: any) => {
+      const index = indexMaps.get(json.nodes?.[bind.node]?.mesh)?.get(bind.index);
+      if (index !== undefined) bind.index = index;
+    })
+  );
+};
+
+/**
+ * Removes the accessors (and then bufferViews) among the candidates that nothing references anymore.
+ */
+const removeOrphanedAccessors = (json: any, bufferViewData: Uint8Array[], candidates: Set<number>): number => {
+  const referencedAccessors = getReferencedIndices(json, forEachAccessorReference);
+  const orphanedAccessors = new Set(Array.from(candidates).filter(index => !referencedAccessors.has(index)));
+  const removedAccessors = removeIndexedItems(json, 'accessors', forEachAccessorReference, orphanedAccessors);
+
+  const referencedBufferViews = getReferencedIndices(json, forEachBufferViewReference);
+  const orphanedBufferViews = new Set<number>(
+    removedAccessors
+      .flatMap(({ bufferView, sparse }) => [bufferView, sparse?.indices?.bufferView, sparse?.values?.bufferView])
+      .filter(index => typeof index === 'number' && !referencedBufferViews.has(index))
+  );
+  return removeBufferViews(json, bufferViewData, orphanedBufferViews);
+};
+
+/**
+ * Removes morph targets that no VRM blend shape group or expression binds, together with their
+ * mesh and node weights and extras.targetNames entries, re-indexes the remaining binds and drops the
+ * accessors and bufferViews that only the removed targets used. bufferViewData holds the bytes of
+ * each bufferView and is updated alongside json.bufferViews.
+ */
+export const removeUnusedMorphTargets = (json: any, bufferViewData: Uint8Array[]): MorphTargetReport => {
+  const used = getUsedMorphTargets(json);
+  const animated = getAnimatedMeshes(json);
+  const indexMaps = new Map<number, Map<number, number>>();
+  const freedAccessors = new Set<number>();
+  const report: MorphTargetReport = { removed: [], animatedMeshes: [], savedBytes: 0 };
+
+  (json.meshes ?? []).forEach((mesh: any, meshIndex: number) => {
+    const primitives: any[] = mesh.primitives ?? [];
+    const targetCount = Math.max(0, ...primitives.map(primitive => primitive.targets?.length ?? 0));
+    if (targetCount === 0) return;
+    if (animated.has(meshIndex)) {
+      report.animatedMeshes.push(getMeshName(json, meshIndex));
+      return;
+    }
+
+    const keptTargets = used.get(meshIndex) ?? new Set<number>();
+    const keep = (index: number) => keptTargets.has(index);
+    if (Array.from({ length: targetCount }, (_, i) => i).every(keep)) return;
+
+    const names: string[] = mesh.extras?.targetNames ?? primitives[0]?.extras?.targetNames ?? [];
+    const removedTargets: string[] = [];
+    const indexMap = new Map<number, number>();
+    for (let i = 0; i < targetCount; i++) {
+      if (keep(i)) indexMap.set(i, indexMap.size);
+      else removedTargets.push(names[i] || `#${i}`);
+    }
+    indexMaps.set(meshIndex, indexMap);
+    report.removed.push({ mesh: getMeshName(json, meshIndex), targets: removedTargets });
+
+    primitives.forEach(primitive => {
+      (primitive.targets ?? []).forEach((target: any, i: number) => {
+        if (!keep(i)) Object.values(target).forEach(index => freedAccessors.add(index as number));
+      });
+      primitive.targets = (primitive.targets ?? []).filter((_: any, i: number) => keep(i));
+      filterTargetNames(primitive, keep);
+      if (primitive.targets.length === 0) delete primitive.targets;
+    });
+    filterWeights(mesh, keep);
+    (json.nodes ?? []).forEach((node: any) => {
+      if (node.mesh === meshIndex) filterWeights(node, keep);
+    });
+    filterTargetNames(mesh, keep);
+  });
+
+  remapVrmBinds(json, indexMaps);
+  report.savedBytes = removeOrphanedAccessors(json, bufferViewData, freedAccessors);
+  return report;
+};
+
+/**
+ * Summarizes a report as e.g. "12 morph targets from 2 meshes", or an empty string if nothing was removed.
+ */
+export const formatMorphTargetSummary = (report: MorphTargetReport): string => {
+  const count = report.removed.reduce((total, mesh) => total + mesh.targets.length, 0);
+  if (count === 0) return '';
+  const meshCount = report.removed.length;
+  const targets = `${count} morph ${count === 1 ? 'target' : 'targets'}`;
+  return `${targets} from ${meshCount} ${meshCount === 1 ? 'mesh' : 'meshes'}`;
+};
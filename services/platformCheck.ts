@@ -0,0 +1,172 @@
+import type { PlatformProfile } from '../constants/platformProfiles';
+import { TEXTURE_SIZES } from '../constants/textureSizes';
+import type { VrmVersion } from '../types';
+import { formatBytes } from '../utils/format';
+
+/** The model as it would be exported with the pending edits. */
+export type PlatformCheckInput = {
+  fileSizeBytes: number;
+  textures: { index: number; name: string; width: number; height: number }[];
+  triangles: number;
+  materials: number;
+  extensions: string[];
+  /** Extensions that only appear because of pending texture format changes. */
+  formatExtensions: string[];
+  /** Version the model could still be converted to on export, or null. */
+  conversionTarget: VrmVersion | null;
+};
+
+export type PlatformFix =
+  | { type: 'resizeTextures'; size: number }
+  | { type: 'fitFileSize'; budgetMb: number }
+  | { type: 'revertTextureFormats' }
+  | { type: 'convertVersion'; to: VrmVersion };
+
+export type PlatformCheckId = 'fileSize' | 'textureSize' | 'triangles' | 'materials' | 'extensions';
+
+export type PlatformCheck = {
+  id: PlatformCheckId;
+  label: string;
+  passed: boolean;
+  actual: string;
+  limit: string;
+  /** What exceeds the limit, e.g. texture names. */
+  details: string[];
+  fix?: PlatformFix;
+};
+
+const VRM_VERSION_EXTENSIONS: Record<VrmVersion, string> = {
+  '0.x': 'VRM',
+  '1.0': 'VRMC_vrm',
+};
+
+const NUMERIC_LIMITS = ['maxFileSizeMb', 'maxTextureSize', 'maxTriangles', 'maxMaterials'] as const;
+
+/**
+ * Parses a user-defined profile. Throws if the JSON does not match PlatformProfile.
+ */
+export const parsePlatformProfile = (text: string): PlatformProfile => {
+  let value: any;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new Error('The profile is not valid JSON.');
+  }
+
+  if (typeof value !== 'object' || value === null || typeof value.name !== 'string' || !value.name.trim()) {
+    throw new Error('The profile needs a "name".');
+  }
+  NUMERIC_LIMITS.forEach(key => {
+    if (value[key] !== undefined && !(typeof value[key] === 'number' && value[key] > 0)) {
+      throw new Error(`"${key}" must be a positive number.`);
+    }
+  });
+  const { allowedExtensions } = value;
+  if (
+    allowedExtensions !== undefined &&
+    !(Array.isArray(allowedExtensions) && allowedExtensions.every((name: unknown) => typeof name === 'string'))
+  ) {
+    throw new Error('"allowedExtensions" must be a list of extension names.');
+  }
+
+  const profile: PlatformProfile = { id: `custom:${value.name}`, name: value.name };
+  NUMERIC_LIMITS.forEach(key => {
+    if (value[key] !== undefined) profile[key] = value[key];
+  });
+  if (allowedExtensions) profile.allowedExtensions = allowedExtensions;
+  return profile;
+};
+
+const getExtensionFix = (
+  profile: PlatformProfile,
+  input: PlatformCheckInput,
+  disallowed: string[]
+): PlatformFix | undefined => {
+  if (disallowed.some(name => input.formatExtensions.includes(name))) {
+    return { type: 'revertTextureFormats' };
+  }
+  const target = input.conversionTarget;
+  if (
+    target &&
+    disallowed.some(name => Object.values(VRM_VERSION_EXTENSIONS).includes(name)) &&
+    profile.allowedExtensions?.includes(VRM_VERSION_EXTENSIONS[target])
+  ) {
+    return { type: 'convertVersion', to: target };
+  }
+  return undefined;
+};
+
+/**
+ * Evaluates the model against every limit the profile defines, suggesting a fix the kit can apply where it has one.
+ */
+export const checkPlatformProfile = (profile: PlatformProfile, input: PlatformCheckInput): PlatformCheck[] => {
+  const checks: PlatformCheck[] = [];
+
+  if (profile.maxFileSizeMb !== undefined) {
+    const limitBytes = profile.maxFileSizeMb * 1024 * 1024;
+    const passed = input.fileSizeBytes <= limitBytes;
+    checks.push({
+      id: 'fileSize',
+      label: 'File size',
+      passed,
+      actual: formatBytes(input.fileSizeBytes),
+      limit: formatBytes(limitBytes),
+      details: [],
+      fix: passed ? undefined : { type: 'fitFileSize', budgetMb: profile.maxFileSizeMb },
+    });
+  }
+
+  if (profile.maxTextureSize !== undefined) {
+    const limit = profile.maxTextureSize;
+    const oversized = input.textures.filter(texture => Math.max(texture.width, texture.height) > limit);
+    const largest = Math.max(0, ...input.textures.map(texture => Math.max(texture.width, texture.height)));
+    const size = TEXTURE_SIZES.find(textureSize => textureSize <= limit);
+    checks.push({
+      id: 'textureSize',
+      label: 'Texture size',
+      passed: oversized.length === 0,
+      actual: `${largest} px`,
+      limit: `${limit} px`,
+      details: oversized.map(texture => `${texture.name} (${texture.width}x${texture.height})`),
+      fix: oversized.length > 0 && size ? { type: 'resizeTextures', size } : undefined,
+    });
+  }
+
+  if (profile.maxTriangles !== undefined) {
+    checks.push({
+      id: 'triangles',
+      label: 'Triangles',
+      passed: input.triangles <= profile.maxTriangles,
+      actual: input.triangles.toLocaleString(),
+      limit: profile.maxTriangles.toLocaleString(),
+      details: [],
+    });
+  }
+
+  if (profile.maxMaterials !== undefined) {
+    checks.push({
+      id: 'materials',
+      label: 'Materials',
+      passed: input.materials <= profile.maxMaterials,
+      actual: input.materials.toLocaleString(),
+      limit: profile.maxMaterials.toLocaleString(),
+      details: [],
+    });
+  }
+
+  if (profile.allowedExtensions !== undefined) {
+    const allowed = new Set(profile.allowedExtensions);
+    const disallowed = input.extensions.filter(name => !allowed.has(name));
+    checks.push({
+      id: 'extensions',
+      label: 'Extensions',
+      passed: disallowed.length === 0,
+      actual: `${input.extensions.length} used`,
+      limit: `${allowed.size} allowed`,
+      details: disallowed,
+      fix: disallowed.length > 0 ? getExtensionFix(profile, input, disallowed) : undefined,
+    });
+  }
+
+  return checks;
+};
@@ -0,0 +1,72 @@
+import type { PixelBuffer } from './resample';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+  const chunk = new Uint8Array(12 + data.byteLength);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.byteLength);
+  chunk.set(Array.from(type, char => char.charCodeAt(0)), 4);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.byteLength, crc32(chunk.subarray(4, 8 + data.byteLength)));
+  return chunk;
+};
+
+/** Compresses with zlib framing, which CompressionStream calls "deflate". */
+const deflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Encodes unpremultiplied RGBA pixels as an 8-bit RGBA PNG. Unlike canvas encoding, which stores
+ * pixels premultiplied, this keeps the color of low-alpha texels exactly.
+ */
+export const encodePng = async ({ data, width, height }: PixelBuffer): Promise<ArrayBuffer> => {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header.set([8, 6, 0, 0, 0], 8); // 8-bit RGBA, deflate, adaptive filtering, no interlace
+
+  // Each row gets the Sub filter, which shrinks smooth gradients at little cost
+  const rowLength = width * 4;
+  const filtered = new Uint8Array((rowLength + 1) * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * rowLength;
+    const out = y * (rowLength + 1);
+    filtered[out] = 1;
+    for (let i = 0; i < rowLength; i++) {
+      filtered[out + 1 + i] = data[row + i] - (i >= 4 ? data[row + i - 4] : 0);
+    }
+  }
+
+  const chunks = [
+    Uint8Array.from(PNG_SIGNATURE),
+    createChunk('IHDR', header),
+    createChunk('IDAT', await deflate(filtered)),
+    createChunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.byteLength, 0));
+  chunks.reduce((offset, chunk) => {
+    png.set(chunk, offset);
+    return offset + chunk.byteLength;
+  }, 0);
+  return png.buffer;
+};
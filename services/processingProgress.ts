@@ -0,0 +1,29 @@
+export type TextureJobStatus = 'queued' | 'processing' | 'done' | 'reused';
+
+export type TextureJobProgress = {
+  index: number;
+  name: string;
+  status: TextureJobStatus;
+};
+
+export type ProcessingProgress = {
+  jobs: TextureJobProgress[];
+  /** Date.now() when processing started. */
+  startedAt: number;
+};
+
+export const countFinishedJobs = (jobs: TextureJobProgress[]): number =>
+  jobs.filter(job => job.status === 'done' || job.status === 'reused').length;
+
+/**
+ * Estimates the seconds left from the average time of the textures processed so far, which accounts
+ * for parallel workers. Reused results take no time and are left out. Returns null until one finishes.
+ */
+export const estimateRemainingSeconds = ({ jobs, startedAt }: ProcessingProgress, now = Date.now()): number | null => {
+  const processed = jobs.filter(job => job.status === 'done').length;
+  const remaining = jobs.filter(job => job.status === 'queued' || job.status === 'processing').length;
+  if (processed === 0 || remaining === 0) {
+    return null;
+  }
+  return ((now - startedAt) / processed) * remaining / 1000;
+};
@@ -0,0 +1,118 @@
+import {
+  forEachAccessorReference,
+  forEachBufferViewReference,
+  forEachImageReference,
+  forEachMaterialReference,
+  forEachPrimitiveMaterialReference,
+  forEachSamplerReference,
+  forEachTextureReference,
+  getReferencedIndices,
+  getVrm1Expressions,
+  removeBufferViews,
+  removeIndexedItems,
+  type ForEachReference,
+} from './gltfReferences';
+
+export type PrunableKind = 'materials' | 'textures' | 'images' | 'samplers' | 'accessors' | 'bufferViews';
+
+export type PruneReport = {
+  /** Names (or "#index" when unnamed) of the removed objects, per kind. */
+  removed: Record<PrunableKind, string[]>;
+  /** Bytes removed from the BIN chunk, before padding. */
+  savedBytes: number;
+};
+
+export const PRUNABLE_KIND_LABELS: Record<PrunableKind, string> = {
+  materials: 'materials',
+  textures: 'textures',
+  images: 'images',
+  samplers: 'samplers',
+  accessors: 'accessors',
+  bufferViews: 'buffer views',
+};
+
+const getUnreferenced = (json: any, arrayKey: string, forEachReference: ForEachReference): Set<number> => {
+  const referenced = getReferencedIndices(json, forEachReference);
+  const unreferenced = new Set<number>();
+  (json[arrayKey] ?? []).forEach((_: any, i: number) => {
+    if (!referenced.has(i)) unreferenced.add(i);
+  });
+  return unreferenced;
+};
+
+const describeItems = (items: any[], indices: Set<number>): string[] =>
+  Array.from(indices).map(i => items[i]?.name || `#${i}`);
+
+/**
+ * Drops VRM data attached to materials that are about to be removed: VRM 0.x materialProperties
+ * and blend shape material values (both matched by material name) and VRM 1.0 expression binds.
+ */
+const removeVrmMaterialData = (json: any, removedMaterials: Set<number>) => {
+  const materials: any[] = json.materials ?? [];
+  const keptNames = new Set(materials.filter((_, i) => !removedMaterials.has(i)).map(material => material.name));
+  const removedNames = new Set(
+    materials
+      .filter((_, i) => removedMaterials.has(i))
+      .map(material => material.name)
+      .filter(name => !keptNames.has(name))
+  );
+
+  const vrm0 = json.extensions?.VRM;
+  if (vrm0?.materialProperties) {
+    vrm0.materialProperties = vrm0.materialProperties.filter((properties: any) => !removedNames.has(properties.name));
+  }
+  (vrm0?.blendShapeMaster?.blendShapeGroups ?? []).forEach((group: any) => {
+    if (group.materialValues) {
+      group.materialValues = group.materialValues.filter((value: any) => !removedNames.has(value.materialName));
+    }
+  });
+
+  getVrm1Expressions(json).forEach((expression: any) => {
+    ['materialColorBinds', 'textureTransformBinds'].forEach(key => {
+      if (expression[key]) {
+        expression[key] = expression[key].filter((bind: any) => !removedMaterials.has(bind.material));
+      }
+    });
+  });
+};
+
+/**
+ * Removes objects nothing references anymore, walking from meshes, skins, animations and the
+ * VRM extensions down to bufferViews, and re-indexes every reference to the remaining ones.
+ * Nodes, meshes and skins are kept as-is. bufferViewData holds the bytes of each bufferView
+ * and is updated alongside json.bufferViews.
+ */
+export const pruneUnusedObjects = (json: any, bufferViewData: Uint8Array[]): PruneReport => {
+  const removed = {} as Record<PrunableKind, string[]>;
+
+  // Materials only live on through primitives; expression binds alone don't keep them
+  const unusedMaterials = getUnreferenced(json, 'materials', forEachPrimitiveMaterialReference);
+  removed.materials = describeItems(json.materials ?? [], unusedMaterials);
+  removeVrmMaterialData(json, unusedMaterials);
+  removeIndexedItems(json, 'materials', forEachMaterialReference, unusedMaterials);
+
+  const prune = (kind: Exclude<PrunableKind, 'materials' | 'bufferViews'>, forEachReference: ForEachReference) => {
+    const unused = getUnreferenced(json, kind, forEachReference);
+    removed[kind] = describeItems(json[kind] ?? [], unused);
+    removeIndexedItems(json, kind, forEachReference, unused);
+  };
+  prune('textures', forEachTextureReference);
+  prune('images', forEachImageReference);
+  prune('samplers', forEachSamplerReference);
+  prune('accessors', forEachAccessorReference);
+
+  const unusedBufferViews = getUnreferenced(json, 'bufferViews', forEachBufferViewReference);
+  removed.bufferViews = describeItems(json.bufferViews ?? [], unusedBufferViews);
+  const savedBytes = removeBufferViews(json, bufferViewData, unusedBufferViews);
+
+  return { removed, savedBytes };
+};
+
+/**
+ * Summarizes a report as e.g. "2 materials, 3 textures", or an empty string if nothing was removed.
+ */
+export const formatPruneSummary = (report: PruneReport): string =>
+  (Object.keys(report.removed) as PrunableKind[])
+    .filter(kind => report.removed[kind].length > 0)
+    .map(kind => `${report.removed[kind].length} ${PRUNABLE_KIND_LABELS[kind]}`)
+    .join(', ');
@@ -0,0 +1,281 @@
+import type { ImageDimensions } from './imageCodec';
+
+export type ResampleFilter = 'box' | 'bilinearMip' | 'lanczos';
+
+/**
+ * How texel values are treated while filtering:
+ * - color: sRGB color, averaged in linear light with premultiplied alpha
+ * - data: non-color values such as roughness or masks, averaged as stored
+ * - normal: tangent-space normals, renormalized after filtering
+ */
+export type ResampleContent = 'color' | 'data' | 'normal';
+
+export type ResampleOptions = {
+  filter: ResampleFilter;
+  content: ResampleContent;
+  /** Alpha test threshold (0-1) of the cutout material using the texture, or null if it is not alpha tested. */
+  alphaCutoff: number | null;
+};
+
+export const DEFAULT_RESAMPLE_OPTIONS: ResampleOptions = { filter: 'lanczos', content: 'color', alphaCutoff: null };
+
+/** Unpremultiplied 8-bit RGBA pixels, as in ImageData. */
+export type PixelBuffer = ImageDimensions & { data: Uint8ClampedArray };
+
+export type ResampleRequest = {
+  source: PixelBuffer;
+  target: ImageDimensions;
+  /** Area of the target the source is scaled into; the rest stays transparent. */
+  drawRect: ImageDimensions & { x: number; y: number };
+  options: ResampleOptions;
+};
+
+type FloatImage = ImageDimensions & { data: Float32Array };
+
+type Kernel = { support: number; weight: (t: number) => number };
+
+const sinc = (x: number) => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+
+const KERNELS: Record<'box' | 'triangle' | 'lanczos', Kernel> = {
+  box: { support: 0.5, weight: t => (t >= -0.5 && t < 0.5 ? 1 : 0) },
+  triangle: { support: 1, weight: t => Math.max(0, 1 - Math.abs(t)) },
+  lanczos: { support: 3, weight: t => (Math.abs(t) < 3 ? sinc(t) * sinc(t / 3) : 0) },
+};
+
+const SRGB_TO_LINEAR = Float32Array.from({ length: 256 }, (_, value) => {
+  const c = value / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+});
+
+const linearToSrgb = (value: number) =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * value ** (1 / 2.4) - 0.055;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+type Contribution = { indices: Int32Array; weights: Float32Array };
+
+/**
+ * Precomputes, for each destination pixel along one axis, the source pixels the kernel covers and their
+ * normalized weights. The kernel widens with the reduction ratio so every source pixel contributes, and
+ * indices are clamped at the edges since texture atlases rarely tile.
+ */
+const getContributions = (sourceSize: number, destinationSize: number, kernel: Kernel): Contribution[] => {
+  const scale = sourceSize / destinationSize;
+  const filterScale = Math.max(1, scale);
+  const radius = kernel.support * filterScale;
+
+  return Array.from({ length: destinationSize }, (_, index) => {
+    const center = (index + 0.5) * scale;
+    const indices: number[] = [];
+    const weights: number[] = [];
+    for (let sourceIndex = Math.floor(center - radius); sourceIndex <= Math.ceil(center + radius); sourceIndex++) {
+      const weight = kernel.weight((sourceIndex + 0.5 - center) / filterScale);
+      if (weight !== 0) {
+        indices.push(Math.min(sourceSize - 1, Math.max(0, sourceIndex)));
+        weights.push(weight);
+      }
+    }
+    if (weights.length === 0) {
+      indices.push(Math.min(sourceSize - 1, Math.floor(center)));
+      weights.push(1);
+    }
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    return { indices: Int32Array.from(indices), weights: Float32Array.from(weights, weight => weight / total) };
+  });
+};
+
+/** Reads one row of source texels as four floats per pixel. */
+type RowReader = ImageDimensions & { readRow: (y: number, row: Float32Array) => void };
+
+/**
+ * Decodes 8-bit pixels row by row so large sources never need a full float copy. Color is converted to
+ * linear light and premultiplied so transparent texels do not bleed into their neighbors.
+ */
+const createPixelReader = ({ data, width, height }: PixelBuffer, content: ResampleContent): RowReader => ({
+  width,
+  height,
+  readRow: (y, row) => {
+    const offset = y * width * 4;
+    for (let i = 0; i < width * 4; i += 4) {
+      const alpha = data[offset + i + 3] / 255;
+      for (let channel = 0; channel < 3; channel++) {
+        const value = data[offset + i + channel];
+        row[i + channel] =
+          content === 'color' ? SRGB_TO_LINEAR[value] * alpha
+          : content === 'normal' ? (value / 255) * 2 - 1
+          : value / 255;
+      }
+      row[i + 3] = alpha;
+    }
+  },
+});
+
+const createFloatReader = (image: FloatImage): RowReader => ({
+  width: image.width,
+  height: image.height,
+  readRow: (y, row) => row.set(image.data.subarray(y * image.width * 4, (y + 1) * image.width * 4)),
+});
+
+const resampleRows = (source: RowReader, width: number, kernel: Kernel): FloatImage => {
+  const contributions = getContributions(source.width, width, kernel);
+  const data = new Float32Array(width * source.height * 4);
+  const row = new Float32Array(source.width * 4);
+
+  for (let y = 0; y < source.height; y++) {
+    source.readRow(y, row);
+    const offset = y * width * 4;
+    contributions.forEach(({ indices, weights }, x) => {
+      let r = 0, g = 0, b = 0, a = 0;
+      for (let tap = 0; tap < indices.length; tap++) {
+        const i = indices[tap] * 4;
+        const weight = weights[tap];
+        r += row[i] * weight;
+        g += row[i + 1] * weight;
+        b += row[i + 2] * weight;
+        a += row[i + 3] * weight;
+      }
+      const i = offset + x * 4;
+      data[i] = r;
+      data[i + 1] = g;
+      data[i + 2] = b;
+      data[i + 3] = a;
+    });
+  }
+  return { data, width, height: source.height };
+};
+
+const resampleColumns = (source: FloatImage, height: number, kernel: Kernel): FloatImage => {
+  const rowLength = source.width * 4;
+  const data = new Float32Array(rowLength * height);
+
+  getContributions(source.height, height, kernel).forEach(({ indices, weights }, y) => {
+    const row = data.subarray(y * rowLength, (y + 1) * rowLength);
+    for (let tap = 0; tap < indices.length; tap++) {
+      const sourceRow = source.data.subarray(indices[tap] * rowLength, (indices[tap] + 1) * rowLength);
+      const weight = weights[tap];
+      for (let i = 0; i < rowLength; i++) {
+        row[i] += sourceRow[i] * weight;
+      }
+    }
+  });
+  return { data, width: source.width, height };
+};
+
+const resampleImageData = (source: RowReader, width: number, height: number, kernel: Kernel): FloatImage =>
+  resampleColumns(resampleRows(source, width, kernel), height, kernel);
+
+/**
+ * Filters down to the target size. Bilinear-mip halves the image with a box filter until it is within
+ * 2x of the target, like a mip chain, and finishes with a bilinear (tent) pass.
+ */
+const filterImage = (source: RowReader, width: number, height: number, filter: ResampleFilter): FloatImage => {
+  if (filter !== 'bilinearMip') {
+    return resampleImageData(source, width, height, KERNELS[filter]);
+  }
+
+  let reader = source;
+  for (;;) {
+    const nextWidth = reader.width >= width * 2 ? Math.floor(reader.width / 2) : reader.width;
+    const nextHeight = reader.height >= height * 2 ? Math.floor(reader.height / 2) : reader.height;
+    if (nextWidth === reader.width && nextHeight === reader.height) {
+      break;
+    }
+    reader = createFloatReader(resampleImageData(reader, nextWidth, nextHeight, KERNELS.box));
+  }
+  return resampleImageData(reader, width, height, KERNELS.triangle);
+};
+
+const getAlphaCoverage = (image: FloatImage, cutoff: number, scale: number) => {
+  const count = image.width * image.height;
+  let covered = 0;
+  for (let i = 3; i < count * 4; i += 4) {
+    if (image.data[i] * scale >= cutoff) covered++;
+  }
+  return covered / count;
+};
+
+/**
+ * Scales the filtered alpha so the share of texels passing the alpha test matches the source. Without
+ * this, averaging thins out hair and foliage cutouts at every reduction.
+ */
+const preserveAlphaCoverage = (image: FloatImage, source: PixelBuffer, cutoff: number) => {
+  let sourceCovered = 0;
+  for (let i = 3; i < source.data.length; i += 4) {
+    if (source.data[i] >= cutoff * 255) sourceCovered++;
+  }
+  const sourceCoverage = sourceCovered / (source.width * source.height);
+
+  let low = 0;
+  let high = 64;
+  for (let iteration = 0; iteration < 16; iteration++) {
+    const scale = (low + high) / 2;
+    if (getAlphaCoverage(image, cutoff, scale) < sourceCoverage) {
+      low = scale;
+    } else {
+      high = scale;
+    }
+  }
+  // Coverage changes in steps, so take whichever bound lands closer
+  const lowError = Math.abs(getAlphaCoverage(image, cutoff, low) - sourceCoverage);
+  const highError = Math.abs(getAlphaCoverage(image, cutoff, high) - sourceCoverage);
+  const scale = lowError < highError ? low : high;
+  for (let i = 3; i < image.data.length; i += 4) {
+    image.data[i] = Math.min(1, image.data[i] * scale);
+  }
+};
+
+/**
+ * Converts filtered texels back to stored values in place: color is unpremultiplied, normals are
+ * renormalized, and everything is clamped since Lanczos overshoots around edges.
+ */
+const finishTexels = ({ data }: FloatImage, content: ResampleContent) => {
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = clamp01(data[i + 3]);
+    data[i + 3] = alpha;
+
+    if (content === 'normal') {
+      const length = Math.hypot(data[i], data[i + 1], data[i + 2]);
+      if (length > 1e-6) {
+        data[i] /= length;
+        data[i + 1] /= length;
+        data[i + 2] /= length;
+      } else {
+        data.set([0, 0, 1], i);
+      }
+    } else {
+      for (let channel = 0; channel < 3; channel++) {
+        const value = content === 'color' ? (alpha > 0 ? data[i + channel] / alpha : 0) : data[i + channel];
+        data[i + channel] = clamp01(value);
+      }
+    }
+  }
+};
+
+const encodeChannel = (value: number, content: ResampleContent) =>
+  content === 'color' ? linearToSrgb(value) * 255 : content === 'normal' ? (value + 1) * 127.5 : value * 255;
+
+/**
+ * Resamples source into drawRect of a transparent target image using the filter and texel handling in
+ * options. Works on plain pixel buffers so it can run in a worker.
+ */
+export const resampleImage = ({ source, target, drawRect, options }: ResampleRequest): PixelBuffer => {
+  const { content, alphaCutoff } = options;
+  const filtered = filterImage(createPixelReader(source, content), drawRect.width, drawRect.height, options.filter);
+  finishTexels(filtered, content);
+  if (alphaCutoff !== null && alphaCutoff > 0 && alphaCutoff < 1 && content !== 'normal') {
+    preserveAlphaCoverage(filtered, source, alphaCutoff);
+  }
+
+  const data = new Uint8ClampedArray(target.width * target.height * 4);
+  for (let y = 0; y < drawRect.height; y++) {
+    for (let x = 0; x < drawRect.width; x++) {
+      const from = (y * drawRect.width + x) * 4;
+      const to = ((drawRect.y + y) * target.width + drawRect.x + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        data[to + channel] = encodeChannel(filtered.data[from + channel], content);
+      }
+      data[to + 3] = filtered.data[from + 3] * 255;
+    }
+  }
+  return { data, width: target.width, height: target.height };
+};
@@ -0,0 +1,260 @@
+import { COMPONENT_SIZES, TYPE_COMPONENT_COUNTS } from '../constants/gltf';
+import { getFallbackMimeType, TEXTURE_FORMAT_EXTENSIONS } from '../constants/textureFormats';
+import { KTX2_MIME_TYPE } from './ktx2';
+import { getTargetDimensions, type ResizeSpec } from './imageCodec';
+import { estimateRebuiltGlbSize } from './vrmService';
+
+export type SizeCategory = 'texture' | 'geometry' | 'morphTargets' | 'skin' | 'animation' | 'json' | 'other';
+
+export const SIZE_CATEGORY_LABELS: Record<SizeCategory, string> = {
+  texture: 'Textures',
+  geometry: 'Vertex data',
+  morphTargets: 'Morph targets',
+  skin: 'Skin data',
+  animation: 'Animations',
+  json: 'JSON',
+  other: 'Other',
+};
+
+export type SizeBreakdownEntry = {
+  key: string;
+  label: string;
+  category: SizeCategory;
+  byteLength: number;
+  /** Size after the pending texture resizes, replacements and format changes are applied. */
+  projectedByteLength: number;
+};
+
+export type SizeBreakdown = {
+  entries: SizeBreakdownEntry[];
+  totalBytes: number;
+  projectedTotalBytes: number;
+};
+
+type Owner = { key: string; label: string; category: SizeCategory };
+
+const getAccessorByteLength = (accessor: any): number =>
+  (accessor.count ?? 0) *
+  (COMPONENT_SIZES[accessor.componentType] ?? 0) *
+  (TYPE_COMPONENT_COUNTS[accessor.type] ?? 0);
+
+/**
+ * Finds which mesh, skin or animation each accessor belongs to. The first owner wins for shared accessors.
+ */
+const getAccessorOwners = (json: any): Map<number, Owner> => {
+  const owners = new Map<number, Owner>();
+  const claim = (accessorIndex: unknown, owner: Owner) => {
+    if (typeof accessorIndex === 'number' && !owners.has(accessorIndex)) {
+      owners.set(accessorIndex, owner);
+    }
+  };
+  const skin: Owner = { key: 'skin', label: 'Skin data', category: 'skin' };
+
+  (json.meshes ?? []).forEach((mesh: any, meshIndex: number) => {
+    const meshName = mesh.name || `Mesh ${meshIndex}`;
+    const geometry: Owner = { key: `mesh:${meshIndex}`, label: meshName, category: 'geometry' };
+    const morphTargets: Owner = {
+      key: `morph:${meshIndex}`,
+      label: `${meshName} morph targets`,
+      category: 'morphTargets',
+    };
+    (mesh.primitives ?? []).forEach((primitive: any) => {
+      Object.entries(primitive.attributes ?? {}).forEach(([semantic, accessorIndex]) => {
+        claim(accessorIndex, /^(JOINTS|WEIGHTS)_/.test(semantic) ? skin : geometry);
+      });
+      claim(primitive.indices, geometry);
+      (primitive.targets ?? []).forEach((target: any) => {
+        Object.values(target).forEach(accessorIndex => claim(accessorIndex, morphTargets));
+      });
+    });
+  });
+  (json.skins ?? []).forEach((s: any) => claim(s.inverseBindMatrices, skin));
+
+  const animation: Owner = { key: 'animation', label: 'Animations', category: 'animation' };
+  (json.animations ?? []).forEach((a: any) =>
+    (a.samplers ?? []).forEach((sampler: any) => {
+      claim(sampler.input, animation);
+      claim(sampler.output, animation);
+    })
+  );
+  return owners;
+};
+
+const getImageName = (json: any, imageIndex: number): string =>
+  json.textures?.find((t: any) => t.source === imageIndex)?.name ||
+  json.images[imageIndex].name ||
+  `Texture ${imageIndex}`;
+
+/**
+ * Typical encoded bytes per pixel of each format at the default quality, used to scale a texture's
+ * size when it is re-encoded into another format. KTX2 includes its mip chain: ETC1S for color,
+ * UASTC for normal maps.
+ */
+const TYPICAL_BYTES_PER_PIXEL: Record<string, number> = {
+  'image/png': 1.5,
+  'image/jpeg': 0.3,
+  'image/webp': 0.2,
+  'image/avif': 0.12,
+};
+const KTX2_BYTES_PER_PIXEL = { color: 0.2, normal: 1.3 };
+
+export type ProjectedImageSize = {
+  byteLength: number;
+  /** Size of the PNG/JPEG copy kept next to a WebP, AVIF or KTX2 image. */
+  fallbackByteLength?: number;
+};
+
+export type ProjectedImageOptions = {
+  /** null keeps the image's dimensions. */
+  resize: ResizeSpec | null;
+  /** Format the image is re-encoded to; defaults to its own. */
+  mimeType?: string;
+  /** Whether a PNG/JPEG copy is kept next to WebP, AVIF and KTX2 images. */
+  keepFallback?: boolean;
+  isNormalMap?: boolean;
+};
+
+const estimateEncodedByteLength = (
+  image: { byteLength: number; width: number; height: number; mimeType: string },
+  resize: ResizeSpec | null,
+  mimeType: string,
+  isNormalMap: boolean
+): number => {
+  const { byteLength, width, height } = image;
+  if (width === 0 || height === 0) return byteLength;
+  const resized = resize ? getTargetDimensions(width, height, resize) : { width, height };
+  const pixelRatio = (resized.width * resized.height) / (width * height);
+  if (mimeType === image.mimeType) {
+    // Bytes per pixel stay about the same when only the size changes
+    return Math.round(byteLength * pixelRatio);
+  }
+  if (mimeType === KTX2_MIME_TYPE) {
+    const bytesPerPixel = isNormalMap ? KTX2_BYTES_PER_PIXEL.normal : KTX2_BYTES_PER_PIXEL.color;
+    return Math.round(resized.width * resized.height * bytesPerPixel);
+  }
+  const sourceBytesPerPixel = TYPICAL_BYTES_PER_PIXEL[image.mimeType];
+  const targetBytesPerPixel = TYPICAL_BYTES_PER_PIXEL[mimeType];
+  const formatRatio = sourceBytesPerPixel && targetBytesPerPixel ? targetBytesPerPixel / sourceBytesPerPixel : 1;
+  return Math.round(byteLength * pixelRatio * formatRatio);
+};
+
+/**
+ * Estimates the encoded size of an image after a pending resize and format change, plus the fallback
+ * copy kept for WebP, AVIF and KTX2. Re-encoding is estimated from typical bytes per pixel.
+ */
+export const estimateProjectedImageSize = (
+  image: { byteLength: number; width: number; height: number; mimeType: string },
+  { resize, mimeType = image.mimeType, keepFallback = false, isNormalMap = false }: ProjectedImageOptions
+): ProjectedImageSize => {
+  const byteLength = estimateEncodedByteLength(image, resize, mimeType, isNormalMap);
+  if (!keepFallback || !TEXTURE_FORMAT_EXTENSIONS[mimeType]) {
+    return { byteLength };
+  }
+  const fallbackMimeType = getFallbackMimeType(image.mimeType);
+  return { byteLength, fallbackByteLength: estimateEncodedByteLength(image, resize, fallbackMimeType, isNormalMap) };
+};
+
+/** Collects the fallback sizes of a projection, keyed by image index, for estimateRebuiltGlbSize. */
+const getFallbackByteLengths = (projectedImages: Map<number, ProjectedImageSize>): Map<number, number> => {
+  const fallbackByteLengths = new Map<number, number>();
+  projectedImages.forEach(({ fallbackByteLength }, imageIndex) => {
+    if (fallbackByteLength !== undefined) fallbackByteLengths.set(imageIndex, fallbackByteLength);
+  });
+  return fallbackByteLengths;
+};
+
+/**
+ * Breaks a GLB down into textures, per-mesh vertex data, morph targets, skin data, animations and the JSON chunk.
+ * Buffer views shared by several owners (e.g. interleaved attributes) are split in proportion to their accessors.
+ * projectedImages maps image indices to their size after pending resizes, replacements and format changes.
+ */
+export const getSizeBreakdown = (json: any, projectedImages: Map<number, ProjectedImageSize>): SizeBreakdown => {
+  const entries = new Map<string, SizeBreakdownEntry>();
+  const add = (owner: Owner, byteLength: number, projectedByteLength = byteLength) => {
+    const entry = entries.get(owner.key) ?? { ...owner, byteLength: 0, projectedByteLength: 0 };
+    entry.byteLength += byteLength;
+    entry.projectedByteLength += projectedByteLength;
+    entries.set(owner.key, entry);
+  };
+  const other: Owner = { key: 'other', label: 'Other buffer data', category: 'other' };
+
+  const bufferViews: any[] = json.bufferViews ?? [];
+  const imageByBufferView = new Map<number, number>();
+  (json.images ?? []).forEach((image: any, imageIndex: number) => {
+    if (typeof image.bufferView === 'number' && !imageByBufferView.has(image.bufferView)) {
+      imageByBufferView.set(image.bufferView, imageIndex);
+    }
+  });
+
+  const accessorOwners = getAccessorOwners(json);
+  const shares = new Map<number, Map<Owner, number>>();
+  const addShare = (bufferViewIndex: unknown, owner: Owner, weight: number) => {
+    if (typeof bufferViewIndex !== 'number') return;
+    const viewShares = shares.get(bufferViewIndex) ?? new Map<Owner, number>();
+    viewShares.set(owner, (viewShares.get(owner) ?? 0) + weight);
+    shares.set(bufferViewIndex, viewShares);
+  };
+  (json.accessors ?? []).forEach((accessor: any, accessorIndex: number) => {
+    const owner = accessorOwners.get(accessorIndex) ?? other;
+    addShare(accessor.bufferView, owner, getAccessorByteLength(accessor));
+    if (accessor.sparse) {
+      const { count, indices, values } = accessor.sparse;
+      addShare(indices?.bufferView, owner, count * (COMPONENT_SIZES[indices?.componentType] ?? 0));
+      addShare(values?.bufferView, owner, getAccessorByteLength({ ...accessor, count }));
+    }
+  });
+
+  bufferViews.forEach((bufferView, bufferViewIndex) => {
+    const imageIndex = imageByBufferView.get(bufferViewIndex);
+    if (imageIndex !== undefined) {
+      const owner: Owner = { key: `texture:${imageIndex}`, label: getImageName(json, imageIndex), category: 'texture' };
+      const projected = projectedImages.get(imageIndex);
+      add(
+        owner,
+        bufferView.byteLength,
+        projected ? projected.byteLength + (projected.fallbackByteLength ?? 0) : bufferView.byteLength
+      );
+      return;
+    }
+
+    const viewShares = Array.from(shares.get(bufferViewIndex) ?? []);
+    const totalWeight = viewShares.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight === 0) {
+      add(other, bufferView.byteLength);
+      return;
+    }
+    let remaining = bufferView.byteLength;
+    viewShares.forEach(([owner, weight], i) => {
+      const byteLength =
+        i === viewShares.length - 1 ? remaining : Math.round((bufferView.byteLength * weight) / totalWeight);
+      remaining -= byteLength;
+      add(owner, byteLength);
+    });
+  });
+
+  const jsonByteLength = new TextEncoder().encode(JSON.stringify(json)).byteLength;
+  add({ key: 'json', label: 'JSON chunk', category: 'json' }, jsonByteLength);
+
+  // GLB and chunk headers plus alignment padding make up the rest of the file
+  const totalBytes = estimateRebuiltGlbSize(json, new Map());
+  const projectedTotalBytes = estimateRebuiltGlbSize(
+    json,
+    new Map(Array.from(projectedImages, ([imageIndex, { byteLength }]) => [imageIndex, byteLength])),
+    getFallbackByteLengths(projectedImages)
+  );
+  const sum = (key: 'byteLength' | 'projectedByteLength') =>
+    Array.from(entries.values()).reduce((total, entry) => total + entry[key], 0);
+  add(
+    { key: 'overhead', label: 'Headers and padding', category: 'other' },
+    Math.max(0, totalBytes - sum('byteLength')),
+    Math.max(0, projectedTotalBytes - sum('projectedByteLength'))
+  );
+
+  return {
+    entries: Array.from(entries.values())
+      .filter(entry => entry.byteLength > 0 || entry.projectedByteLength > 0)
+      .sort((a, b) => b.projectedByteLength - a.projectedByteLength),
+    totalBytes,
+    projectedTotalBytes,
+  };
+};
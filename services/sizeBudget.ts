@@ -0,0 +1,124 @@
+import { TEXTURE_SIZES } from '../constants/textureSizes';
+import { estimateRebuiltGlbSize } from './vrmService';
+import { getResizedDimensions } from './imageCodec';
+
+export type SizeBudgetTexture = {
+  index: number;
+  name: string;
+  width: number;
+  height: number;
+  /** Size in the texture's output format, which may differ from the embedded one. */
+  byteLength: number;
+  /** Size of the PNG/JPEG copy kept next to a WebP, AVIF or KTX2 texture. */
+  fallbackByteLength?: number;
+  /** 0-1; less important textures are shrunk first. Defaults to 1. */
+  importance?: number;
+  /** Replaced textures are kept as uploaded and never resized by the planner. */
+  isLocked?: boolean;
+};
+
+export type SizeBudgetPlanEntry = {
+  index: number;
+  name: string;
+  originalWidth: number;
+  originalHeight: number;
+  originalByteLength: number;
+  size: number;
+  width: number;
+  height: number;
+  byteLength: number;
+  fallbackByteLength?: number;
+};
+
+export type SizeBudgetPlan = {
+  budgetBytes: number;
+  originalBytes: number;
+  estimatedBytes: number;
+  fits: boolean;
+  entries: SizeBudgetPlanEntry[];
+};
+
+/**
+ * Returns the encoded byte length of a texture resized to the given max dimension.
+ */
+export type MeasureResizedTexture = (textureIndex: number, size: number) => Promise<number>;
+
+const MIN_TEXTURE_SIZE = TEXTURE_SIZES[TEXTURE_SIZES.length - 1];
+
+const getNextSmallerSize = (width: number, height: number): number | null => {
+  const largestDim = Math.max(width, height);
+  return TEXTURE_SIZES.find(size => size < largestDim && size >= MIN_TEXTURE_SIZE) ?? null;
+};
+
+/**
+ * Chooses per-texture sizes so that the rebuilt GLB fits under budgetBytes.
+ * The texture with the most bytes relative to its importance is shrunk one TEXTURE_SIZES step
+ * at a time, re-measuring its encoded size and re-estimating the GLB, fallback copies included, after each step.
+ */
+export const planTextureSizesForBudget = async (
+  json: any,
+  textures: SizeBudgetTexture[],
+  budgetBytes: number,
+  measure: MeasureResizedTexture
+): Promise<SizeBudgetPlan> => {
+  const entries: SizeBudgetPlanEntry[] = textures.map(texture => ({
+    index: texture.index,
+    name: texture.name,
+    originalWidth: texture.width,
+    originalHeight: texture.height,
+    originalByteLength: texture.byteLength,
+    size: 0,
+    width: texture.width,
+    height: texture.height,
+    byteLength: texture.byteLength,
+    fallbackByteLength: texture.fallbackByteLength,
+  }));
+  const lockedIndices = new Set(textures.filter(t => t.isLocked).map(t => t.index));
+  const importance = new Map(textures.map(t => [t.index, t.importance ?? 1]));
+  const getPriority = (entry: SizeBudgetPlanEntry) => entry.byteLength / importance.get(entry.index)!;
+
+  const estimate = () =>
+    estimateRebuiltGlbSize(
+      json,
+      new Map(entries.map(entry => [entry.index, entry.byteLength])),
+      new Map(
+        entries
+          .filter(entry => entry.fallbackByteLength !== undefined)
+          .map(entry => [entry.index, entry.fallbackByteLength!])
+      )
+    );
+
+  const originalBytes = estimate();
+  let estimatedBytes = originalBytes;
+
+  while (estimatedBytes > budgetBytes) {
+    const candidate = entries
+      .filter(entry => !lockedIndices.has(entry.index) && getNextSmallerSize(entry.width, entry.height) !== null)
+      .sort((a, b) => getPriority(b) - getPriority(a))[0];
+    if (!candidate) {
+      break;
+    }
+
+    const size = getNextSmallerSize(candidate.width, candidate.height)!;
+    const { width, height } = getResizedDimensions(candidate.originalWidth, candidate.originalHeight, size);
+    candidate.size = size;
+    candidate.width = width;
+    candidate.height = height;
+    candidate.byteLength = await measure(candidate.index, size);
+    const texture = textures.find(t => t.index === candidate.index)!;
+    if (texture.fallbackByteLength !== undefined) {
+      // Fallback copies are not encoded while planning; they shrink with the pixel count
+      const pixelRatio = (width * height) / (texture.width * texture.height);
+      candidate.fallbackByteLength = Math.round(texture.fallbackByteLength * pixelRatio);
+    }
+    estimatedBytes = estimate();
+  }
+
+  return {
+    budgetBytes,
+    originalBytes,
+    estimatedBytes,
+    fits: estimatedBytes <= budgetBytes,
+    entries,
+  };
+};
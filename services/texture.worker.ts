@@ -0,0 +1,110 @@
+import { getDrawRect, getResizeFit, getTargetDimensions, isResizeNoop, type ResizeSpec } from './imageCodec';
+import { resampleImage, type PixelBuffer, type ResampleOptions } from './resample';
+import { encodePng } from './pngEncoder';
+
+/** Decodes an image, optionally resizes it, and encodes it as mimeType. */
+export type TextureJob = {
+  source: Blob;
+  mimeType: string;
+  resize: ResizeSpec | null;
+  quality: number;
+  resample: ResampleOptions;
+};
+
+export type TextureWorkerRequest = TextureJob & { id: number };
+
+export type TextureWorkerResponse = { id: number; data: ArrayBuffer } | { id: number; error: string };
+
+const getContext = (canvas: OffscreenCanvas) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('Could not get canvas context');
+  return ctx;
+};
+
+/**
+ * Reads a bitmap's stored bytes through a WebGL texture, which unlike a 2D canvas is not premultiplied.
+ * Returns null where WebGL 2 is unavailable or the image exceeds the maximum texture size.
+ */
+const readBitmapWithWebgl = (bitmap: ImageBitmap): PixelBuffer | null => {
+  const gl = new OffscreenCanvas(1, 1).getContext('webgl2');
+  if (!gl || Math.max(bitmap.width, bitmap.height) > gl.getParameter(gl.MAX_TEXTURE_SIZE)) return null;
+
+  const { width, height } = bitmap;
+  const texture = gl.createTexture();
+  const framebuffer = gl.createFramebuffer();
+  try {
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+    gl.pixelStorei(gl.UNPACK_COLORSPACE_CONVERSION_WEBGL, gl.NONE);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, gl.RGBA, gl.UNSIGNED_BYTE, bitmap);
+    gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) return null;
+
+    // Rows come back in upload order, top row first, since nothing was flipped
+    const data = new Uint8Array(width * height * 4);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, data);
+    return { data: new Uint8ClampedArray(data.buffer), width, height };
+  } finally {
+    gl.deleteFramebuffer(framebuffer);
+    gl.deleteTexture(texture);
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+};
+
+/**
+ * Decodes an image without premultiplying alpha or converting color spaces, so normal and data maps
+ * keep their stored values. The 2D canvas fallback premultiplies, which quantizes low-alpha colors.
+ */
+const decodePixels = async (source: Blob): Promise<PixelBuffer> => {
+  const bitmap = await createImageBitmap(source, { premultiplyAlpha: 'none', colorSpaceConversion: 'none' });
+  try {
+    const pixels = readBitmapWithWebgl(bitmap);
+    if (pixels) return pixels;
+
+    const ctx = getContext(new OffscreenCanvas(bitmap.width, bitmap.height));
+    ctx.drawImage(bitmap, 0, 0);
+    const { data, width, height } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+    return { data, width, height };
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Encodes pixels as mimeType. PNG is written directly from the unpremultiplied pixels; JPEG has no
+ * alpha, and WebP/AVIF go through a 2D canvas, which premultiplies, since browsers expose no other encoder.
+ */
+const encodePixels = async (pixels: PixelBuffer, mimeType: string, quality: number): Promise<ArrayBuffer> => {
+  if (mimeType === 'image/png') {
+    return encodePng(pixels);
+  }
+
+  const ctx = getContext(new OffscreenCanvas(pixels.width, pixels.height));
+  ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+  const blob = await ctx.canvas.convertToBlob({ type: mimeType, quality });
+  // Browsers silently fall back to PNG for formats they cannot encode
+  if (blob.type !== mimeType) throw new Error(`This browser cannot encode ${mimeType} images`);
+  return blob.arrayBuffer();
+};
+
+const processTexture = async ({ source, mimeType, resize, quality, resample }: TextureJob): Promise<ArrayBuffer> => {
+  let pixels = await decodePixels(source);
+  if (resize && !isResizeNoop(pixels.width, pixels.height, resize)) {
+    const target = getTargetDimensions(pixels.width, pixels.height, resize);
+    const drawRect = getDrawRect(pixels.width, pixels.height, target, getResizeFit(resize));
+    pixels = resampleImage({ source: pixels, target, drawRect, options: resample });
+  }
+  return encodePixels(pixels, mimeType, quality);
+};
+
+self.onmessage = async (event: MessageEvent<TextureWorkerRequest>) => {
+  const { id, ...job } = event.data;
+  try {
+    const data = await processTexture(job);
+    self.postMessage({ id, data } satisfies TextureWorkerResponse, { transfer: [data] });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    self.postMessage({ id, error: message } satisfies TextureWorkerResponse);
+  }
+};
@@ -0,0 +1,176 @@
+import type { TextureInfo, TextureRole, TextureUsage } from '../types';
+import {
+  COLOR_TEXTURE_ROLES,
+  CORE_TEXTURE_SLOTS,
+  MTOON_TEXTURE_SLOTS,
+  TEXTURE_ROLE_IMPORTANCE,
+  VRM0_TEXTURE_PROPERTIES,
+} from '../constants/textureRoles';
+import type { ResizeSpec } from './imageCodec';
+import type { ResampleFilter, ResampleOptions } from './resample';
+import { getVrm0MaterialProperties } from './gltfReferences';
+
+export type RoleResizePolicy = Partial<Record<TextureRole, number>>;
+
+/**
+ * Returns every image a texture samples: its core source plus any extension sources
+ * (EXT_texture_webp, EXT_texture_avif, KHR_texture_basisu).
+ */
+const getTextureImageIndices = (texture: any): number[] => {
+  const indices = typeof texture?.source === 'number' ? [texture.source] : [];
+  Object.values(texture?.extensions ?? {}).forEach((extension: any) => {
+    if (typeof extension?.source === 'number') {
+      indices.push(extension.source);
+    }
+  });
+  return indices;
+};
+
+/**
+ * Lists the materials and slots referencing each image, keyed by image index.
+ * Looks at core glTF materials, VRMC_materials_mtoon, VRM 0.x materialProperties and the VRM thumbnail.
+ */
+export const detectTextureUsages = (json: any): Map<number, TextureUsage[]> => {
+  const usages = new Map<number, TextureUsage[]>();
+  const textures: any[] = json.textures ?? [];
+  const materials: any[] = json.materials ?? [];
+
+  const addTextureUsage = (textureIndex: unknown, usage: TextureUsage) => {
+    if (typeof textureIndex !== 'number') return;
+    getTextureImageIndices(textures[textureIndex]).forEach(imageIndex => {
+      usages.set(imageIndex, [...(usages.get(imageIndex) ?? []), usage]);
+    });
+  };
+
+  materials.forEach((material, materialIndex) => {
+    const materialName = material.name || `Material ${materialIndex}`;
+
+    CORE_TEXTURE_SLOTS.forEach(({ path, role }) => {
+      const textureInfo = path.reduce((value: any, key) => value?.[key], material);
+      addTextureUsage(textureInfo?.index, { materialIndex, materialName, slot: path.join('.'), role });
+    });
+
+    const mtoon = material.extensions?.VRMC_materials_mtoon;
+    Object.entries(MTOON_TEXTURE_SLOTS).forEach(([slot, role]) => {
+      addTextureUsage(mtoon?.[slot]?.index, {
+        materialIndex,
+        materialName,
+        slot: `VRMC_materials_mtoon.${slot}`,
+        role,
+      });
+    });
+
+    const properties = getVrm0MaterialProperties(json, materialIndex);
+    Object.entries(properties?.textureProperties ?? {}).forEach(([property, textureIndex]) => {
+      addTextureUsage(textureIndex, {
+        materialIndex,
+        materialName,
+        slot: `materialProperties.${property}`,
+        role: VRM0_TEXTURE_PROPERTIES[property] ?? 'other',
+      });
+    });
+  });
+
+  const thumbnailUsage: TextureUsage = { materialIndex: null, materialName: 'VRM Meta', slot: 'meta', role: 'thumbnail' };
+  const vrm0Thumbnail = json.extensions?.VRM?.meta?.texture;
+  addTextureUsage(vrm0Thumbnail, { ...thumbnailUsage, slot: 'meta.texture' });
+  // VRM 1.0 references the thumbnail image directly
+  const vrm1Thumbnail = json.extensions?.VRMC_vrm?.meta?.thumbnailImage;
+  if (typeof vrm1Thumbnail === 'number') {
+    usages.set(vrm1Thumbnail, [...(usages.get(vrm1Thumbnail) ?? []), { ...thumbnailUsage, slot: 'meta.thumbnailImage' }]);
+  }
+
+  // The same texture is often listed by both core and VRM 0.x slots; keep one entry per material and role
+  usages.forEach((imageUsages, imageIndex) => {
+    const seen = new Set<string>();
+    usages.set(
+      imageIndex,
+      imageUsages.filter(usage => {
+        const key = `${usage.materialIndex}:${usage.role}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+    );
+  });
+
+  return usages;
+};
+
+/**
+ * Returns the distinct roles of a texture, or ['other'] if nothing references it.
+ */
+export const getTextureRoles = (texture: Pick<TextureInfo, 'usages'>): TextureRole[] => {
+  const roles = Array.from(new Set(texture.usages.map(usage => usage.role)));
+  return roles.length > 0 ? roles : ['other'];
+};
+
+/**
+ * Importance of a texture, taken from its most important role.
+ */
+export const getTextureImportance = (texture: Pick<TextureInfo, 'usages'>): number =>
+  Math.max(...getTextureRoles(texture).map(role => TEXTURE_ROLE_IMPORTANCE[role]));
+
+/**
+ * Builds resize options from a per-role max size policy. A texture with several roles gets the
+ * largest size among them, and is kept as-is if any of its roles has no policy.
+ */
+export const applyRoleResizePolicy = (
+  textures: TextureInfo[],
+  policy: RoleResizePolicy
+): Map<number, ResizeSpec> => {
+  const resizeOptions = new Map<number, ResizeSpec>();
+
+  textures.forEach(texture => {
+    if (texture.isReplaced) return;
+
+    const sizes = getTextureRoles(texture).map(role => policy[role] || 0);
+    if (sizes.some(size => size === 0)) return;
+
+    const size = Math.max(...sizes);
+    if (size < Math.max(texture.originalWidth, texture.originalHeight)) {
+      resizeOptions.set(texture.index, { mode: 'max', size });
+    }
+  });
+
+  return resizeOptions;
+};
+
+/**
+ * Returns the alpha test threshold of a material, from glTF alphaMode MASK or VRM 0.x MToon's
+ * _ALPHATEST_ON keyword, or null if the material is not a cutout.
+ */
+const getMaterialAlphaCutoff = (json: any, materialIndex: number): number | null => {
+  const material = json.materials?.[materialIndex];
+  if (material?.alphaMode === 'MASK') {
+    return material.alphaCutoff ?? 0.5;
+  }
+  const properties = getVrm0MaterialProperties(json, materialIndex);
+  if (properties?.keywordMap?._ALPHATEST_ON) {
+    return properties.floatProperties?._Cutoff ?? 0.5;
+  }
+  return null;
+};
+
+/**
+ * Chooses how to resample a texture from its roles: normal maps are renormalized, color maps are
+ * filtered in linear light, and base color textures of cutout materials keep their alpha coverage.
+ */
+export const getTextureResampleOptions = (
+  json: any,
+  texture: Pick<TextureInfo, 'usages'>,
+  filter: ResampleFilter
+): ResampleOptions => {
+  const roles = getTextureRoles(texture);
+  const content = roles.includes('normal')
+    ? 'normal'
+    : roles.some(role => COLOR_TEXTURE_ROLES.includes(role))
+      ? 'color'
+      : 'data';
+  const alphaCutoff =
+    texture.usages
+      .filter(usage => usage.role === 'baseColor' && usage.materialIndex !== null)
+      .map(usage => getMaterialAlphaCutoff(json, usage.materialIndex!))
+      .find(cutoff => cutoff !== null) ?? null;
+  return { filter, content, alphaCutoff };
+};
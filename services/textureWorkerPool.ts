@@ -0,0 +1,118 @@
+import type { TextureJob, TextureWorkerRequest, TextureWorkerResponse } from './texture.worker';
+
+type QueuedJob = {
+  id: number;
+  job: TextureJob;
+  resolve: (data: ArrayBuffer) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
+};
+
+type PoolWorker = { worker: Worker; job: QueuedJob | null };
+
+/**
+ * Number of workers: one per spare core, capped since every job holds a decoded texture and its
+ * filtered copy in memory.
+ */
+export const TEXTURE_WORKER_POOL_SIZE = Math.max(
+  1,
+  Math.min(6, (typeof navigator === 'undefined' ? 2 : navigator.hardwareConcurrency || 2) - 1)
+);
+
+const workers: PoolWorker[] = [];
+const queue: QueuedJob[] = [];
+let nextJobId = 0;
+
+/**
+ * Whether textures can be processed in workers, which needs OffscreenCanvas to decode and encode them.
+ */
+export const isTextureWorkerPoolSupported = (): boolean =>
+  typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+
+const removeWorker = (poolWorker: PoolWorker) => {
+  poolWorker.worker.terminate();
+  workers.splice(workers.indexOf(poolWorker), 1);
+};
+
+/** Detaches the job from its worker and hands the worker the next queued job. */
+const finishJob = (poolWorker: PoolWorker): QueuedJob | null => {
+  const job = poolWorker.job;
+  poolWorker.job = null;
+  job?.signal?.removeEventListener('abort', job.onAbort);
+  dispatchJobs();
+  return job;
+};
+
+const createWorker = (): PoolWorker => {
+  const poolWorker: PoolWorker = {
+    worker: new Worker(new URL('./texture.worker.ts', import.meta.url), { type: 'module' }),
+    job: null,
+  };
+  poolWorker.worker.onmessage = (event: MessageEvent<TextureWorkerResponse>) => {
+    const response = event.data;
+    const job = finishJob(poolWorker);
+    if ('error' in response) {
+      job?.reject(new Error(response.error));
+    } else {
+      job?.resolve(response.data);
+    }
+  };
+  poolWorker.worker.onerror = event => {
+    event.preventDefault();
+    // A crashed worker is replaced on the next dispatch
+    removeWorker(poolWorker);
+    finishJob(poolWorker)?.reject(new Error(`Texture processing failed: ${event.message}`));
+  };
+  workers.push(poolWorker);
+  return poolWorker;
+};
+
+const dispatchJobs = () => {
+  while (queue.length > 0) {
+    const poolWorker =
+      workers.find(worker => !worker.job) ?? (workers.length < TEXTURE_WORKER_POOL_SIZE ? createWorker() : null);
+    if (!poolWorker) {
+      return;
+    }
+
+    const job = queue.shift()!;
+    poolWorker.job = job;
+    const message: TextureWorkerRequest = { ...job.job, id: job.id };
+    poolWorker.worker.postMessage(message);
+  }
+};
+
+/**
+ * Rejects an aborted job. A queued job is dropped; a running one is stopped by terminating its worker.
+ */
+const abortJob = (job: QueuedJob) => {
+  const queueIndex = queue.indexOf(job);
+  if (queueIndex !== -1) {
+    queue.splice(queueIndex, 1);
+    job.signal?.removeEventListener('abort', job.onAbort);
+  } else {
+    const poolWorker = workers.find(worker => worker.job === job);
+    if (!poolWorker) return;
+    removeWorker(poolWorker);
+    finishJob(poolWorker);
+  }
+  job.reject(job.signal?.reason);
+};
+
+/**
+ * Runs a texture job on the next free worker. Jobs beyond the pool size wait in a queue; aborting
+ * signal rejects the job with the signal's reason.
+ */
+export const runTextureJob = (job: TextureJob, signal?: AbortSignal): Promise<ArrayBuffer> => {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const queuedJob: QueuedJob = { id: nextJobId++, job, resolve, reject, signal, onAbort: () => abortJob(queuedJob) };
+    signal?.addEventListener('abort', queuedJob.onAbort);
+    queue.push(queuedJob);
+    dispatchJobs();
+  });
+};
@@ -0,0 +1,442 @@
+import {
+  VRM0_DEFAULT_FIRST_PERSON_OFFSET,
+  VRM0_DEFAULT_LOOK_AT_CURVE,
+  VRM0_TO_VRM1_AVATAR_PERMISSIONS,
+  VRM0_TO_VRM1_BONE_NAMES,
+  VRM0_TO_VRM1_EXPRESSION_PRESETS,
+  VRM0_TO_VRM1_FIRST_PERSON_FLAGS,
+  VRM0_TO_VRM1_MATERIAL_COLOR_TYPES,
+} from '../constants/vrmConversion';
+import { VRM1_DEFAULT_LICENSE_URL } from '../constants/vrmMeta';
+import {
+  getNodesByMesh,
+  toLinearRgb,
+  toLinearRgba,
+  toVrm1Vector,
+  updateExtensionsUsed,
+  type ReportIssue,
+} from './vrmConversionHelpers';
+
+const getLicenseFields = (meta: any, report: ReportIssue) => {
+  const license: string | undefined = meta.licenseName;
+  if (license === 'CC0') {
+    return {
+      creditNotation: 'unnecessary',
+      allowRedistribution: true,
+      modification: 'allowModificationRedistribution',
+    };
+  }
+  if (license?.startsWith('CC_BY')) {
+    report(
+      'meta.licenseName',
+      `${license} has no VRM 1.0 equivalent and was approximated with VRM Public License fields. Review them.`
+    );
+    return {
+      creditNotation: 'required',
+      allowRedistribution: true,
+      modification: license.includes('ND') ? 'prohibited' : 'allowModificationRedistribution',
+      ...(license.includes('NC') && { commercialUsage: 'personalNonProfit' }),
+    };
+  }
+  if (license === 'Other') {
+    report('meta.licenseName', 'Other license is kept as otherLicenseUrl; permission fields use their strictest values.');
+  }
+  return { creditNotation: 'required', allowRedistribution: false, modification: 'prohibited' };
+};
+
+const convertMeta = (json: any, meta: any, report: ReportIssue) => {
+  if (!meta.title) report('meta.title', 'No title to use as the required name.');
+  if (!meta.author) report('meta.author', 'No author to use as the required authors.');
+  if (meta.commercialUssageName === 'Allow') {
+    report('meta.commercialUssageName', 'Allow became personalProfit; choose corporation if companies may use it.');
+  }
+  if (meta.otherPermissionUrl) {
+    report('meta.otherPermissionUrl', 'Has no VRM 1.0 equivalent and was dropped.');
+  }
+
+  const thumbnailTexture = json.textures?.[meta.texture];
+  if (typeof meta.texture === 'number' && meta.texture >= 0 && typeof thumbnailTexture?.source !== 'number') {
+    report('meta.texture', 'Thumbnail texture has no image source and was dropped.');
+  }
+
+  return {
+    name: meta.title ?? '',
+    version: meta.version,
+    authors: meta.author ? [meta.author] : [],
+    contactInformation: meta.contactInformation,
+    references: meta.reference ? [meta.reference] : undefined,
+    thumbnailImage: thumbnailTexture?.source,
+    licenseUrl: VRM1_DEFAULT_LICENSE_URL,
+    avatarPermission: VRM0_TO_VRM1_AVATAR_PERMISSIONS[meta.allowedUserName] ?? 'onlyAuthor',
+    allowExcessivelyViolentUsage: meta.violentUssageName === 'Allow',
+    allowExcessivelySexualUsage: meta.sexualUssageName === 'Allow',
+    commercialUsage: meta.commercialUssageName === 'Allow' ? 'personalProfit' : 'personalNonProfit',
+    allowPoliticalOrReligiousUsage: false,
+    allowAntisocialOrHateUsage: false,
+    otherLicenseUrl: meta.otherLicenseUrl || undefined,
+    ...getLicenseFields(meta, report),
+  };
+};
+
+const convertHumanoid = (humanoid: any, report: ReportIssue) => {
+  const humanBones: Record<string, { node: number }> = {};
+  const customLimitBones: string[] = [];
+  (humanoid?.humanBones ?? []).forEach(({ bone, node, useDefaultValues }: any) => {
+    if (typeof node !== 'number' || node < 0) return;
+    humanBones[VRM0_TO_VRM1_BONE_NAMES[bone] ?? bone] = { node };
+    if (useDefaultValues === false) customLimitBones.push(bone);
+  });
+  if (customLimitBones.length > 0) {
+    report('humanoid', `Custom muscle limits were dropped for: ${customLimitBones.join(', ')}.`);
+  }
+  return { humanBones };
+};
+
+const convertExpressions = (json: any, blendShapeMaster: any, report: ReportIssue) => {
+  const nodesByMesh = getNodesByMesh(json);
+  const materialIndexByName = new Map<string, number>(
+    (json.materials ?? []).map((material: any, i: number) => [material.name, i])
+  );
+  const expressions: Record<'preset' | 'custom', Record<string, any>> = { preset: {}, custom: {} };
+
+  (blendShapeMaster?.blendShapeGroups ?? []).forEach((group: any, groupIndex: number) => {
+    const path = `blendShapeMaster.blendShapeGroups[${groupIndex}]`;
+    const preset = VRM0_TO_VRM1_EXPRESSION_PRESETS[group.presetName];
+    const category = preset ? 'preset' : 'custom';
+    const name = preset ?? group.name;
+    if (!name || expressions[category][name]) {
+      report(path, `Blend shape "${group.name ?? ''}" is unnamed or duplicated and was skipped.`);
+      return;
+    }
+
+    const morphTargetBinds = (group.binds ?? []).flatMap((bind: any) => {
+      const nodes = nodesByMesh.get(bind.mesh) ?? [];
+      if (nodes.length === 0) report(path, `Bind to mesh ${bind.mesh} was dropped because no node uses that mesh.`);
+      return nodes.map(node => ({ node, index: bind.index, weight: Math.min((bind.weight ?? 100) * 0.01, 1) }));
+    });
+
+    const materialColorBinds: any[] = [];
+    const textureTransformBinds: any[] = [];
+    (group.materialValues ?? []).forEach((value: any) => {
+      const material = materialIndexByName.get(value.materialName);
+      const type = VRM0_TO_VRM1_MATERIAL_COLOR_TYPES[value.propertyName];
+      if (material === undefined) {
+        report(path, `Material value for unknown material "${value.materialName}" was dropped.`);
+      } else if (type) {
+        materialColorBinds.push({ material, type, targetValue: toLinearRgba(value.targetValue, [0, 0, 0, 1]) });
+      } else if (value.propertyName === '_MainTex_ST') {
+        const [scaleX = 1, scaleY = 1, offsetX = 0, offsetY = 0]: number[] = value.targetValue ?? [];
+        textureTransformBinds.push({ material, scale: [scaleX, scaleY], offset: [offsetX, 1 - scaleY - offsetY] });
+      } else {
+        report(path, `Material property ${value.propertyName} on "${value.materialName}" has no VRM 1.0 bind.`);
+      }
+    });
+
+    expressions[category][name] = {
+      morphTargetBinds,
+      materialColorBinds,
+      textureTransformBinds,
+      isBinary: group.isBinary ?? false,
+    };
+  });
+
+  return expressions;
+};
+
+const isDefaultCurve = (curve: number[] | undefined) =>
+  !curve || curve.join(',') === VRM0_DEFAULT_LOOK_AT_CURVE.join(',');
+
+const convertFirstPerson = (json: any, vrm0: any, report: ReportIssue) => {
+  const firstPerson = vrm0.firstPerson ?? {};
+  const nodesByMesh = getNodesByMesh(json);
+  const headNode = (vrm0.humanoid?.humanBones ?? []).find((bone: any) => bone.bone === 'head')?.node;
+  if (typeof firstPerson.firstPersonBone === 'number' && firstPerson.firstPersonBone >= 0 &&
+      firstPerson.firstPersonBone !== headNode) {
+    report('firstPerson.firstPersonBone', 'VRM 1.0 always uses the head bone; the first person bone was dropped.');
+  }
+
+  const meshAnnotations = (firstPerson.meshAnnotations ?? []).flatMap((annotation: any) =>
+    (nodesByMesh.get(annotation.mesh) ?? []).map(node => ({
+      node,
+      type: VRM0_TO_VRM1_FIRST_PERSON_FLAGS[annotation.firstPersonFlag] ?? 'auto',
+    }))
+  );
+
+  const isBone = firstPerson.lookAtTypeName !== 'BlendShape';
+  const convertRangeMap = (key: string) => {
+    const map = firstPerson[key];
+    if (!isDefaultCurve(map?.curve)) {
+      report(`firstPerson.${key}`, 'Custom curve was replaced by a linear mapping.');
+    }
+    return { inputMaxValue: map?.xRange ?? 90, outputScale: map?.yRange ?? (isBone ? 10 : 1) };
+  };
+
+  return {
+    firstPerson: { meshAnnotations },
+    lookAt: {
+      type: isBone ? 'bone' : 'expression',
+      offsetFromHeadBone: toVrm1Vector(firstPerson.firstPersonBoneOffset ?? VRM0_DEFAULT_FIRST_PERSON_OFFSET),
+      rangeMapHorizontalInner: convertRangeMap('lookAtHorizontalInner'),
+      rangeMapHorizontalOuter: convertRangeMap('lookAtHorizontalOuter'),
+      rangeMapVerticalDown: convertRangeMap('lookAtVerticalDown'),
+      rangeMapVerticalUp: convertRangeMap('lookAtVerticalUp'),
+    },
+  };
+};
+
+const convertSpringBone = (json: any, secondaryAnimation: any, report: ReportIssue) => {
+  const colliders: any[] = [];
+  const colliderGroups: any[] = [];
+  const colliderGroupIndices = new Map<number, number>();
+  (secondaryAnimation?.colliderGroups ?? []).forEach((group: any, groupIndex: number) => {
+    const first = colliders.length;
+    (group.colliders ?? []).forEach((collider: any) =>
+      colliders.push({
+        node: group.node,
+        shape: { sphere: { offset: toVrm1Vector(collider.offset ?? {}), radius: collider.radius ?? 0 } },
+      })
+    );
+    if (colliders.length === first) return;
+    colliderGroupIndices.set(groupIndex, colliderGroups.length);
+    colliderGroups.push({ colliders: colliders.slice(first).map((_, i) => first + i) });
+  });
+
+  const springs: any[] = [];
+  const jointNodes = new Set<number>();
+  (secondaryAnimation?.boneGroups ?? []).forEach((group: any, groupIndex: number) => {
+    const path = `secondaryAnimation.boneGroups[${groupIndex}]`;
+    const gravityDir = toVrm1Vector({ y: -1, ...group.gravityDir });
+    const spring = (joints: any[]) => ({
+      name: group.comment || undefined,
+      joints,
+      colliderGroups: (group.colliderGroups ?? [])
+        .map((index: number) => colliderGroupIndices.get(index))
+        .filter((index: number | undefined) => index !== undefined),
+      center: typeof group.center === 'number' && group.center >= 0 ? group.center : undefined,
+    });
+
+    // VRM 0.x swings every descendant of a root; VRM 1.0 needs explicit chains, so each branch becomes a spring
+    const addChain = (root: number) => {
+      const joints: any[] = [];
+      let node: number | undefined = root;
+      while (node !== undefined) {
+        if (jointNodes.has(node)) {
+          report(path, `Node ${json.nodes[node]?.name ?? node} already belongs to another spring; the chain stops.`);
+          break;
+        }
+        jointNodes.add(node);
+        joints.push({
+          node,
+          hitRadius: group.hitRadius ?? 0,
+          stiffness: group.stiffiness ?? 1,
+          gravityPower: group.gravityPower ?? 0,
+          gravityDir,
+          dragForce: group.dragForce ?? 0.4,
+        });
+        const [next, ...branches]: number[] = json.nodes[node]?.children ?? [];
+        branches.forEach(addChain);
+        node = next;
+      }
+      if (joints.length > 0) springs.push(spring(joints));
+    };
+    (group.bones ?? []).forEach(addChain);
+  });
+
+  if (springs.length > 0) {
+    report('secondaryAnimation', 'VRM 1.0 springs end at the last bone, without the virtual tail VRM 0.x adds.');
+  }
+  if (springs.length === 0 && colliders.length === 0) return undefined;
+  return { specVersion: '1.0', colliders, colliderGroups, springs };
+};
+
+/** Maps VRM 0.x transparent render queues to VRM 1.0 offsets, keeping their order. */
+const getRenderQueueOffsets = (materialProperties: any[]) => {
+  const isTransparentZWrite = (properties: any) =>
+    properties.shader === 'VRM/UnlitTransparentZWrite' || properties.floatProperties?._ZWrite === 1;
+  const isTransparent = (properties: any) =>
+    properties.keywordMap?._ALPHABLEND_ON !== undefined ||
+    properties.shader === 'VRM/UnlitTransparent' ||
+    properties.shader === 'VRM/UnlitTransparentZWrite';
+
+  const transparentQueues = new Set<number>();
+  const zWriteQueues = new Set<number>();
+  materialProperties.forEach(properties => {
+    if (!isTransparent(properties) || typeof properties.renderQueue !== 'number') return;
+    (isTransparentZWrite(properties) ? zWriteQueues : transparentQueues).add(properties.renderQueue);
+  });
+  const sortedTransparent = Array.from(transparentQueues).sort((a, b) => a - b);
+  const sortedZWrite = Array.from(zWriteQueues).sort((a, b) => a - b);
+
+  return (properties: any): number => {
+    if (!isTransparent(properties) || typeof properties.renderQueue !== 'number') return 0;
+    if (isTransparentZWrite(properties)) {
+      return Math.min(sortedZWrite.indexOf(properties.renderQueue), 9);
+    }
+    const i = sortedTransparent.indexOf(properties.renderQueue);
+    return Math.max(i - sortedTransparent.length + 1, -9);
+  };
+};
+
+/** VRM 0.x stores _MainTex as [offsetX, offsetY, scaleX, scaleY] with a top-left UV origin. */
+const getTextureTransform = (properties: any) => {
+  const [offsetX = 0, offsetY = 0, scaleX = 1, scaleY = 1] = properties.vectorProperties?._MainTex ?? [];
+  const transform = { offset: [offsetX, 1 - scaleY - offsetY], scale: [scaleX, scaleY] };
+  return transform.offset.join(',') === '0,0' && transform.scale.join(',') === '1,1' ? undefined : transform;
+};
+
+const convertMaterial = (material: any, properties: any, renderQueueOffset: number) => {
+  const floats = properties.floatProperties ?? {};
+  const vectors = properties.vectorProperties ?? {};
+  const textures = properties.textureProperties ?? {};
+  const transform = getTextureTransform(properties);
+  const textureInfo = (index: number | undefined, extra: object = {}) =>
+    typeof index === 'number'
+      ? { index, ...extra, ...(transform && { extensions: { KHR_texture_transform: transform } }) }
+      : undefined;
+  const { KHR_materials_unlit: _unlit, ...otherExtensions } = material.extensions ?? {};
+
+  const isUnlit = properties.shader.startsWith('VRM/Unlit');
+  const isTransparent = isUnlit
+    ? properties.shader.startsWith('VRM/UnlitTransparent')
+    : properties.keywordMap?._ALPHABLEND_ON === true;
+  const isCutoff = isUnlit ? properties.shader === 'VRM/UnlitCutout' : properties.keywordMap?._ALPHATEST_ON === true;
+  const baseColorFactor = toLinearRgba(vectors._Color, [1, 1, 1, 1]);
+  const baseColorTexture = textureInfo(textures._MainTex);
+
+  const common = {
+    ...material,
+    pbrMetallicRoughness: { ...material.pbrMetallicRoughness, baseColorFactor, baseColorTexture },
+    alphaMode: isTransparent ? 'BLEND' : isCutoff ? 'MASK' : 'OPAQUE',
+    alphaCutoff: isCutoff ? floats._Cutoff ?? 0.5 : undefined,
+  };
+
+  if (isUnlit) {
+    return {
+      ...common,
+      extensions: {
+        ...otherExtensions,
+        VRMC_materials_mtoon: {
+          specVersion: '1.0',
+          transparentWithZWrite: properties.shader === 'VRM/UnlitTransparentZWrite',
+          renderQueueOffsetNumber: renderQueueOffset,
+          shadeColorFactor: baseColorFactor.slice(0, 3),
+          shadeMultiplyTexture: baseColorTexture,
+        },
+      },
+    };
+  }
+
+  const shadeShift = floats._ShadeShift ?? 0;
+  const shadeToony = floats._ShadeToony ?? 0.9;
+  const shadingToonyFactor = shadeToony + (1 - shadeToony) * (0.5 + 0.5 * shadeShift);
+  const indirectLightIntensity = floats._IndirectLightIntensity ?? 0.1;
+  const outlineColorMode = floats._OutlineColorMode ?? 0;
+
+  return {
+    ...common,
+    normalTexture: textureInfo(textures._BumpMap, { scale: floats._BumpScale ?? 1 }),
+    emissiveTexture: textureInfo(textures._EmissionMap),
+    emissiveFactor: toLinearRgb(vectors._EmissionColor, [0, 0, 0]),
+    doubleSided: (floats._CullMode ?? 2) === 0,
+    extensions: {
+      ...otherExtensions,
+      VRMC_materials_mtoon: {
+        specVersion: '1.0',
+        transparentWithZWrite: floats._ZWrite === 1 && isTransparent,
+        renderQueueOffsetNumber: renderQueueOffset,
+        shadeColorFactor: toLinearRgb(vectors._ShadeColor, [0.97, 0.81, 0.86]),
+        shadeMultiplyTexture: textureInfo(textures._ShadeTexture),
+        shadingShiftFactor: -shadeShift - (1 - shadingToonyFactor),
+        shadingToonyFactor,
+        giEqualizationFactor: 1 - indirectLightIntensity,
+        matcapFactor: typeof textures._SphereAdd === 'number' ? [1, 1, 1] : undefined,
+        matcapTexture: typeof textures._SphereAdd === 'number' ? { index: textures._SphereAdd } : undefined,
+        rimLightingMixFactor: floats._RimLightingMix ?? 0,
+        rimMultiplyTexture: textureInfo(textures._RimTexture),
+        parametricRimColorFactor: toLinearRgb(vectors._RimColor, [0, 0, 0]),
+        parametricRimFresnelPowerFactor: floats._RimFresnelPower ?? 1,
+        parametricRimLiftFactor: floats._RimLift ?? 0,
+        outlineWidthMode: ['none', 'worldCoordinates', 'screenCoordinates'][floats._OutlineWidthMode ?? 0],
+        outlineWidthFactor: (floats._OutlineWidth ?? 0) * 0.01,
+        outlineWidthMultiplyTexture: textureInfo(textures._OutlineWidthTexture),
+        outlineColorFactor: toLinearRgb(vectors._OutlineColor, [0, 0, 0]),
+        outlineLightingMixFactor: outlineColorMode === 1 ? floats._OutlineLightingMix ?? 1 : 0,
+        uvAnimationMaskTexture: textureInfo(textures._UvAnimMaskTexture),
+        uvAnimationScrollXSpeedFactor: floats._UvAnimScrollX ?? 0,
+        uvAnimationScrollYSpeedFactor: -(floats._UvAnimScrollY ?? 0),
+        uvAnimationRotationSpeedFactor: floats._UvAnimRotation ?? 0,
+      },
+    },
+  };
+};
+
+/**
+ * Rewrites materials that VRM 0.x materialProperties describe as MToon or Unlit into VRMC_materials_mtoon.
+ * Returns whether any converted material uses KHR_texture_transform.
+ */
+const convertMaterials = (json: any, materialProperties: any[], report: ReportIssue): boolean => {
+  const materialIndexByName = new Map<string, number>(
+    (json.materials ?? []).map((material: any, i: number) => [material.name, i])
+  );
+  const getRenderQueueOffset = getRenderQueueOffsets(materialProperties);
+  let usesTextureTransform = false;
+
+  materialProperties.forEach((properties, i) => {
+    const path = `materialProperties[${i}]`;
+    const materialIndex = materialIndexByName.get(properties.name);
+    const shader: string = properties.shader ?? '';
+    if (materialIndex === undefined) {
+      report(path, `No material named "${properties.name}"; its properties were dropped.`);
+      return;
+    }
+    if (shader === 'VRM_USE_GLTFSHADER') return;
+    if (shader !== 'VRM/MToon' && !shader.startsWith('VRM/Unlit')) {
+      report(path, `Shader ${shader || '(none)'} has no VRM 1.0 equivalent; the glTF material was kept.`);
+      return;
+    }
+    json.materials[materialIndex] = convertMaterial(
+      json.materials[materialIndex],
+      properties,
+      getRenderQueueOffset(properties)
+    );
+    usesTextureTransform ||= getTextureTransform(properties) !== undefined;
+  });
+
+  return usesTextureTransform;
+};
+
+/**
+ * Converts the VRM 0.x extension data of json to VRM 1.0 in place: meta and license, humanoid,
+ * blend shapes, first person and look at, spring bones and MToon materials.
+ * Geometry still faces -Z; the caller rotates it.
+ */
+export const convertVrm0JsonToVrm1 = (json: any, report: ReportIssue) => {
+  const vrm0 = json.extensions.VRM;
+
+  const usesTextureTransform = convertMaterials(json, vrm0.materialProperties ?? [], report);
+  const springBone = convertSpringBone(json, vrm0.secondaryAnimation, report);
+  json.extensions.VRMC_vrm = {
+    specVersion: '1.0',
+    meta: convertMeta(json, vrm0.meta ?? {}, report),
+    humanoid: convertHumanoid(vrm0.humanoid, report),
+    ...convertFirstPerson(json, vrm0, report),
+    expressions: convertExpressions(json, vrm0.blendShapeMaster, report),
+  };
+  if (springBone) {
+    json.extensions.VRMC_springBone = springBone;
+  }
+  delete json.extensions.VRM;
+
+  const usesMToon = (json.materials ?? []).some((material: any) => material.extensions?.VRMC_materials_mtoon);
+  const usesUnlit = (json.materials ?? []).some((material: any) => material.extensions?.KHR_materials_unlit);
+  updateExtensionsUsed(
+    json,
+    [
+      'VRMC_vrm',
+      ...(springBone ? ['VRMC_springBone'] : []),
+      ...(usesMToon ? ['VRMC_materials_mtoon'] : []),
+      ...(usesTextureTransform ? ['KHR_texture_transform'] : []),
+    ],
+    ['VRM', ...(usesUnlit ? [] : ['KHR_materials_unlit'])]
+  );
+};
@@ -0,0 +1,477 @@
+import {
+  VRM0_DEFAULT_LOOK_AT_CURVE,
+  VRM0_EXPORTER_VERSION,
+  VRM1_TO_VRM0_ALLOWED_USER_NAMES,
+  VRM1_TO_VRM0_BONE_NAMES,
+  VRM1_TO_VRM0_EXPRESSION_PRESETS,
+  VRM1_TO_VRM0_FIRST_PERSON_FLAGS,
+  VRM1_TO_VRM0_MATERIAL_COLOR_PROPERTIES,
+} from '../constants/vrmConversion';
+import { REQUIRED_HUMAN_BONES } from '../constants/vrmHumanoid';
+import { VRM1_DEFAULT_LICENSE_URL } from '../constants/vrmMeta';
+import { toGammaRgba, toVrm0Vector, updateExtensionsUsed, type ReportIssue } from './vrmConversionHelpers';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+const getLicenseFields = (meta: any, report: ReportIssue) => {
+  if (meta.licenseUrl && meta.licenseUrl !== VRM1_DEFAULT_LICENSE_URL) {
+    if (meta.otherLicenseUrl) {
+      report('meta.otherLicenseUrl', 'Dropped; otherLicenseUrl now holds the custom license URL.');
+    }
+    report('meta.licenseUrl', 'Custom license was written as Other with its URL.');
+    return { licenseName: 'Other', otherLicenseUrl: meta.licenseUrl };
+  }
+  if (meta.allowRedistribution !== true) {
+    report('meta.licenseUrl', 'VRM Public License terms were reduced to Redistribution_Prohibited.');
+    return { licenseName: 'Redistribution_Prohibited', otherLicenseUrl: meta.otherLicenseUrl };
+  }
+  report(
+    'meta.licenseUrl',
+    'Credit and modification terms have no VRM 0.x fields; license set to Other pointing at the VRM Public License.'
+  );
+  return { licenseName: 'Other', otherLicenseUrl: meta.otherLicenseUrl || VRM1_DEFAULT_LICENSE_URL };
+};
+
+/** Finds a texture showing the thumbnail image, adding one if no texture uses it yet. */
+const getThumbnailTexture = (json: any, imageIndex: unknown): number | undefined => {
+  if (typeof imageIndex !== 'number' || !json.images?.[imageIndex]) return undefined;
+  const existing = (json.textures ?? []).findIndex((texture: any) => texture.source === imageIndex);
+  if (existing >= 0) return existing;
+  json.textures = json.textures ?? [];
+  return json.textures.push({ source: imageIndex }) - 1;
+};
+
+const convertMeta = (json: any, meta: any, report: ReportIssue) => {
+  const authors: string[] = meta.authors ?? [];
+  const references: string[] = meta.references ?? [];
+  if (authors.length > 1) report('meta.authors', 'Several authors were joined into one author field.');
+  if (references.length > 1) report('meta.references', 'Several references were joined into one reference field.');
+  if (meta.commercialUsage === 'personalProfit') {
+    report('meta.commercialUsage', 'personalProfit became Allow, which VRM 0.x apps also read as corporate use.');
+  }
+  ['copyrightInformation', 'thirdPartyLicenses', 'allowPoliticalOrReligiousUsage', 'allowAntisocialOrHateUsage']
+    .filter(key => meta[key] !== undefined && meta[key] !== '')
+    .forEach(key => report(`meta.${key}`, 'Has no VRM 0.x field and was dropped.'));
+
+  return {
+    title: meta.name,
+    version: meta.version,
+    author: authors.join(', '),
+    contactInformation: meta.contactInformation,
+    reference: references.join(', ') || undefined,
+    texture: getThumbnailTexture(json, meta.thumbnailImage),
+    allowedUserName: VRM1_TO_VRM0_ALLOWED_USER_NAMES[meta.avatarPermission] ?? 'OnlyAuthor',
+    violentUssageName: meta.allowExcessivelyViolentUsage ? 'Allow' : 'Disallow',
+    sexualUssageName: meta.allowExcessivelySexualUsage ? 'Allow' : 'Disallow',
+    commercialUssageName: meta.commercialUsage && meta.commercialUsage !== 'personalNonProfit' ? 'Allow' : 'Disallow',
+    ...getLicenseFields(meta, report),
+  };
+};
+
+const convertHumanoid = (humanoid: any, report: ReportIssue) => {
+  const humanBones = Object.entries(humanoid?.humanBones ?? {}).map(([bone, { node }]: [string, any]) => ({
+    bone: VRM1_TO_VRM0_BONE_NAMES[bone] ?? bone,
+    node,
+    useDefaultValues: true,
+  }));
+  const mapped = new Set(humanBones.map(({ bone }) => bone));
+  const missing = REQUIRED_HUMAN_BONES['0.x'].filter(bone => !mapped.has(bone));
+  if (missing.length > 0) {
+    report('humanoid', `VRM 0.x requires bones this model does not map: ${missing.join(', ')}.`);
+  }
+  return { humanBones };
+};
+
+const convertExpressions = (json: any, expressions: any, report: ReportIssue) => {
+  const blendShapeGroups: any[] = [];
+
+  (['preset', 'custom'] as const).forEach(category =>
+    Object.entries(expressions?.[category] ?? {}).forEach(([name, expression]: [string, any]) => {
+      const path = `expressions.${category}.${name}`;
+      const presetName = category === 'preset' ? VRM1_TO_VRM0_EXPRESSION_PRESETS[name] : undefined;
+      if (category === 'preset' && !presetName) {
+        report(path, 'Has no VRM 0.x preset and became a custom blend shape.');
+      }
+
+      // Binds target nodes in VRM 1.0 but meshes in VRM 0.x; nodes sharing a mesh collapse into one bind
+      const boundTargets = new Set<string>();
+      const binds = (expression.morphTargetBinds ?? []).flatMap((bind: any) => {
+        const mesh = json.nodes?.[bind.node]?.mesh;
+        if (typeof mesh !== 'number') {
+          report(path, `Bind to node ${bind.node} was dropped because the node has no mesh.`);
+          return [];
+        }
+        const key = `${mesh}:${bind.index}`;
+        if (boundTargets.has(key)) return [];
+        boundTargets.add(key);
+        return [{ mesh, index: bind.index, weight: (bind.weight ?? 1) * 100 }];
+      });
+
+      const materialValues: any[] = [];
+      (expression.materialColorBinds ?? []).forEach((bind: any) => {
+        const materialName = json.materials?.[bind.material]?.name;
+        const propertyName = VRM1_TO_VRM0_MATERIAL_COLOR_PROPERTIES[bind.type];
+        if (!materialName || !propertyName) {
+          report(path, `Material color bind ${bind.type} on material ${bind.material} was dropped.`);
+          return;
+        }
+        materialValues.push({ materialName, propertyName, targetValue: toGammaRgba(bind.targetValue, [0, 0, 0, 1]) });
+      });
+      (expression.textureTransformBinds ?? []).forEach((bind: any) => {
+        const materialName = json.materials?.[bind.material]?.name;
+        if (!materialName) {
+          report(path, `Texture transform bind on material ${bind.material} was dropped.`);
+          return;
+        }
+        const [scaleX = 1, scaleY = 1] = bind.scale ?? [];
+        const [offsetX = 0, offsetY = 0] = bind.offset ?? [];
+        materialValues.push({
+          materialName,
+          propertyName: '_MainTex_ST',
+          targetValue: [scaleX, scaleY, offsetX, 1 - scaleY - offsetY],
+        });
+      });
+
+      const overrides = ['overrideBlink', 'overrideLookAt', 'overrideMouth'].filter(
+        key => expression[key] && expression[key] !== 'none'
+      );
+      if (overrides.length > 0) {
+        report(path, `${overrides.join(', ')} ${overrides.length === 1 ? 'has' : 'have'} no VRM 0.x equivalent.`);
+      }
+
+      blendShapeGroups.push({
+        name,
+        presetName: presetName ?? 'unknown',
+        binds,
+        materialValues,
+        isBinary: expression.isBinary ?? false,
+      });
+    })
+  );
+
+  return { blendShapeGroups };
+};
+
+const convertFirstPerson = (json: any, vrm1: any, report: ReportIssue) => {
+  const lookAt = vrm1.lookAt ?? {};
+  const flagsByMesh = new Map<number, string>();
+  (vrm1.firstPerson?.meshAnnotations ?? []).forEach((annotation: any, i: number) => {
+    const path = `firstPerson.meshAnnotations[${i}]`;
+    const mesh = json.nodes?.[annotation.node]?.mesh;
+    const flag = VRM1_TO_VRM0_FIRST_PERSON_FLAGS[annotation.type] ?? 'Auto';
+    if (typeof mesh !== 'number') {
+      report(path, `Node ${annotation.node} has no mesh; the annotation was dropped.`);
+    } else if (flagsByMesh.has(mesh) && flagsByMesh.get(mesh) !== flag) {
+      report(path, `Mesh ${mesh} is shared with another node using a different setting; the first one was kept.`);
+    } else {
+      flagsByMesh.set(mesh, flag);
+    }
+  });
+
+  // VRM 0.x stores -1 when no first person bone is set
+  const headNode = vrm1.humanoid?.humanBones?.head?.node;
+  if (typeof headNode !== 'number') {
+    report('firstPerson.firstPersonBone', 'No head bone is mapped, so the first person bone was left unset.');
+  }
+
+  const isBone = lookAt.type !== 'expression';
+  const convertRangeMap = (map: any) => ({
+    curve: [...VRM0_DEFAULT_LOOK_AT_CURVE],
+    xRange: map?.inputMaxValue ?? 90,
+    yRange: map?.outputScale ?? (isBone ? 10 : 1),
+  });
+
+  return {
+    firstPersonBone: typeof headNode === 'number' ? headNode : -1,
+    firstPersonBoneOffset: toVrm0Vector(lookAt.offsetFromHeadBone ?? [0, 0.06, 0]),
+    meshAnnotations: Array.from(flagsByMesh, ([mesh, firstPersonFlag]) => ({ mesh, firstPersonFlag })),
+    lookAtTypeName: isBone ? 'Bone' : 'BlendShape',
+    lookAtHorizontalInner: convertRangeMap(lookAt.rangeMapHorizontalInner),
+    lookAtHorizontalOuter: convertRangeMap(lookAt.rangeMapHorizontalOuter),
+    lookAtVerticalDown: convertRangeMap(lookAt.rangeMapVerticalDown),
+    lookAtVerticalUp: convertRangeMap(lookAt.rangeMapVerticalUp),
+  };
+};
+
+const toVrm0Spheres = (collider: any, path: string, report: ReportIssue) => {
+  const { sphere, capsule } = collider.shape ?? {};
+  if (sphere) {
+    return [{ offset: toVrm0Vector(sphere.offset ?? []), radius: sphere.radius ?? 0 }];
+  }
+  if (capsule) {
+    report(path, 'Capsule collider was approximated with spheres at both ends.');
+    return [capsule.offset ?? [], capsule.tail ?? []].map(offset => ({
+      offset: toVrm0Vector(offset),
+      radius: capsule.radius ?? 0,
+    }));
+  }
+  report(path, 'Collider has no sphere or capsule shape and was dropped.');
+  return [];
+};
+
+const countDescendants = (json: any, node: number, excluded: Set<number>): number =>
+  (json.nodes?.[node]?.children ?? []).reduce(
+    (count: number, child: number) => count + (excluded.has(child) ? 0 : 1) + countDescendants(json, child, excluded),
+    0
+  );
+
+const JOINT_SETTINGS = ['hitRadius', 'stiffness', 'gravityPower', 'gravityDir', 'dragForce'];
+
+const convertSecondaryAnimation = (json: any, springBone: any, report: ReportIssue) => {
+  // A VRM 0.x collider group belongs to one node, so VRM 1.0 groups are split per node
+  const colliderGroups: { node: number; colliders: any[] }[] = [];
+  const vrm0GroupIndices = (springBone?.colliderGroups ?? []).map((group: any) => {
+    const spheresByNode = new Map<number, any[]>();
+    (group.colliders ?? []).forEach((colliderIndex: number) => {
+      const collider = springBone.colliders?.[colliderIndex];
+      if (!collider) return;
+      const spheres = toVrm0Spheres(collider, `colliders[${colliderIndex}]`, report);
+      spheresByNode.set(collider.node, [...(spheresByNode.get(collider.node) ?? []), ...spheres]);
+    });
+    return Array.from(spheresByNode, ([node, colliders]) => colliderGroups.push({ node, colliders }) - 1);
+  });
+
+  const boneGroups = (springBone?.springs ?? []).flatMap((spring: any, springIndex: number) => {
+    const path = `springs[${springIndex}]`;
+    const joints: any[] = spring.joints ?? [];
+    const [first] = joints;
+    if (!first) return [];
+
+    if (joints.some(joint => JOINT_SETTINGS.some(key => JSON.stringify(joint[key]) !== JSON.stringify(first[key])))) {
+      report(path, 'Joint settings vary along the chain; VRM 0.x applies the first joint\'s settings to all of it.');
+    }
+    const extraBones = countDescendants(json, first.node, new Set(joints.map(joint => joint.node)));
+    if (extraBones > 0) {
+      report(path, `VRM 0.x also swings ${extraBones} descendant bone(s) that were not part of this chain.`);
+    }
+
+    return [
+      {
+        comment: spring.name,
+        stiffiness: first.stiffness ?? 1,
+        gravityPower: first.gravityPower ?? 0,
+        gravityDir: toVrm0Vector(first.gravityDir ?? [0, -1, 0]),
+        dragForce: first.dragForce ?? 0.5,
+        center: spring.center ?? -1,
+        hitRadius: first.hitRadius ?? 0,
+        bones: [first.node],
+        colliderGroups: (spring.colliderGroups ?? []).flatMap((index: number) => vrm0GroupIndices[index] ?? []),
+      },
+    ];
+  });
+
+  return { boneGroups, colliderGroups };
+};
+
+const EMPTY_MATERIAL_PROPERTIES = {
+  floatProperties: {},
+  vectorProperties: {},
+  textureProperties: {},
+  keywordMap: {},
+  tagMap: {},
+};
+
+/** VRM 0.x stores _MainTex as [offsetX, offsetY, scaleX, scaleY] with a top-left UV origin. */
+const getMainTexVector = (textureInfo: any) => {
+  const { offset = [0, 0], scale = [1, 1] } = textureInfo?.extensions?.KHR_texture_transform ?? {};
+  return [offset[0], 1 - scale[1] - offset[1], scale[0], scale[1]];
+};
+
+const getTextureIndices = (slots: Record<string, any>) =>
+  Object.fromEntries(
+    Object.entries(slots)
+      .filter(([, textureInfo]) => typeof textureInfo?.index === 'number')
+      .map(([property, textureInfo]) => [property, textureInfo.index])
+  );
+
+const UNLIT_SHADERS: Record<string, string> = {
+  OPAQUE: 'VRM/UnlitTexture',
+  MASK: 'VRM/UnlitCutout',
+  BLEND: 'VRM/UnlitTransparent',
+};
+
+const UNLIT_RENDER_QUEUES: Record<string, number> = { OPAQUE: 2000, MASK: 2450, BLEND: 3000 };
+
+const toUnlitProperties = (material: any) => {
+  const pbr = material.pbrMetallicRoughness ?? {};
+  const alphaMode = material.alphaMode ?? 'OPAQUE';
+  return {
+    ...EMPTY_MATERIAL_PROPERTIES,
+    name: material.name,
+    shader: UNLIT_SHADERS[alphaMode],
+    renderQueue: UNLIT_RENDER_QUEUES[alphaMode],
+    floatProperties: alphaMode === 'MASK' ? { _Cutoff: material.alphaCutoff ?? 0.5 } : {},
+    vectorProperties: {
+      _Color: toGammaRgba(pbr.baseColorFactor, [1, 1, 1, 1]),
+      _MainTex: getMainTexVector(pbr.baseColorTexture),
+    },
+    textureProperties: getTextureIndices({ _MainTex: pbr.baseColorTexture }),
+  };
+};
+
+const toMToonProperties = (material: any, mtoon: any, path: string, report: ReportIssue) => {
+  const pbr = material.pbrMetallicRoughness ?? {};
+  const alphaMode = material.alphaMode ?? 'OPAQUE';
+  const isCutout = alphaMode === 'MASK';
+  const isTransparent = alphaMode === 'BLEND';
+  const isTransparentWithZWrite = isTransparent && mtoon.transparentWithZWrite === true;
+  const queueOffset = mtoon.renderQueueOffsetNumber ?? 0;
+
+  // Inverse of the VRM 0.x -> 1.0 shading formula; values outside the 0.x ranges are clamped
+  const toony = mtoon.shadingToonyFactor ?? 0.9;
+  const shift = mtoon.shadingShiftFactor ?? 0;
+  const shadeShift = clamp(-shift - (1 - toony), -1, 1);
+  const weight = 0.5 + 0.5 * shadeShift;
+  const shadeToony = weight < 1 ? clamp((toony - weight) / (1 - weight), 0, 1) : 0.9;
+  if (Math.abs(shadeToony + (1 - shadeToony) * weight - toony) > 1e-4 || shadeShift !== -shift - (1 - toony)) {
+    report(path, 'Shading toony/shift values are outside the VRM 0.x range and were clamped.');
+  }
+
+  const textureSlots: Record<string, any> = {
+    _MainTex: pbr.baseColorTexture,
+    _ShadeTexture: mtoon.shadeMultiplyTexture,
+    _BumpMap: material.normalTexture,
+    _EmissionMap: material.emissiveTexture,
+    _SphereAdd: mtoon.matcapTexture,
+    _RimTexture: mtoon.rimMultiplyTexture,
+    _OutlineWidthTexture: mtoon.outlineWidthMultiplyTexture,
+    _UvAnimMaskTexture: mtoon.uvAnimationMaskTexture,
+  };
+  const mainTexVector = getMainTexVector(pbr.baseColorTexture);
+  if (Object.values(textureSlots).some(info => info && getMainTexVector(info).join(',') !== mainTexVector.join(','))) {
+    report(path, 'Textures use different UV transforms; VRM 0.x applies the base color transform to all of them.');
+  }
+  if (mtoon.shadingShiftTexture) {
+    report(path, 'Shading shift texture has no VRM 0.x equivalent and was dropped.');
+  }
+  if (mtoon.matcapFactor && mtoon.matcapFactor.some((value: number) => value !== 1)) {
+    report(path, 'Matcap color factor has no VRM 0.x equivalent and was dropped.');
+  }
+
+  const outlineWidthMode = Math.max(
+    ['none', 'worldCoordinates', 'screenCoordinates'].indexOf(mtoon.outlineWidthMode ?? 'none'),
+    0
+  );
+  const outlineLightingMix = mtoon.outlineLightingMixFactor ?? 1;
+  const outlineColorKeyword = outlineLightingMix > 0 ? 'MTOON_OUTLINE_COLOR_MIXED' : 'MTOON_OUTLINE_COLOR_FIXED';
+
+  return {
+    name: material.name,
+    shader: 'VRM/MToon',
+    renderQueue: isTransparent ? (isTransparentWithZWrite ? 2501 : 3000) + queueOffset : isCutout ? 2450 : 2000,
+    floatProperties: {
+      _Cutoff: material.alphaCutoff ?? 0.5,
+      _BumpScale: material.normalTexture?.scale ?? 1,
+      _ShadeShift: shadeShift,
+      _ShadeToony: shadeToony,
+      _ReceiveShadowRate: 1,
+      _ShadingGradeRate: 1,
+      _LightColorAttenuation: 0,
+      _IndirectLightIntensity: 1 - (mtoon.giEqualizationFactor ?? 0.9),
+      _RimLightingMix: mtoon.rimLightingMixFactor ?? 1,
+      _RimFresnelPower: mtoon.parametricRimFresnelPowerFactor ?? 5,
+      _RimLift: mtoon.parametricRimLiftFactor ?? 0,
+      _OutlineWidth: (mtoon.outlineWidthFactor ?? 0) * 100,
+      _OutlineScaledMaxDistance: 1,
+      _OutlineColorMode: outlineLightingMix > 0 ? 1 : 0,
+      _OutlineLightingMix: outlineLightingMix > 0 ? outlineLightingMix : 1,
+      _UvAnimScrollX: mtoon.uvAnimationScrollXSpeedFactor ?? 0,
+      _UvAnimScrollY: -(mtoon.uvAnimationScrollYSpeedFactor ?? 0),
+      _UvAnimRotation: mtoon.uvAnimationRotationSpeedFactor ?? 0,
+      _BlendMode: isTransparent ? (isTransparentWithZWrite ? 3 : 2) : isCutout ? 1 : 0,
+      _CullMode: material.doubleSided ? 0 : 2,
+      _OutlineWidthMode: outlineWidthMode,
+      _OutlineCullMode: 1,
+      _SrcBlend: isTransparent ? 5 : 1,
+      _DstBlend: isTransparent ? 10 : 0,
+      _ZWrite: isTransparent && !isTransparentWithZWrite ? 0 : 1,
+    },
+    vectorProperties: {
+      _Color: toGammaRgba(pbr.baseColorFactor, [1, 1, 1, 1]),
+      _ShadeColor: toGammaRgba([...(mtoon.shadeColorFactor ?? [0, 0, 0]), 1], [0, 0, 0, 1]),
+      _MainTex: mainTexVector,
+      _EmissionColor: toGammaRgba([...(material.emissiveFactor ?? [0, 0, 0]), 1], [0, 0, 0, 1]),
+      _RimColor: toGammaRgba([...(mtoon.parametricRimColorFactor ?? [0, 0, 0]), 1], [0, 0, 0, 1]),
+      _OutlineColor: toGammaRgba([...(mtoon.outlineColorFactor ?? [0, 0, 0]), 1], [0, 0, 0, 1]),
+    },
+    textureProperties: getTextureIndices(textureSlots),
+    keywordMap: {
+      ...(isCutout && { _ALPHATEST_ON: true }),
+      ...(isTransparent && { _ALPHABLEND_ON: true }),
+      ...(material.normalTexture && { _NORMALMAP: true }),
+      ...(outlineWidthMode === 1 && { MTOON_OUTLINE_WIDTH_WORLD: true }),
+      ...(outlineWidthMode === 2 && { MTOON_OUTLINE_WIDTH_SCREEN: true }),
+      ...(outlineWidthMode > 0 && { [outlineColorKeyword]: true }),
+    },
+    tagMap: { RenderType: isTransparent ? 'Transparent' : isCutout ? 'TransparentCutout' : 'Opaque' },
+  };
+};
+
+/**
+ * Builds VRM 0.x materialProperties for every material and removes the VRM 1.0 material extensions.
+ * VRM 0.x matches properties to materials by name, so unnamed materials are given one.
+ */
+const convertMaterialProperties = (json: any, report: ReportIssue) =>
+  (json.materials ?? []).map((material: any, i: number) => {
+    const path = `materials[${i}]`;
+    material.name = material.name || `Material${i}`;
+    const { VRMC_materials_mtoon: mtoon, VRMC_materials_hdr_emissiveMultiplier: hdr, ...otherExtensions } =
+      material.extensions ?? {};
+    if (hdr) {
+      report(path, 'HDR emissive multiplier has no VRM 0.x equivalent and was dropped.');
+    }
+    if (material.extensions) {
+      material.extensions = otherExtensions;
+      if (Object.keys(otherExtensions).length === 0) delete material.extensions;
+    }
+
+    if (mtoon) return toMToonProperties(material, mtoon, path, report);
+    if (otherExtensions.KHR_materials_unlit) return toUnlitProperties(material);
+    return { ...EMPTY_MATERIAL_PROPERTIES, name: material.name, shader: 'VRM_USE_GLTFSHADER', renderQueue: -1 };
+  });
+
+const removeNodeConstraints = (json: any, report: ReportIssue) => {
+  (json.nodes ?? []).forEach((node: any, i: number) => {
+    if (!node.extensions?.VRMC_node_constraint) return;
+    report(`nodes[${i}]`, `Node constraint on ${node.name || `node ${i}`} has no VRM 0.x equivalent and was dropped.`);
+    delete node.extensions.VRMC_node_constraint;
+    if (Object.keys(node.extensions).length === 0) delete node.extensions;
+  });
+};
+
+/**
+ * Converts the VRM 1.0 extension data of json to VRM 0.x in place: meta and license, humanoid,
+ * expressions, first person and look at, spring bones and MToon materials.
+ * Geometry still faces +Z; the caller rotates it.
+ */
+export const convertVrm1JsonToVrm0 = (json: any, report: ReportIssue) => {
+  const vrm1 = json.extensions.VRMC_vrm;
+  const materialProperties = convertMaterialProperties(json, report);
+
+  json.extensions.VRM = {
+    exporterVersion: VRM0_EXPORTER_VERSION,
+    specVersion: '0.0',
+    meta: convertMeta(json, vrm1.meta ?? {}, report),
+    humanoid: convertHumanoid(vrm1.humanoid, report),
+    firstPerson: convertFirstPerson(json, vrm1, report),
+    blendShapeMaster: convertExpressions(json, vrm1.expressions, report),
+    secondaryAnimation: convertSecondaryAnimation(json, json.extensions.VRMC_springBone, report),
+    materialProperties,
+  };
+  delete json.extensions.VRMC_vrm;
+  delete json.extensions.VRMC_springBone;
+  removeNodeConstraints(json, report);
+
+  updateExtensionsUsed(
+    json,
+    ['VRM'],
+    [
+      'VRMC_vrm',
+      'VRMC_springBone',
+      'VRMC_springBone_extended_collider',
+      'VRMC_node_constraint',
+      'VRMC_materials_mtoon',
+      'VRMC_materials_hdr_emissiveMultiplier',
+    ]
+  );
+};
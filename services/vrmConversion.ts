@@ -0,0 +1,84 @@
+import type { VrmMeta, VrmVersion } from '../types';
+import { getVrmVersion, writeVrmMeta } from './vrmMeta';
+import { rotateModelY180 } from './vrmCoordinates';
+import { convertVrm0JsonToVrm1 } from './vrm0ToVrm1';
+import { convertVrm1JsonToVrm0 } from './vrm1ToVrm0';
+import type { ReportIssue } from './vrmConversionHelpers';
+
+export type VrmConversionIssue = {
+  /** Location in the source VRM extension, e.g. "blendShapeMaster.blendShapeGroups[2]". */
+  path: string;
+  message: string;
+};
+
+export type VrmConversionReport = {
+  from: VrmVersion;
+  to: VrmVersion;
+  /** Data that was dropped or only approximated. */
+  issues: VrmConversionIssue[];
+};
+
+export type VrmConversionResult = {
+  json: any;
+  bin: Uint8Array;
+  report: VrmConversionReport;
+};
+
+/**
+ * Converts the VRM extension data of json in place and returns the issues found, without touching geometry.
+ */
+const convertVrmJson = (json: any, to: VrmVersion): VrmConversionReport => {
+  const from = getVrmVersion(json);
+  if (!from) {
+    throw new Error('The file has no VRM extension to convert.');
+  }
+
+  const issues: VrmConversionIssue[] = [];
+  const report: ReportIssue = (path, message) => issues.push({ path, message });
+  if (from !== to) {
+    if (to === '1.0') {
+      convertVrm0JsonToVrm1(json, report);
+    } else {
+      convertVrm1JsonToVrm0(json, report);
+    }
+  }
+  return { from, to, issues };
+};
+
+/**
+ * Converts a VRM model's JSON and BIN chunk to another spec version. VRM 0.x models face -Z and
+ * VRM 1.0 models face +Z, so the model is also rotated 180 degrees around Y.
+ * json is modified in place; the returned bin is a new array whenever vertex data had to change.
+ */
+export const convertVrmVersion = (json: any, bin: Uint8Array, to: VrmVersion): VrmConversionResult => {
+  const report = convertVrmJson(json, to);
+  if (report.from === to) {
+    return { json, bin, report };
+  }
+
+  const rotated = rotateModelY180(json, bin);
+  rotated.issues.forEach(message => report.issues.push({ path: 'accessors', message }));
+  return { json, bin: rotated.bin, report };
+};
+
+/**
+ * Converts a copy of the model's JSON (with the given edited meta) without touching geometry, e.g. to see
+ * which extensions the export will use.
+ */
+export const convertVrmJsonCopy = (
+  json: any,
+  to: VrmVersion,
+  meta?: VrmMeta
+): { json: any; report: VrmConversionReport } => {
+  const copy = JSON.parse(JSON.stringify(json));
+  if (meta) {
+    writeVrmMeta(copy, meta);
+  }
+  return { json: copy, report: convertVrmJson(copy, to) };
+};
+
+export const formatConversionSummary = (report: VrmConversionReport): string =>
+  `VRM ${report.from} → ${report.to}` +
+  (report.issues.length > 0
+    ? `, ${report.issues.length} ${report.issues.length === 1 ? 'item' : 'items'} not fully converted`
+    : '');
@@ -0,0 +1,56 @@
+/**
+ * Helpers shared by the VRM 0.x <-> 1.0 converters.
+ */
+
+export type ReportIssue = (path: string, message: string) => void;
+
+export type Vector3 = { x?: number; y?: number; z?: number };
+
+/** VRM 0.x stores colors in gamma space; VRM 1.0 expects linear factors. */
+export const gammaToLinear = (value: number) => Math.pow(value, 2.2);
+
+export const linearToGamma = (value: number) => Math.pow(value, 1 / 2.2);
+
+export const toLinearRgb = (color: number[] | undefined, fallback: number[]) =>
+  (color ?? fallback).slice(0, 3).map(gammaToLinear);
+
+/** Alpha is already linear in VRM 0.x. */
+export const toLinearRgba = (color: number[] | undefined, fallback: number[]) => [
+  ...toLinearRgb(color, fallback),
+  (color ?? fallback)[3] ?? 1,
+];
+
+export const toGammaRgba = (color: number[] | undefined, fallback: number[]) => [
+  ...(color ?? fallback).slice(0, 3).map(linearToGamma),
+  (color ?? fallback)[3] ?? 1,
+];
+
+/**
+ * Converts a VRM 0.x vector into VRM 1.0 space. VRM 0.x stores vectors in Unity's left-handed space
+ * (glTF with Z negated) for a model facing -Z; VRM 1.0 uses glTF space for a model facing +Z. Negating Z
+ * and then rotating 180 degrees around Y leaves only X negated. Every 0.x <-> 1.0 vector goes through
+ * this pair: collider offsets, the first person offset and spring gravity directions.
+ */
+export const toVrm1Vector = ({ x = 0, y = 0, z = 0 }: Vector3) => [-x, y, z];
+
+/** Inverse of toVrm1Vector. */
+export const toVrm0Vector = ([x = 0, y = 0, z = 0]: number[]): Vector3 => ({ x: -x, y, z });
+
+export const getNodesByMesh = (json: any): Map<number, number[]> => {
+  const nodesByMesh = new Map<number, number[]>();
+  (json.nodes ?? []).forEach((node: any, nodeIndex: number) => {
+    if (typeof node.mesh !== 'number') return;
+    nodesByMesh.set(node.mesh, [...(nodesByMesh.get(node.mesh) ?? []), nodeIndex]);
+  });
+  return nodesByMesh;
+};
+
+export const updateExtensionsUsed = (json: any, added: string[], removed: string[]) => {
+  const used = new Set<string>(json.extensionsUsed ?? []);
+  removed.forEach(name => used.delete(name));
+  added.forEach(name => used.add(name));
+  json.extensionsUsed = Array.from(used);
+  if (json.extensionsRequired) {
+    json.extensionsRequired = json.extensionsRequired.filter((name: string) => used.has(name));
+  }
+};
@@ -0,0 +1,141 @@
+import { COMPONENT_SIZES, TYPE_COMPONENT_COUNTS } from '../constants/gltf';
+
+type ElementTransform = (values: number[]) => number[];
+
+/** (x, y, z) -> (-x, y, -z). Also used for tangents and quaternions, whose w is unchanged. */
+const flipXZ: ElementTransform = values => values.map((value, i) => (i === 0 || i === 2 ? -value : value));
+
+/** M -> R M R for R = diag(-1, 1, -1, 1), with M stored column-major. */
+const flipMatrix: ElementTransform = values => {
+  const signs = [-1, 1, -1, 1];
+  return values.map((value, i) => value * signs[i % 4] * signs[Math.floor(i / 4)]);
+};
+
+const readComponent = (view: DataView, offset: number, componentType: number): number => {
+  switch (componentType) {
+    case 5120:
+      return view.getInt8(offset);
+    case 5122:
+      return view.getInt16(offset, true);
+    default:
+      return view.getFloat32(offset, true);
+  }
+};
+
+const writeComponent = (view: DataView, offset: number, componentType: number, value: number) => {
+  switch (componentType) {
+    case 5120:
+      view.setInt8(offset, Math.max(-127, Math.min(127, value)));
+      break;
+    case 5122:
+      view.setInt16(offset, Math.max(-32767, Math.min(32767, value)), true);
+      break;
+    default:
+      view.setFloat32(offset, value, true);
+  }
+};
+
+/**
+ * Applies transform to every element of a tightly packed or strided range in bin.
+ */
+const transformElements = (
+  bin: Uint8Array,
+  byteOffset: number,
+  stride: number,
+  count: number,
+  componentType: number,
+  componentCount: number,
+  transform: ElementTransform
+) => {
+  const view = new DataView(bin.buffer, bin.byteOffset, bin.byteLength);
+  const componentSize = COMPONENT_SIZES[componentType];
+  for (let element = 0; element < count; element++) {
+    const elementOffset = byteOffset + element * stride;
+    const values = Array.from({ length: componentCount }, (_, i) =>
+      readComponent(view, elementOffset + i * componentSize, componentType)
+    );
+    transform(values).forEach((value, i) => writeComponent(view, elementOffset + i * componentSize, componentType, value));
+  }
+};
+
+/**
+ * Transforms an accessor's data in bin, including sparse values, and its min/max bounds.
+ * Returns false if the component type cannot be negated (unsigned integers).
+ */
+const transformAccessor = (json: any, bin: Uint8Array, accessor: any, transform: ElementTransform): boolean => {
+  const { componentType } = accessor;
+  if (componentType !== 5126 && componentType !== 5120 && componentType !== 5122) {
+    return false;
+  }
+
+  const componentCount = TYPE_COMPONENT_COUNTS[accessor.type];
+  const elementSize = COMPONENT_SIZES[componentType] * componentCount;
+  const bufferView = json.bufferViews?.[accessor.bufferView];
+  if (bufferView) {
+    const byteOffset = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+    const stride = bufferView.byteStride ?? elementSize;
+    transformElements(bin, byteOffset, stride, accessor.count, componentType, componentCount, transform);
+  }
+
+  const sparseValues = accessor.sparse?.values;
+  const sparseBufferView = json.bufferViews?.[sparseValues?.bufferView];
+  if (sparseBufferView) {
+    const byteOffset = (sparseBufferView.byteOffset ?? 0) + (sparseValues.byteOffset ?? 0);
+    transformElements(bin, byteOffset, elementSize, accessor.sparse.count, componentType, componentCount, transform);
+  }
+
+  if (Array.isArray(accessor.min) && Array.isArray(accessor.max)) {
+    const [min, max] = [transform(accessor.min), transform(accessor.max)];
+    accessor.min = min.map((value, i) => Math.min(value, max[i]));
+    accessor.max = max.map((value, i) => Math.max(value, min[i]));
+  }
+  return true;
+};
+
+/**
+ * Rotates the whole model 180 degrees around the Y axis, which turns a VRM 0.x model (facing -Z)
+ * into a VRM 1.0 model (facing +Z) and back. Node transforms in json are updated in place;
+ * vertex, morph target, skin and animation data is rewritten in a copy of bin.
+ * Returns the new bin and descriptions of the data that could not be rotated.
+ */
+export const rotateModelY180 = (json: any, bin: Uint8Array): { bin: Uint8Array; issues: string[] } => {
+  const rotatedBin = bin.slice();
+  const issues: string[] = [];
+
+  (json.nodes ?? []).forEach((node: any) => {
+    if (node.translation) node.translation = flipXZ(node.translation);
+    if (node.rotation) node.rotation = flipXZ(node.rotation);
+    if (node.matrix) node.matrix = flipMatrix(node.matrix);
+  });
+
+  const transforms = new Map<number, ElementTransform>();
+  (json.meshes ?? []).forEach((mesh: any) =>
+    (mesh.primitives ?? []).forEach((primitive: any) =>
+      [primitive.attributes ?? {}, ...(primitive.targets ?? [])].forEach(attributes =>
+        ['POSITION', 'NORMAL', 'TANGENT'].forEach(semantic => {
+          if (typeof attributes[semantic] === 'number') transforms.set(attributes[semantic], flipXZ);
+        })
+      )
+    )
+  );
+  (json.skins ?? []).forEach((skin: any) => {
+    if (typeof skin.inverseBindMatrices === 'number') transforms.set(skin.inverseBindMatrices, flipMatrix);
+  });
+  (json.animations ?? []).forEach((animation: any) =>
+    (animation.channels ?? []).forEach((channel: any) => {
+      const output = animation.samplers?.[channel.sampler]?.output;
+      if (typeof output === 'number' && ['translation', 'rotation'].includes(channel.target?.path)) {
+        transforms.set(output, flipXZ);
+      }
+    })
+  );
+
+  transforms.forEach((transform, accessorIndex) => {
+    const accessor = json.accessors[accessorIndex];
+    if (!transformAccessor(json, rotatedBin, accessor, transform)) {
+      issues.push(`Accessor ${accessor.name || `#${accessorIndex}`} uses unsigned components and was not rotated.`);
+    }
+  });
+
+  return { bin: rotatedBin, issues };
+};
@@ -0,0 +1,98 @@
+import type { VrmMeta, VrmVersion } from '../types';
+import { META_FIELDS } from '../constants/vrmMeta';
+
+export type VrmMetaErrors = Partial<Record<keyof VrmMeta, string>>;
+
+/**
+ * Detects which VRM extension a glTF JSON uses.
+ */
+export const getVrmVersion = (json: any): VrmVersion | null => {
+  if (json?.extensions?.VRMC_vrm) return '1.0';
+  if (json?.extensions?.VRM) return '0.x';
+  return null;
+};
+
+/**
+ * Reads the meta object from extensions.VRM (0.x) or extensions.VRMC_vrm (1.0).
+ */
+export const readVrmMeta = (json: any): VrmMeta | null => {
+  const extensions = json?.extensions;
+  return (
+    (extensions?.VRM?.meta as VrmMeta | undefined) ??
+    (extensions?.VRMC_vrm?.meta as VrmMeta | undefined) ??
+    null
+  );
+};
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const isValidUrl = (value: string) => {
+  try {
+    new URL(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Validates edited meta fields against the VRM version's required fields and allowed enum values.
+ */
+export const validateVrmMeta = (meta: VrmMeta, version: VrmVersion): VrmMetaErrors => {
+  const errors: VrmMetaErrors = {};
+
+  for (const field of META_FIELDS[version]) {
+    const value = meta[field.key];
+    if (isEmpty(value)) {
+      if (field.required) {
+        errors[field.key] = `${field.label} is required.`;
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'enum':
+        if (!field.options?.includes(value as string)) {
+          errors[field.key] = `${field.label} must be one of: ${field.options?.join(', ')}.`;
+        }
+        break;
+      case 'url':
+        if (!isValidUrl(value as string)) {
+          errors[field.key] = `${field.label} must be a valid URL.`;
+        }
+        break;
+      case 'list':
+        if ((value as string[]).some(item => item.trim() === '')) {
+          errors[field.key] = `${field.label} must not contain empty entries.`;
+        }
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          errors[field.key] = `${field.label} must be true or false.`;
+        }
+        break;
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Writes meta into the VRM extension of the given JSON in place. Empty optional fields are removed.
+ */
+export const writeVrmMeta = (json: any, meta: VrmMeta) => {
+  const version = getVrmVersion(json);
+  if (!version) {
+    throw new Error('Cannot write metadata: the file has no VRM extension.');
+  }
+
+  const extension = version === '1.0' ? json.extensions.VRMC_vrm : json.extensions.VRM;
+  const newMeta: Record<string, unknown> = { ...extension.meta, ...meta };
+  Object.keys(newMeta).forEach(key => {
+    if (isEmpty(newMeta[key])) {
+      delete newMeta[key];
+    }
+  });
+  extension.meta = newMeta;
+};
@@ -1,5 +1,30 @@
 
-import type { TextureInfo } from '../types';
+import type { TextureInfo, VrmMeta, VrmVersion } from '../types';
+import { getVrmVersion, writeVrmMeta } from './vrmMeta';
+import { KTX2_MIME_TYPE, readKtx2Dimensions } from './ktx2';
+import { detectTextureUsages } from './textureRoles';
+import { dedupeImages, type ImageDedupeReport } from './imageDedupe';
+import { pruneUnusedObjects, type PruneReport } from './prune';
+import { removeUnusedMorphTargets, type MorphTargetReport } from './morphTargets';
+import { convertVrmVersion, type VrmConversionReport } from './vrmConversion';
+import {
+  DEFAULT_OUTPUT_QUALITY,
+  TEXTURE_FORMAT_EXTENSIONS,
+  TEXTURE_OUTPUT_FORMATS,
+} from '../constants/textureFormats';
+import {
+  getDrawRect,
+  getResizedDimensions,
+  getResizeFit,
+  getTargetDimensions,
+  isResizeNoop,
+  type ImageCodec,
+  type ImageDimensions,
+  type ResizeSpec,
+} from './imageCodec';
+import { DEFAULT_RESAMPLE_OPTIONS, resampleImage, type PixelBuffer } from './resample';
+import { encodePng } from './pngEncoder';
+import { isTextureWorkerPoolSupported, runTextureJob } from './textureWorkerPool';
 
 const GLB_HEADER_SIZE = 12;
 const CHUNK_HEADER_SIZE = 8;
@@ -49,6 +74,16 @@ export const parseGlb = (arrayBuffer: ArrayBuffer): { json: any; bin: Uint8Array
   return { json, bin };
 };
 
+/**
+ * Returns a copy of the encoded bytes of an embedded image.
+ */
+export const readImageData = (json: any, bin: Uint8Array, imageIndex: number): Uint8Array => {
+  const image = json.images[imageIndex];
+  const bufferView = json.bufferViews[image.bufferView];
+  const byteOffset = bufferView.byteOffset ?? 0;
+  return bin.slice(byteOffset, byteOffset + bufferView.byteLength);
+};
+
 /**
  * Extracts texture information from parsed GLB data.
  */
@@ -57,15 +92,17 @@ export const extractTextures = async (json: any, bin: Uint8Array): Promise<Textu
   if (!images || !bufferViews) return [];
 
   const textureInfos: TextureInfo[] = [];
+  const usages = detectTextureUsages(json);
 
   for (let i = 0; i < images.length; i++) {
     const image = images[i];
-    const bufferView = bufferViews[image.bufferView];
-    const imageData = bin.slice(bufferView.byteOffset, bufferView.byteOffset + bufferView.byteLength);
+    const imageData = readImageData(json, bin, i);
     const blob = new Blob([imageData], { type: image.mimeType });
     const blobUrl = URL.createObjectURL(blob);
     
-    const { width, height } = await getImageDimensions(blobUrl);
+    const { width, height } = image.mimeType === KTX2_MIME_TYPE
+      ? readKtx2Dimensions(imageData)
+      : await getImageDimensions(blobUrl);
     
     const textureName = textures?.find((t: any) => t.source === i)?.name || image.name;
 
@@ -77,57 +114,420 @@ export const extractTextures = async (json: any, bin: Uint8Array): Promise<Textu
       blobUrl,
       mimeType: image.mimeType,
       bufferViewIndex: image.bufferView,
+      byteLength: imageData.byteLength,
+      usages: usages.get(i) ?? [],
     });
   }
 
   return textureInfos;
 };
 
-const getImageDimensions = (blobUrl: string): Promise<{ width: number, height: number }> => {
+const loadImage = (blobUrl: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
-    img.onload = () => resolve({ width: img.width, height: img.height });
+    img.onload = () => resolve(img);
     img.onerror = reject;
     img.src = blobUrl;
   });
 };
 
+const getImageDimensions = async (blobUrl: string): Promise<ImageDimensions> => {
+  const img = await loadImage(blobUrl);
+  return { width: img.width, height: img.height };
+};
+
+const canvasToBuffer = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<ArrayBuffer> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(async (resizedBlob) => {
+            if (!resizedBlob) return reject(new Error('Failed to create blob from canvas'));
+            // Browsers silently fall back to PNG for formats they cannot encode
+            if (resizedBlob.type !== mimeType) return reject(new Error(`This browser cannot encode ${mimeType} images`));
+            resolve(await resizedBlob.arrayBuffer());
+        }, mimeType, quality);
+    });
+};
+
+const drawImageToBuffer = (
+  img: HTMLImageElement,
+  mimeType: string,
+  width: number,
+  height: number,
+  quality = DEFAULT_OUTPUT_QUALITY
+): Promise<ArrayBuffer> => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Could not get canvas context'));
+
+    canvas.width = width;
+    canvas.height = height;
+    ctx.drawImage(img, 0, 0, width, height);
+    return canvasToBuffer(canvas, mimeType, quality);
+};
+
+// Used only where OffscreenCanvas is missing; the 2D canvas premultiplies alpha, so low-alpha colors lose
+// precision here, unlike in the texture worker
+const readImagePixels = (img: HTMLImageElement): PixelBuffer => {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('Could not get canvas context');
+
+    canvas.width = img.width;
+    canvas.height = img.height;
+    ctx.drawImage(img, 0, 0);
+    const { data, width, height } = ctx.getImageData(0, 0, img.width, img.height);
+    return { data, width, height };
+};
+
+const encodePixels = (pixels: PixelBuffer, mimeType: string, quality: number): Promise<ArrayBuffer> => {
+    if (mimeType === 'image/png') return encodePng(pixels);
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Could not get canvas context'));
+
+    canvas.width = pixels.width;
+    canvas.height = pixels.height;
+    ctx.putImageData(new ImageData(pixels.data, pixels.width, pixels.height), 0, 0);
+    return canvasToBuffer(canvas, mimeType, quality);
+};
+
 /**
- * Resizes an image blob to a new maximum dimension.
+ * Resizes an image blob as described by resize and encodes it as mimeType.
+ * A null resize keeps the original dimensions and only re-encodes the image.
+ * Runs in the texture worker pool where the browser supports it, resampling with the filter and texel
+ * handling in resample; aborting signal stops the work.
  */
-export const resizeImage = (blobUrl: string, mimeType: string, newSize: number): Promise<ArrayBuffer> => {
-    return new Promise((resolve, reject) => {
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) return reject(new Error('Could not get canvas context'));
-            
-            let { width, height } = img;
-            if (width > height) {
-                if (width > newSize) {
-                    height = Math.round(height * (newSize / width));
-                    width = newSize;
-                }
-            } else {
-                if (height > newSize) {
-                    width = Math.round(width * (newSize / height));
-                    height = newSize;
-                }
+export const resizeImage = async (
+  blobUrl: string,
+  mimeType: string,
+  resize: ResizeSpec | null,
+  quality = DEFAULT_OUTPUT_QUALITY,
+  resample = DEFAULT_RESAMPLE_OPTIONS,
+  signal?: AbortSignal
+): Promise<ArrayBuffer> => {
+    if (isTextureWorkerPoolSupported()) {
+      const source = await fetch(blobUrl, { signal }).then(res => res.blob());
+      return runTextureJob({ source, mimeType, resize, quality, resample }, signal);
+    }
+
+    signal?.throwIfAborted();
+    const img = await loadImage(blobUrl);
+    if (!resize || isResizeNoop(img.width, img.height, resize)) {
+      return drawImageToBuffer(img, mimeType, img.width, img.height, quality);
+    }
+    const target = getTargetDimensions(img.width, img.height, resize);
+    const drawRect = getDrawRect(img.width, img.height, target, getResizeFit(resize));
+    const pixels = resampleImage({ source: readImagePixels(img), target, drawRect, options: resample });
+    return encodePixels(pixels, mimeType, quality);
+};
+
+/**
+ * Returns the output formats this browser can encode: whatever canvas supports,
+ * plus KTX2 through the WASM encoder.
+ */
+export const detectEncodableFormats = async (): Promise<Set<string>> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 1;
+  canvas.height = 1;
+
+  const supported = new Set<string>();
+  if (typeof WebAssembly === 'object') {
+    supported.add(KTX2_MIME_TYPE);
+  }
+  await Promise.all(
+    TEXTURE_OUTPUT_FORMATS.filter(({ id }) => id !== KTX2_MIME_TYPE).map(
+      ({ id }) =>
+        new Promise<void>(resolve => {
+          canvas.toBlob(blob => {
+            if (blob?.type === id) {
+              supported.add(id);
             }
+            resolve();
+          }, id);
+        })
+    )
+  );
+  return supported;
+};
 
-            canvas.width = width;
-            canvas.height = height;
-            ctx.drawImage(img, 0, 0, width, height);
-            
-            canvas.toBlob(async (resizedBlob) => {
-                if (!resizedBlob) return reject(new Error('Failed to create blob from canvas'));
-                resolve(await resizedBlob.arrayBuffer());
-            }, mimeType, 0.9);
-        };
-        img.onerror = reject;
-        img.src = blobUrl;
-    });
+const withBlobUrl = async <T>(data: Uint8Array, mimeType: string, callback: (blobUrl: string) => Promise<T>): Promise<T> => {
+  const blobUrl = URL.createObjectURL(new Blob([data], { type: mimeType }));
+  try {
+    return await callback(blobUrl);
+  } finally {
+    URL.revokeObjectURL(blobUrl);
+  }
+};
+
+/**
+ * Browser image codec backed by HTMLImageElement and canvas.
+ */
+export const canvasImageCodec: ImageCodec = {
+  getDimensions: (data, mimeType) => withBlobUrl(data, mimeType, getImageDimensions),
+  resize: (data, mimeType, width, height) =>
+    withBlobUrl(data, mimeType, async blobUrl => {
+      const img = await loadImage(blobUrl);
+      return new Uint8Array(await drawImageToBuffer(img, mimeType, width, height));
+    }),
+};
+
+export type TextureResizeResult = {
+  index: number;
+  name: string;
+  mimeType: string;
+  originalWidth: number;
+  originalHeight: number;
+  originalByteLength: number;
+  width: number;
+  height: number;
+  byteLength: number;
+  /** Why the image was passed through unchanged, when the codec could not decode or encode it. */
+  skipped?: string;
+};
+
+/**
+ * Resizes every embedded image whose longest side exceeds maxSize using the given codec
+ * and rebuilds the GLB. Images that already fit, or that the codec cannot handle, are kept as-is.
+ */
+export const resizeGlbTextures = async (
+  json: any,
+  bin: Uint8Array,
+  maxSize: number,
+  codec: ImageCodec,
+  options: Pick<RebuildGlbOptions, 'dedupeImages' | 'prune' | 'removeUnusedMorphTargets' | 'convertTo'> = {}
+): Promise<RebuildGlbResult & { results: TextureResizeResult[] }> => {
+  const images: any[] = json.images ?? [];
+  const resizedImages = new Map<number, ProcessedImage>();
+  const results: TextureResizeResult[] = [];
+
+  for (let i = 0; i < images.length; i++) {
+    const image = images[i];
+    const data = readImageData(json, bin, i);
+    const name = json.textures?.find((t: any) => t.source === i)?.name || image.name || `Texture ${i}`;
+    const result: TextureResizeResult = {
+      index: i,
+      name,
+      mimeType: image.mimeType,
+      originalWidth: 0,
+      originalHeight: 0,
+      originalByteLength: data.byteLength,
+      width: 0,
+      height: 0,
+      byteLength: data.byteLength,
+    };
+    results.push(result);
+
+    try {
+      const original = await codec.getDimensions(data, image.mimeType);
+      const target = getResizedDimensions(original.width, original.height, maxSize);
+      Object.assign(result, {
+        originalWidth: original.width,
+        originalHeight: original.height,
+        width: original.width,
+        height: original.height,
+      });
+
+      if (target.width !== original.width || target.height !== original.height) {
+        const resized = await codec.resize(data, image.mimeType, target.width, target.height);
+        resizedImages.set(i, { data: resized.slice().buffer, mimeType: image.mimeType });
+        Object.assign(result, { width: target.width, height: target.height, byteLength: resized.byteLength });
+      }
+    } catch (e) {
+      result.skipped = e instanceof Error ? e.message : String(e);
+    }
+  }
+
+  return { ...rebuildGlb(json, bin, resizedImages, options), results };
+};
+
+const getPadding = (offset: number, alignment: number) => (alignment - (offset % alignment)) % alignment;
+
+const padTo4 = (length: number) => getPadding(length, 4);
+
+/**
+ * Returns the byte alignment each bufferView's start needs so that its accessors stay valid.
+ * Views holding accessor data (vertex attributes, indices, sparse indices and values, or any view
+ * with byteStride) start on a 4-byte boundary, which covers every component size. Views without
+ * accessors, such as images, need none.
+ */
+const getBufferViewAlignments = (json: any): number[] => {
+  const alignments: number[] = json.bufferViews.map((bufferView: any) => (bufferView.byteStride ? 4 : 1));
+  const requireAlignment = (bufferViewIndex: unknown) => {
+    if (typeof bufferViewIndex === 'number' && alignments[bufferViewIndex] !== undefined) {
+      alignments[bufferViewIndex] = 4;
+    }
+  };
+
+  (json.accessors ?? []).forEach((accessor: any) => {
+    requireAlignment(accessor.bufferView);
+    requireAlignment(accessor.sparse?.indices?.bufferView);
+    requireAlignment(accessor.sparse?.values?.bufferView);
+  });
+
+  return alignments;
+};
+
+/**
+ * Lays out bufferViews with the given byte lengths in their original order, padding each start
+ * to the alignment its accessors require, and updates offsets in the JSON. byteStride is kept.
+ * Returns the resulting BIN chunk length before padding.
+ */
+const layoutBufferViews = (json: any, byteLengths: number[]): number => {
+  const alignments = getBufferViewAlignments(json);
+  let currentOffset = 0;
+  for (let i = 0; i < json.bufferViews.length; i++) {
+    currentOffset += getPadding(currentOffset, alignments[i]);
+    json.bufferViews[i].byteOffset = currentOffset;
+    json.bufferViews[i].byteLength = byteLengths[i];
+    currentOffset += byteLengths[i];
+  }
+
+  json.buffers[0].byteLength = currentOffset;
+  return currentOffset;
+};
+
+/**
+ * Serializes the JSON chunk, padded with spaces to a 4-byte boundary.
+ */
+const encodeJsonChunk = (json: any): Uint8Array => {
+  const encoded = new TextEncoder().encode(JSON.stringify(json));
+  const jsonBytes = new Uint8Array(encoded.byteLength + padTo4(encoded.byteLength)).fill(0x20);
+  jsonBytes.set(encoded, 0);
+  return jsonBytes;
+};
+
+const getGlbByteLength = (jsonByteLength: number, binByteLength: number) =>
+  GLB_HEADER_SIZE + (CHUNK_HEADER_SIZE + jsonByteLength) + (CHUNK_HEADER_SIZE + binByteLength + padTo4(binByteLength));
+
+const getImageIndexByBufferView = (json: any): Map<number, number> => {
+  const bufferViewToImageIndex = new Map<number, number>();
+  (json.images ?? []).forEach((img: any, index: number) => {
+    bufferViewToImageIndex.set(img.bufferView, index);
+  });
+  return bufferViewToImageIndex;
+};
+
+/**
+ * Calculates the byte length rebuildGlb would produce if the given images were
+ * replaced by data of the given byte lengths, without encoding anything. Images with a
+ * fallback length keep the fallback in place and get their WebP/AVIF/KTX2 copy appended.
+ */
+export const estimateRebuiltGlbSize = (
+  originalJson: any,
+  imageByteLengths: Map<number, number>,
+  fallbackByteLengths: Map<number, number> = new Map()
+): number => {
+  const newJson = JSON.parse(JSON.stringify(originalJson));
+  const bufferViewToImageIndex = getImageIndexByBufferView(newJson);
+
+  const byteLengths = newJson.bufferViews.map((bv: any, i: number) => {
+    const imageIndex = bufferViewToImageIndex.get(i);
+    if (imageIndex === undefined) return bv.byteLength;
+    return fallbackByteLengths.get(imageIndex) ?? imageByteLengths.get(imageIndex) ?? bv.byteLength;
+  });
+  fallbackByteLengths.forEach((_, imageIndex) => {
+    const byteLength = imageByteLengths.get(imageIndex) ?? 0;
+    const bufferView = newJson.bufferViews.push({ buffer: 0, byteOffset: 0, byteLength }) - 1;
+    byteLengths.push(byteLength);
+    newJson.images.push({ name: newJson.images[imageIndex]?.name, bufferView });
+  });
+
+  const binByteLength = layoutBufferViews(newJson, byteLengths);
+  return getGlbByteLength(encodeJsonChunk(newJson).byteLength, binByteLength);
+};
+
+export type ProcessedImage = {
+  data: ArrayBuffer;
+  mimeType: string;
+  /** Core-format copy kept for loaders without EXT_texture_webp / EXT_texture_avif support. */
+  fallback?: { data: ArrayBuffer; mimeType: string };
+};
+
+const addExtensionUsed = (json: any, extensionName: string, required: boolean) => {
+  json.extensionsUsed = Array.from(new Set([...(json.extensionsUsed ?? []), extensionName]));
+  if (required) {
+    json.extensionsRequired = Array.from(new Set([...(json.extensionsRequired ?? []), extensionName]));
+  }
+};
+
+/**
+ * Appends a new bufferView for the given data and returns its index.
+ */
+const appendBufferView = (json: any, bufferViewData: Uint8Array[], data: Uint8Array): number => {
+  json.bufferViews.push({ buffer: 0, byteOffset: 0, byteLength: data.byteLength });
+  bufferViewData.push(data);
+  return json.bufferViews.length - 1;
+};
+
+/**
+ * Points every texture sourcing imageIndex at an image stored in an extension format.
+ * Without a fallback the core source is removed and the extension becomes required.
+ */
+const applyImageFormatExtension = (
+  json: any,
+  imageIndex: number,
+  extensionImageIndex: number,
+  extensionName: string,
+  hasFallback: boolean
+) => {
+  json.textures?.forEach((texture: any) => {
+    if (texture.source !== imageIndex) return;
+    texture.extensions = { ...texture.extensions, [extensionName]: { source: extensionImageIndex } };
+    if (!hasFallback) {
+      delete texture.source;
+    }
+  });
+  addExtensionUsed(json, extensionName, !hasFallback);
+};
+
+/**
+ * Embeds an image as the VRM thumbnail of a model that has none. VRM 1.0 references the image
+ * from meta.thumbnailImage; VRM 0.x needs a texture for meta.texture.
+ */
+const appendThumbnail = (json: any, bufferViewData: Uint8Array[], thumbnail: ProcessedImage) => {
+  const version = getVrmVersion(json);
+  if (!version) {
+    throw new Error('Cannot add a thumbnail: the file has no VRM extension.');
+  }
+
+  const bufferView = appendBufferView(json, bufferViewData, new Uint8Array(thumbnail.data));
+  json.images = json.images ?? [];
+  const imageIndex = json.images.push({ name: 'thumbnail', mimeType: thumbnail.mimeType, bufferView }) - 1;
+
+  if (version === '1.0') {
+    json.extensions.VRMC_vrm.meta = { ...json.extensions.VRMC_vrm.meta, thumbnailImage: imageIndex };
+    return;
+  }
+  json.textures = json.textures ?? [];
+  const textureIndex = json.textures.push({ name: 'thumbnail', source: imageIndex }) - 1;
+  json.extensions.VRM.meta = { ...json.extensions.VRM.meta, texture: textureIndex };
+};
+
+export type RebuildGlbOptions = {
+  /** Edited meta written into extensions.VRM or extensions.VRMC_vrm. */
+  meta?: VrmMeta;
+  /** Merge images whose bytes are identical after processing. */
+  dedupeImages?: boolean;
+  /** Remove materials, textures, images, samplers, accessors and bufferViews nothing references. */
+  prune?: boolean;
+  /** Remove morph targets that no VRM blend shape group or expression binds. */
+  removeUnusedMorphTargets?: boolean;
+  /** Convert the model to this VRM spec version, after the edited meta has been written. */
+  convertTo?: VrmVersion;
+  /** PNG or JPEG image added as the thumbnail of a model without one, after any conversion. */
+  thumbnail?: ProcessedImage;
+};
+
+export type RebuildGlbResult = {
+  buffer: ArrayBuffer;
+  /** Set when options.dedupeImages was enabled. */
+  dedupe?: ImageDedupeReport;
+  /** Set when options.prune was enabled. */
+  prune?: PruneReport;
+  /** Set when options.removeUnusedMorphTargets was enabled. */
+  morphTargets?: MorphTargetReport;
+  /** Set when options.convertTo was given. */
+  conversion?: VrmConversionReport;
 };
 
 /**
@@ -136,64 +536,76 @@ export const resizeImage = (blobUrl: string, mimeType: string, newSize: number):
 export const rebuildGlb = (
   originalJson: any,
   originalBin: Uint8Array,
-  resizedImages: Map<number, { data: ArrayBuffer; mimeType: string }>
-): ArrayBuffer => {
+  resizedImages: Map<number, ProcessedImage>,
+  options: RebuildGlbOptions = {}
+): RebuildGlbResult => {
   const newJson = JSON.parse(JSON.stringify(originalJson));
-  const bufferViewDataMap = new Map<number, Uint8Array>();
+  if (options.meta) {
+    writeVrmMeta(newJson, options.meta);
+  }
+  const converted = options.convertTo ? convertVrmVersion(newJson, originalBin, options.convertTo) : undefined;
+  const sourceBin = converted?.bin ?? originalBin;
+  const bufferViewData: Uint8Array[] = [];
   
   // Create a map from bufferView index to image index
-  const bufferViewToImageIndex = new Map<number, number>();
-  newJson.images.forEach((img: any, index: number) => {
-    bufferViewToImageIndex.set(img.bufferView, index);
-  });
+  const bufferViewToImageIndex = getImageIndexByBufferView(newJson);
 
-  // Populate map with original or resized data for each buffer view
+  // Collect original or resized data for each buffer view
   for(let i = 0; i < newJson.bufferViews.length; i++) {
     const bv = newJson.bufferViews[i];
     const imageIndex = bufferViewToImageIndex.get(i);
     
     if (imageIndex !== undefined && resizedImages.has(imageIndex)) {
       const resizedData = resizedImages.get(imageIndex)!.data;
-      bufferViewDataMap.set(i, new Uint8Array(resizedData));
+      bufferViewData.push(new Uint8Array(resizedData));
     } else {
-      const originalData = originalBin.slice(bv.byteOffset, bv.byteOffset + bv.byteLength);
-      bufferViewDataMap.set(i, originalData);
+      const byteOffset = bv.byteOffset ?? 0;
+      bufferViewData.push(sourceBin.slice(byteOffset, byteOffset + bv.byteLength));
     }
   }
 
-  // Reconstruct BIN and update JSON offsets
-  const newBinChunks: Uint8Array[] = [];
-  let currentOffset = 0;
-  for (let i = 0; i < newJson.bufferViews.length; i++) {
-    const data = bufferViewDataMap.get(i)!;
-    newJson.bufferViews[i].byteOffset = currentOffset;
-    newJson.bufferViews[i].byteLength = data.byteLength;
-    newBinChunks.push(data);
-    currentOffset += data.byteLength;
+  if (options.thumbnail) {
+    appendThumbnail(newJson, bufferViewData, options.thumbnail);
   }
-  
-  newJson.buffers[0].byteLength = currentOffset;
 
-  const newBin = new Uint8Array(currentOffset);
-  let offset = 0;
-  for (const chunk of newBinChunks) {
-    newBin.set(chunk, offset);
-    offset += chunk.length;
-  }
-  
-  // Serialize JSON and pad
-  let jsonString = JSON.stringify(newJson);
-  const jsonPadding = (4 - (jsonString.length % 4)) % 4;
-  jsonString += ' '.repeat(jsonPadding);
-  const jsonBytes = new TextEncoder().encode(jsonString);
+  // Images re-encoded as WebP/AVIF are referenced through their extension, next to an optional fallback
+  resizedImages.forEach((processed, imageIndex) => {
+    const image = newJson.images[imageIndex];
+    const extensionName = TEXTURE_FORMAT_EXTENSIONS[processed.mimeType];
+    if (!extensionName || !processed.fallback) {
+      image.mimeType = processed.mimeType;
+      if (extensionName) {
+        applyImageFormatExtension(newJson, imageIndex, imageIndex, extensionName, false);
+      }
+      return;
+    }
+
+    image.mimeType = processed.fallback.mimeType;
+    bufferViewData[image.bufferView] = new Uint8Array(processed.fallback.data);
+    const extensionBufferView = appendBufferView(newJson, bufferViewData, new Uint8Array(processed.data));
+    const extensionImageIndex =
+      newJson.images.push({ name: image.name, mimeType: processed.mimeType, bufferView: extensionBufferView }) - 1;
+    applyImageFormatExtension(newJson, imageIndex, extensionImageIndex, extensionName, true);
+  });
+
+  const morphTargets = options.removeUnusedMorphTargets
+    ? removeUnusedMorphTargets(newJson, bufferViewData)
+    : undefined;
+  const dedupe = options.dedupeImages ? dedupeImages(newJson, bufferViewData) : undefined;
+  const prune = options.prune ? pruneUnusedObjects(newJson, bufferViewData) : undefined;
+
+  // Reconstruct BIN and update JSON offsets
+  const binByteLength = layoutBufferViews(newJson, bufferViewData.map(data => data.byteLength));
 
   // Pad BIN
-  const binPadding = (4 - (newBin.byteLength % 4)) % 4;
-  const finalBin = new Uint8Array(newBin.byteLength + binPadding);
-  finalBin.set(newBin, 0);
+  const finalBin = new Uint8Array(binByteLength + padTo4(binByteLength));
+  bufferViewData.forEach((data, i) => finalBin.set(data, newJson.bufferViews[i].byteOffset));
+  
+  // Serialize JSON and pad
+  const jsonBytes = encodeJsonChunk(newJson);
 
   // Create final GLB
-  const totalLength = GLB_HEADER_SIZE + (CHUNK_HEADER_SIZE + jsonBytes.length) + (CHUNK_HEADER_SIZE + finalBin.length);
+  const totalLength = getGlbByteLength(jsonBytes.length, binByteLength);
   const finalBuffer = new ArrayBuffer(totalLength);
   const dataView = new DataView(finalBuffer);
 
@@ -216,5 +628,5 @@ export const rebuildGlb = (
   dataView.setUint32(bufferOffset + 4, BIN_CHUNK_TYPE, true);
   new Uint8Array(finalBuffer, bufferOffset + CHUNK_HEADER_SIZE, finalBin.length).set(finalBin);
   
-  return finalBuffer;
+  return { buffer: finalBuffer, dedupe, prune, morphTargets, conversion: converted?.report };
 };
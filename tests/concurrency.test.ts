@@ -0,0 +1,53 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/** Resolves after ms, or rejects with the signal's reason as soon as it aborts. */
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    });
+  });
+
+test('resolves with results in item order', async () => {
+  const results = await mapWithConcurrency([30, 10, 20], 2, async (ms, signal) => {
+    await delay(ms, signal);
+    return ms * 2;
+  });
+  assert.deepEqual(results, [60, 20, 40]);
+});
+
+test('aborts running tasks and starts no more after the first failure', async () => {
+  const failure = new Error('decode failed');
+  const started: number[] = [];
+  const aborted: number[] = [];
+  const startTime = Date.now();
+
+  await assert.rejects(
+    mapWithConcurrency([0, 1, 2, 3], 2, async (item, signal) => {
+      started.push(item);
+      if (item === 0) throw failure;
+      try {
+        await delay(10_000, signal);
+      } catch (error) {
+        aborted.push(item);
+        throw error;
+      }
+    }),
+    failure
+  );
+  assert.deepEqual(started, [0, 1]);
+  assert.deepEqual(aborted, [1]);
+  assert.ok(Date.now() - startTime < 1000);
+});
+
+test('forwards an outer abort to running tasks', async () => {
+  const controller = new AbortController();
+  const reason = new Error('canceled');
+  setTimeout(() => controller.abort(reason), 10);
+
+  await assert.rejects(mapWithConcurrency([1, 2], 2, (_, signal) => delay(10_000, signal), controller.signal), reason);
+});
@@ -0,0 +1,54 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { REQUIRED_HUMAN_BONES } from '../constants/vrmHumanoid';
+import { validateGlb } from '../services/glbValidator';
+
+/** A VRM 0.x model with every required bone, no thumbnail and no first person bone. */
+const createVrm0Json = () => {
+  const bones = REQUIRED_HUMAN_BONES['0.x'];
+  return {
+    asset: { version: '2.0' },
+    scenes: [{ nodes: [0] }],
+    nodes: bones.map((bone, i) => ({ name: bone, children: i < bones.length - 1 ? [i + 1] : undefined })),
+    extensions: {
+      VRM: {
+        meta: { title: 'Test', texture: -1 },
+        humanoid: { humanBones: bones.map((bone, node) => ({ bone, node })) },
+        firstPerson: { firstPersonBone: -1 },
+        secondaryAnimation: { boneGroups: [{ bones: [], center: -1 }] },
+      },
+    },
+  };
+};
+
+test('accepts -1 for the VRM 0.x thumbnail and first person bone', () => {
+  assert.deepEqual(validateGlb(createVrm0Json(), new Uint8Array()), []);
+});
+
+test('reports other out-of-range VRM 0.x references', () => {
+  const json = createVrm0Json();
+  json.extensions.VRM.meta.texture = 3;
+  json.extensions.VRM.firstPerson.firstPersonBone = -2;
+
+  const paths = validateGlb(json, new Uint8Array())
+    .filter(finding => finding.severity === 'error')
+    .map(finding => finding.path);
+  assert.deepEqual(paths.sort(), ['nodes[-2]', 'textures[3]']);
+});
+
+test('reports legacy meta of an untouched file as warnings', () => {
+  const json = createVrm0Json();
+  Object.assign(json.extensions.VRM.meta, { otherPermissionUrl: 'See readme.txt', otherLicenseUrl: 'n/a' });
+
+  const findings = validateGlb(json, new Uint8Array());
+  assert.deepEqual(
+    findings.map(finding => [finding.severity, finding.path]),
+    [
+      ['warning', 'meta.otherPermissionUrl'],
+      ['warning', 'meta.otherLicenseUrl'],
+    ]
+  );
+  assert.ok(
+    validateGlb(json, new Uint8Array(), { isMetadataEdited: true }).every(finding => finding.severity === 'error')
+  );
+});
@@ -0,0 +1,30 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { removeUnusedMorphTargets } from '../services/morphTargets';
+
+test('filters node weights along with the mesh weights', () => {
+  const json = {
+    nodes: [{ mesh: 0, weights: [0.1, 0.2, 0.3] }, { mesh: 0 }],
+    meshes: [
+      {
+        primitives: [{ attributes: { POSITION: 0 }, targets: [{ POSITION: 1 }, { POSITION: 2 }, { POSITION: 3 }] }],
+        weights: [0, 0.5, 1],
+        extras: { targetNames: ['a', 'b', 'c'] },
+      },
+    ],
+    accessors: [0, 1, 2, 3].map(bufferView => ({ bufferView, componentType: 5126, count: 1, type: 'VEC3' })),
+    bufferViews: [0, 1, 2, 3].map(() => ({ buffer: 0, byteLength: 12 })),
+    buffers: [{ byteLength: 48 }],
+    extensions: { VRM: { blendShapeMaster: { blendShapeGroups: [{ binds: [{ mesh: 0, index: 1, weight: 100 }] }] } } },
+  };
+  const bufferViewData = json.bufferViews.map(() => new Uint8Array(12));
+
+  const report = removeUnusedMorphTargets(json, bufferViewData);
+
+  assert.deepEqual(report.removed, [{ mesh: '#0', targets: ['a', 'c'] }]);
+  assert.deepEqual(json.meshes[0].weights, [0.5]);
+  assert.deepEqual(json.nodes[0].weights, [0.2]);
+  assert.equal('weights' in json.nodes[1], false);
+  assert.equal(json.extensions.VRM.blendShapeMaster.blendShapeGroups[0].binds[0].index, 0);
+  assert.equal(json.accessors.length, 2);
+});
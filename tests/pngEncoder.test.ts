@@ -0,0 +1,20 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import sharp from 'sharp';
+import { encodePng } from '../services/pngEncoder';
+
+test('keeps the color of low-alpha texels exactly', async () => {
+  const width = 5;
+  const height = 3;
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([(i * 7) % 256, (i * 13) % 256, (i * 29) % 256, (i / 4) % 3], i);
+  }
+
+  const png = Buffer.from(await encodePng({ data, width, height }));
+  const decoded = await sharp(png).ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+
+  assert.equal(decoded.info.width, width);
+  assert.equal(decoded.info.height, height);
+  assert.deepEqual(new Uint8ClampedArray(decoded.data), data);
+});
@@ -0,0 +1,75 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { test } from 'node:test';
+import { sharpImageCodec } from '../cli/sharpImageCodec';
+import { COMPONENT_SIZES, TYPE_COMPONENT_COUNTS } from '../constants/gltf';
+import { parseGlb, rebuildGlb, resizeGlbTextures } from '../services/vrmService';
+
+/** A 64x64 PNG followed by index, position, interleaved (byteStride 16) and UV bufferViews. */
+const readFixture = () => {
+  const file = readFileSync(new URL('./fixtures/image-before-vertices.glb', import.meta.url));
+  return parseGlb(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+};
+
+/** Copies out the bytes of every element of an accessor, skipping the gaps byteStride leaves. */
+const readAccessorBytes = (json: any, bin: Uint8Array, accessorIndex: number): Uint8Array => {
+  const accessor = json.accessors[accessorIndex];
+  const bufferView = json.bufferViews[accessor.bufferView];
+  const elementSize = COMPONENT_SIZES[accessor.componentType] * TYPE_COMPONENT_COUNTS[accessor.type];
+  const stride = bufferView.byteStride ?? elementSize;
+  const start = (bufferView.byteOffset ?? 0) + (accessor.byteOffset ?? 0);
+  const bytes = new Uint8Array(elementSize * accessor.count);
+  for (let i = 0; i < accessor.count; i++) {
+    bytes.set(bin.subarray(start + i * stride, start + i * stride + elementSize), i * elementSize);
+  }
+  return bytes;
+};
+
+const assertAccessorsUnchanged = (original: { json: any; bin: Uint8Array }, buffer: ArrayBuffer) => {
+  const rebuilt = parseGlb(buffer);
+  original.json.bufferViews.forEach((bufferView: any, i: number) => {
+    assert.equal(rebuilt.json.bufferViews[i].byteStride, bufferView.byteStride, `bufferViews[${i}].byteStride`);
+  });
+  rebuilt.json.accessors.forEach((accessor: any, i: number) => {
+    const offset = rebuilt.json.bufferViews[accessor.bufferView].byteOffset + (accessor.byteOffset ?? 0);
+    assert.equal(offset % 4, 0, `accessors[${i}] starts at byte ${offset}`);
+    assert.deepEqual(
+      readAccessorBytes(rebuilt.json, rebuilt.bin, i),
+      readAccessorBytes(original.json, original.bin, i),
+      `accessors[${i}] data`
+    );
+  });
+};
+
+test('keeps accessor data aligned and byte-identical after resizing the image', async () => {
+  const original = readFixture();
+  const { buffer, results } = await resizeGlbTextures(original.json, original.bin, 32, sharpImageCodec);
+
+  assert.equal(results[0].width, 32);
+  assert.notEqual(results[0].byteLength, results[0].originalByteLength);
+  assertAccessorsUnchanged(original, buffer);
+});
+
+test('passes images the codec cannot decode through unchanged', async () => {
+  const original = readFixture();
+  const ktx2 = Uint8Array.from([0xab, 0x4b, 0x54, 0x58, 0x20, 0x32, 0x30, 0xbb, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const withKtx2 = parseGlb(
+    rebuildGlb(original.json, original.bin, new Map([[0, { data: ktx2.buffer, mimeType: 'image/ktx2' }]])).buffer
+  );
+  const { buffer, results } = await resizeGlbTextures(withKtx2.json, withKtx2.bin, 32, sharpImageCodec);
+
+  assert.ok(results[0].skipped);
+  assert.equal(results[0].byteLength, ktx2.byteLength);
+  const rebuilt = parseGlb(buffer);
+  const imageView = rebuilt.json.bufferViews[rebuilt.json.images[0].bufferView];
+  assert.deepEqual(rebuilt.bin.slice(imageView.byteOffset, imageView.byteOffset + imageView.byteLength), ktx2);
+  assertAccessorsUnchanged(original, buffer);
+});
+
+test('pads the following bufferViews for every image length remainder', () => {
+  const original = readFixture();
+  [1, 2, 3, 4].forEach(byteLength => {
+    const image = { data: new Uint8Array(byteLength).buffer, mimeType: 'image/png' };
+    assertAccessorsUnchanged(original, rebuildGlb(original.json, original.bin, new Map([[0, image]])).buffer);
+  });
+});
@@ -0,0 +1,77 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { resampleImage, type PixelBuffer, type ResampleOptions } from '../services/resample';
+
+const createPixels = (width: number, height: number, pixel: (x: number, y: number) => number[]): PixelBuffer => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+  return { data, width, height };
+};
+
+const resample = (source: PixelBuffer, width: number, height: number, options: Partial<ResampleOptions>) =>
+  resampleImage({
+    source,
+    target: { width, height },
+    drawRect: { x: 0, y: 0, width, height },
+    options: { filter: 'box', content: 'color', alphaCutoff: null, ...options },
+  });
+
+test('box filter averages 2x2 blocks of data texels exactly', () => {
+  const source = createPixels(4, 4, (x, y) => [x * 40, y * 40, (x + y) * 20, 255]);
+  const { data } = resample(source, 2, 2, { content: 'data' });
+  // Block (0, 0) averages x and y of 0 and 1: 20, 20, 20
+  assert.deepEqual(Array.from(data.subarray(0, 4)), [20, 20, 20, 255]);
+  // Block (1, 1) averages x and y of 2 and 3: 100, 100, 100
+  assert.deepEqual(Array.from(data.subarray(12, 16)), [100, 100, 100, 255]);
+});
+
+test('box filter averages color in linear light', () => {
+  const checker = createPixels(4, 4, (x, y) => ((x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]));
+  const { data } = resample(checker, 1, 1, {});
+  // Half white in linear light is sRGB 188, not the naive 128
+  assert.deepEqual(Array.from(data), [188, 188, 188, 255]);
+});
+
+test('transparent texels do not bleed their color into neighbors', () => {
+  const source = createPixels(2, 1, x => (x === 0 ? [255, 0, 0, 255] : [0, 255, 0, 0]));
+  const { data } = resample(source, 1, 1, {});
+  assert.deepEqual(Array.from(data.subarray(0, 3)), [255, 0, 0]);
+});
+
+test('normals are unit length after resizing', () => {
+  const source = createPixels(8, 8, (x, y) => {
+    const nx = Math.sin(x) * 0.6;
+    const ny = Math.cos(y) * 0.6;
+    const nz = Math.sqrt(1 - nx * nx - ny * ny);
+    return [(nx + 1) * 127.5, (ny + 1) * 127.5, (nz + 1) * 127.5, 255];
+  });
+
+  (['box', 'bilinearMip', 'lanczos'] as const).forEach(filter => {
+    const { data } = resample(source, 3, 3, { filter, content: 'normal' });
+    for (let i = 0; i < data.length; i += 4) {
+      const length = Math.hypot(...Array.from(data.subarray(i, i + 3), value => value / 127.5 - 1));
+      assert.ok(Math.abs(length - 1) < 0.02, `${filter}: normal ${i / 4} has length ${length}`);
+    }
+  });
+});
+
+test('keeps the alpha-tested coverage of cutout textures', () => {
+  // Scattered opaque texels covering about a third of the image, like sparse hair or foliage
+  let seed = 1;
+  const random = () => ((seed = (seed * 1103515245 + 12345) % 2 ** 31) / 2 ** 31);
+  const source = createPixels(64, 64, () => [255, 255, 255, random() < 0.35 ? 255 : 0]);
+  const getCoverage = ({ data, width, height }: PixelBuffer) => {
+    let covered = 0;
+    for (let i = 3; i < data.length; i += 4) if (data[i] >= 128) covered++;
+    return covered / (width * height);
+  };
+
+  const plain = resample(source, 16, 16, { filter: 'lanczos' });
+  const preserved = resample(source, 16, 16, { filter: 'lanczos', alphaCutoff: 0.5 });
+  assert.ok(getCoverage(plain) < getCoverage(source) / 2);
+  assert.ok(Math.abs(getCoverage(preserved) - getCoverage(source)) <= 0.05);
+});
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { test } from 'node:test';
+import { estimateProjectedImageSize, getSizeBreakdown } from '../services/sizeBreakdown';
+import { parseGlb } from '../services/vrmService';
+
+const image = { byteLength: 12000, width: 64, height: 64, mimeType: 'image/png' };
+
+test('scales the projected image size by pixel count and output format', () => {
+  assert.deepEqual(estimateProjectedImageSize(image, { resize: { mode: 'max', size: 32 } }), { byteLength: 3000 });
+  assert.deepEqual(estimateProjectedImageSize(image, { resize: null, mimeType: 'image/webp' }), { byteLength: 1600 });
+});
+
+test('adds the fallback copy of WebP, AVIF and KTX2 images', () => {
+  assert.deepEqual(estimateProjectedImageSize(image, { resize: null, mimeType: 'image/webp', keepFallback: true }), {
+    byteLength: 1600,
+    fallbackByteLength: 12000,
+  });
+  assert.deepEqual(estimateProjectedImageSize(image, { resize: null, mimeType: 'image/jpeg', keepFallback: true }), {
+    byteLength: 2400,
+  });
+});
+
+test('includes fallback copies in the projected download size', () => {
+  const file = readFileSync(new URL('./fixtures/image-before-vertices.glb', import.meta.url));
+  const { json } = parseGlb(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+  const imageByteLength = json.bufferViews[0].byteLength;
+
+  const withoutFallback = getSizeBreakdown(json, new Map([[0, { byteLength: 1000 }]]));
+  const withFallback = getSizeBreakdown(
+    json,
+    new Map([[0, { byteLength: 1000, fallbackByteLength: imageByteLength }]])
+  );
+
+  assert.ok(withoutFallback.projectedTotalBytes < withoutFallback.totalBytes);
+  assert.ok(withFallback.projectedTotalBytes >= withoutFallback.totalBytes + 1000);
+  const texture = withFallback.entries.find(entry => entry.key === 'texture:0');
+  assert.equal(texture?.projectedByteLength, imageByteLength + 1000);
+});
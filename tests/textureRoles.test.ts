@@ -0,0 +1,41 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { detectTextureUsages, getTextureResampleOptions } from '../services/textureRoles';
+
+/** materialProperties listed in the reverse order of json.materials, as after a prune or in hand-edited files. */
+const json = {
+  materials: [{ name: 'Body' }, { name: 'Hair' }],
+  textures: [{ source: 0 }, { source: 1 }],
+  images: [{ name: 'body' }, { name: 'hair' }],
+  extensions: {
+    VRM: {
+      materialProperties: [
+        {
+          name: 'Hair',
+          textureProperties: { _MainTex: 1 },
+          keywordMap: { _ALPHATEST_ON: true },
+          floatProperties: { _Cutoff: 0.3 },
+        },
+        { name: 'Body', textureProperties: { _MainTex: 0 } },
+      ],
+    },
+  },
+};
+
+test('matches VRM 0.x materialProperties to materials by name', () => {
+  const usages = detectTextureUsages(json);
+  assert.deepEqual(
+    usages.get(1)?.map(usage => [usage.materialIndex, usage.materialName]),
+    [[1, 'Hair']]
+  );
+  assert.deepEqual(
+    usages.get(0)?.map(usage => [usage.materialIndex, usage.materialName]),
+    [[0, 'Body']]
+  );
+});
+
+test('reads the alpha cutoff of the material the properties are named after', () => {
+  const usages = detectTextureUsages(json);
+  assert.equal(getTextureResampleOptions(json, { usages: usages.get(1)! }, 'lanczos').alphaCutoff, 0.3);
+  assert.equal(getTextureResampleOptions(json, { usages: usages.get(0)! }, 'lanczos').alphaCutoff, null);
+});
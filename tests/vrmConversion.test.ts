@@ -0,0 +1,126 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { test } from 'node:test';
+import { REQUIRED_HUMAN_BONES } from '../constants/vrmHumanoid';
+import { convertVrmVersion } from '../services/vrmConversion';
+import { parseGlb } from '../services/vrmService';
+
+const COLLIDER_OFFSET = { x: 0.1, y: 0.2, z: 0.3 };
+const GRAVITY_DIR = { x: 0.6, y: -0.64, z: 0.48 };
+const FIRST_PERSON_OFFSET = { x: 0.01, y: 0.06, z: 0.02 };
+
+/**
+ * The fixture's triangle turned into a VRM 0.x model: a chain of every required bone with offset
+ * translations, a two-bone hair spring with a collider, and a blend shape bound to the triangle.
+ */
+const createVrm0Model = () => {
+  const file = readFileSync(new URL('./fixtures/image-before-vertices.glb', import.meta.url));
+  const { json, bin } = parseGlb(file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength));
+  const bones = REQUIRED_HUMAN_BONES['0.x'];
+  const boneNode = (bone: string) => 1 + bones.indexOf(bone);
+  const hairNode = 1 + bones.length;
+
+  json.materials[0].name = 'Body';
+  json.scenes[0].nodes = [0, 1];
+  json.nodes.push(
+    ...bones.map((bone, i) => ({
+      name: bone,
+      translation: [0.01 * (i + 1), 0.1, -0.02 * (i + 1)],
+      children: [...(i < bones.length - 1 ? [i + 2] : []), ...(bone === 'head' ? [hairNode] : [])],
+    })),
+    { name: 'hair1', translation: [0.05, 0.1, 0.03], children: [hairNode + 1] },
+    { name: 'hair2', translation: [0, -0.1, 0.02] }
+  );
+  json.extensionsUsed = ['VRM'];
+  json.extensions = {
+    VRM: {
+      specVersion: '0.0',
+      meta: { title: 'Test', author: 'Tester', texture: -1, licenseName: 'CC0' },
+      humanoid: { humanBones: bones.map(bone => ({ bone, node: boneNode(bone) })) },
+      firstPerson: { firstPersonBone: boneNode('head'), firstPersonBoneOffset: FIRST_PERSON_OFFSET },
+      blendShapeMaster: {
+        blendShapeGroups: [
+          {
+            name: 'Joy',
+            presetName: 'joy',
+            binds: [{ mesh: 0, index: 0, weight: 50 }],
+            materialValues: [{ materialName: 'Body', propertyName: '_Color', targetValue: [1, 0.5, 0.25, 1] }],
+          },
+        ],
+      },
+      secondaryAnimation: {
+        colliderGroups: [{ node: boneNode('head'), colliders: [{ offset: COLLIDER_OFFSET, radius: 0.1 }] }],
+        boneGroups: [
+          {
+            comment: 'hair',
+            stiffiness: 1,
+            gravityPower: 0.5,
+            gravityDir: GRAVITY_DIR,
+            dragForce: 0.4,
+            center: -1,
+            hitRadius: 0.02,
+            bones: [hairNode],
+            colliderGroups: [0],
+          },
+        ],
+      },
+    },
+  };
+  return { json, bin };
+};
+
+const assertVectorsClose = (actual: number[], expected: number[], message: string) => {
+  assert.equal(actual.length, expected.length, message);
+  actual.forEach((value, i) => assert.ok(Math.abs(value - expected[i]) < 1e-6, `${message}: ${actual} vs ${expected}`));
+};
+
+const toArray = ({ x, y, z }: { x: number; y: number; z: number }) => [x, y, z];
+
+test('converts every VRM 0.x vector with the same axis convention', () => {
+  const { json, bin } = createVrm0Model();
+  const vrm1 = convertVrmVersion(json, bin, '1.0').json.extensions;
+  const springBone = vrm1.VRMC_springBone;
+
+  // Offsets and directions keep Y and Z and negate X, whatever they describe
+  const flipX = ({ x, y, z }: { x: number; y: number; z: number }) => [-x, y, z];
+  assertVectorsClose(springBone.colliders[0].shape.sphere.offset, flipX(COLLIDER_OFFSET), 'collider offset');
+  springBone.springs[0].joints.forEach((joint: any) =>
+    assertVectorsClose(joint.gravityDir, flipX(GRAVITY_DIR), 'gravityDir')
+  );
+  assertVectorsClose(vrm1.VRMC_vrm.lookAt.offsetFromHeadBone, flipX(FIRST_PERSON_OFFSET), 'offsetFromHeadBone');
+});
+
+test('round-trips a VRM 0.x model through VRM 1.0', () => {
+  const original = createVrm0Model();
+  const source = createVrm0Model();
+  const vrm1 = convertVrmVersion(source.json, source.bin, '1.0');
+  original.json.nodes.forEach(({ translation }: any, i: number) => {
+    if (!translation) return;
+    const [x, y, z] = translation;
+    assertVectorsClose(vrm1.json.nodes[i].translation, [-x, y, -z], `VRM 1.0 nodes[${i}].translation`);
+  });
+
+  const { json, bin } = convertVrmVersion(vrm1.json, vrm1.bin, '0.x');
+  const vrm0 = json.extensions.VRM;
+  const expected = original.json.extensions.VRM;
+
+  original.json.nodes.forEach((node: any, i: number) =>
+    assertVectorsClose(json.nodes[i].translation ?? [], node.translation ?? [], `nodes[${i}].translation`)
+  );
+  assert.deepEqual(bin, original.bin);
+
+  const [colliderGroup] = vrm0.secondaryAnimation.colliderGroups;
+  assert.equal(colliderGroup.node, expected.secondaryAnimation.colliderGroups[0].node);
+  assertVectorsClose(toArray(colliderGroup.colliders[0].offset), toArray(COLLIDER_OFFSET), 'collider offset');
+  const [boneGroup] = vrm0.secondaryAnimation.boneGroups;
+  assert.deepEqual(boneGroup.bones, expected.secondaryAnimation.boneGroups[0].bones);
+  assertVectorsClose(toArray(boneGroup.gravityDir), toArray(GRAVITY_DIR), 'gravityDir');
+  assertVectorsClose(toArray(vrm0.firstPerson.firstPersonBoneOffset), toArray(FIRST_PERSON_OFFSET), 'first person');
+
+  const joy = vrm0.blendShapeMaster.blendShapeGroups.find((group: any) => group.presetName === 'joy');
+  assert.deepEqual(joy.binds, expected.blendShapeMaster.blendShapeGroups[0].binds);
+  assert.equal(joy.materialValues.length, 1);
+  assert.equal(joy.materialValues[0].materialName, 'Body');
+  assert.equal(joy.materialValues[0].propertyName, '_Color');
+  assertVectorsClose(joy.materialValues[0].targetValue, [1, 0.5, 0.25, 1], 'material color');
+});
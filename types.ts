@@ -1,3 +1,26 @@
+export type TextureRole =
+  | 'baseColor'
+  | 'normal'
+  | 'metallicRoughness'
+  | 'occlusion'
+  | 'emissive'
+  | 'shade'
+  | 'shadingShift'
+  | 'matcap'
+  | 'rim'
+  | 'outlineWidth'
+  | 'uvAnimationMask'
+  | 'thumbnail'
+  | 'other';
+
+export interface TextureUsage {
+  /** Index into json.materials, or null for non-material references such as the VRM thumbnail. */
+  materialIndex: number | null;
+  materialName: string;
+  slot: string;
+  role: TextureRole;
+}
+
 export interface TextureInfo {
   index: number;
   name: string;
@@ -6,6 +29,9 @@ export interface TextureInfo {
   blobUrl: string;
   mimeType: string;
   bufferViewIndex: number;
+  /** Encoded size of the embedded image, or of the uploaded file once replaced. */
+  byteLength: number;
+  usages: TextureUsage[];
   isReplaced?: boolean;
 }
 
@@ -14,6 +40,8 @@ export interface VrmData {
   bin: Uint8Array;
 }
 
+export type VrmVersion = '0.x' | '1.0';
+
 export interface VrmMeta {
   title?: string;
   version?: string;
@@ -22,8 +50,12 @@ export interface VrmMeta {
   reference?: string;
   allowedUserName?: string;
   violentUssageName?: string;
+  sexualUssageName?: string;
+  commercialUssageName?: string;
+  otherPermissionUrl?: string;
   licenseName?: string;
   licenseUrl?: string;
+  otherLicenseUrl?: string;
   texture?: number;
   thumbnailImage?: number;
   name?: string;
@@ -34,6 +66,8 @@ export interface VrmMeta {
   allowPoliticalOrReligiousUsage?: boolean;
   allowRedistribution?: boolean;
   authors?: string[];
+  references?: string[];
+  thirdPartyLicenses?: string;
   avatarPermission?: string;
   commercialUsage?: string;
   copyrightInformation?: string;
@@ -0,0 +1,37 @@
+/**
+ * Maps items through task with at most limit tasks in flight, resolving with the results in item order.
+ * Rejects with the first error and starts no further tasks after it. Every task gets a shared signal that
+ * is aborted on the first failure or when signal aborts, so tasks still running can stop early.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', onAbort);
+  let nextIndex = 0;
+
+  const runTasks = async () => {
+    while (!controller.signal.aborted && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await task(items[index], controller.signal);
+      } catch (error) {
+        controller.abort(error);
+        throw error;
+      }
+    }
+  };
+
+  try {
+    signal?.throwIfAborted();
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, runTasks));
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+  }
+  return results;
+};
@@ -0,0 +1,17 @@
+/**
+ * Formats a byte count for display, e.g. "1.5 KB" or "12.34 MB".
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+};
+
+/**
+ * Formats a duration in seconds for display, e.g. "8 s" or "2 min 5 s".
+ */
+export const formatDuration = (seconds: number): string => {
+  const rounded = Math.max(1, Math.round(seconds));
+  if (rounded < 60) return `${rounded} s`;
+  return `${Math.floor(rounded / 60)} min ${rounded % 60} s`;
+};
@@ -0,0 +1,67 @@
+export type TreemapRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+/** Worst aspect ratio of a row of areas laid along a side of the given length. */
+const getWorstRatio = (areas: number[], side: number): number => {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+};
+
+/**
+ * Lays values out as a squarified treemap filling width x height. Rects are returned in the order of values;
+ * values of zero or less get an empty rect.
+ */
+export const layoutTreemap = (values: number[], width: number, height: number): TreemapRect[] => {
+  const rects: TreemapRect[] = values.map(() => ({ x: 0, y: 0, width: 0, height: 0 }));
+  const order = values
+    .map((value, index) => ({ value, index }))
+    .filter(item => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = order.reduce((sum, item) => sum + item.value, 0);
+  if (total === 0) return rects;
+
+  const scale = (width * height) / total;
+  let bounds: TreemapRect = { x: 0, y: 0, width, height };
+
+  const placeRow = (row: { area: number; index: number }[]) => {
+    const rowArea = row.reduce((sum, item) => sum + item.area, 0);
+    const isColumn = bounds.width >= bounds.height;
+    const thickness = rowArea / (isColumn ? bounds.height : bounds.width);
+    let offset = 0;
+    row.forEach(({ area, index }) => {
+      const length = area / thickness;
+      rects[index] = isColumn
+        ? { x: bounds.x, y: bounds.y + offset, width: thickness, height: length }
+        : { x: bounds.x + offset, y: bounds.y, width: length, height: thickness };
+      offset += length;
+    });
+    bounds = isColumn
+      ? { ...bounds, x: bounds.x + thickness, width: bounds.width - thickness }
+      : { ...bounds, y: bounds.y + thickness, height: bounds.height - thickness };
+  };
+
+  let row: { area: number; index: number }[] = [];
+  order.forEach(({ value, index }) => {
+    const item = { area: value * scale, index };
+    const side = Math.min(bounds.width, bounds.height);
+    const candidate = [...row, item];
+    if (
+      row.length > 0 &&
+      getWorstRatio(candidate.map(i => i.area), side) > getWorstRatio(row.map(i => i.area), side)
+    ) {
+      placeRow(row);
+      row = [item];
+    } else {
+      row = candidate;
+    }
+  });
+  if (row.length > 0) placeRow(row);
+
+  return rects;
+};
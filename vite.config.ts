@@ -1,7 +1,39 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const BASIS_TRANSCODER_DIR = path.resolve(__dirname, 'node_modules/three/examples/jsm/libs/basis');
+const BASIS_TRANSCODER_FILES = ['basis_transcoder.js', 'basis_transcoder.wasm'];
+
+/**
+ * Serves three.js's Basis transcoder at /basis/ during development and copies it into the build,
+ * so KTX2 previews work offline instead of loading it from a CDN.
+ */
+const basisTranscoder = (): Plugin => ({
+  name: 'basis-transcoder',
+  configureServer(server) {
+    server.middlewares.use('/basis', (req, res, next) => {
+      const fileName = req.url?.split('?')[0].replace(/^\//, '');
+      if (!fileName || !BASIS_TRANSCODER_FILES.includes(fileName)) {
+        next();
+        return;
+      }
+      res.setHeader('Content-Type', fileName.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+      fs.createReadStream(path.join(BASIS_TRANSCODER_DIR, fileName)).pipe(res);
+    });
+  },
+  generateBundle() {
+    BASIS_TRANSCODER_FILES.forEach(fileName =>
+      this.emitFile({
+        type: 'asset',
+        fileName: `basis/${fileName}`,
+        source: fs.readFileSync(path.join(BASIS_TRANSCODER_DIR, fileName)),
+      })
+    );
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +41,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), basisTranscoder()],
       define: {
         'process.env.FIREBASE_API_KEY': JSON.stringify(env.FIREBASE_API_KEY),
         'process.env.FIREBASE_AUTH_DOMAIN': JSON.stringify(env.FIREBASE_AUTH_DOMAIN),